@@ -10,6 +10,17 @@ import Assessment from "@/pages/assessment";
 import CoachingHistory from "@/pages/coaching-history";
 import Profile from "@/pages/profile";
 import ResetPassword from "@/pages/reset-password";
+import ConfirmEmail from "@/pages/confirm-email";
+import VerifyEmail from "@/pages/verify-email";
+import AcceptInvite from "@/pages/accept-invite";
+import OAuthCallback from "@/pages/oauth-callback";
+import FrameworkAdmin from "@/pages/framework-admin";
+import CoacheeProgressPage from "@/pages/coachee-progress";
+import SelfAssessmentPage from "@/pages/self-assessment";
+import EmailTemplatesPage from "@/pages/email-templates";
+
+// Pages reached from emailed links or sign-in redirects, usable without signing in
+const publicPaths = ["/reset-password", "/confirm-email", "/verify-email", "/accept-invite", "/oauth-callback"];
 
 function Router() {
   const [location, setLocation] = useLocation();
@@ -26,7 +37,7 @@ function Router() {
     } else {
       setIsAuthenticated(false);
       // Redirect to login if not authenticated and not already on public pages
-      if (location !== "/login" && location !== "/reset-password") {
+      if (location !== "/login" && !publicPaths.includes(location)) {
         setLocation("/login");
       }
     }
@@ -43,10 +54,30 @@ function Router() {
   }
 
   // Show login screen if not authenticated (except for public pages)
-  if (!isAuthenticated && location !== "/reset-password") {
+  if (!isAuthenticated && !publicPaths.includes(location)) {
     return <Login />;
   }
 
+  // Email change confirmation links work whether or not the user is signed in
+  if (location === "/confirm-email") {
+    return <ConfirmEmail />;
+  }
+
+  // Verification links also work from a browser that isn't signed in
+  if (location === "/verify-email") {
+    return <VerifyEmail />;
+  }
+
+  // Invitees set their password before they have an account
+  if (location === "/accept-invite") {
+    return <AcceptInvite />;
+  }
+
+  // Google and Apple sign-in land here with the session token
+  if (location === "/oauth-callback") {
+    return <OAuthCallback />;
+  }
+
   // Handle reset password page (public access)
   if (location === "/reset-password") {
     return <ResetPassword />;
@@ -59,6 +90,10 @@ function Router() {
       <Route path="/assessment" component={Assessment} />
       <Route path="/coaching-history" component={CoachingHistory} />
       <Route path="/profile" component={Profile} />
+      <Route path="/framework" component={FrameworkAdmin} />
+      <Route path="/coachees/:id" component={CoacheeProgressPage} />
+      <Route path="/self-assessment/:id" component={SelfAssessmentPage} />
+      <Route path="/email-templates" component={EmailTemplatesPage} />
       <Route>
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
           <div className="text-center">
@@ -34,10 +34,11 @@ export default function AppFooter() {
     setShowUserModal(true);
   };
 
-  const handleUserSelected = (userId: number) => {
+  const handleUserSelected = (userId: number, frameworkId?: number, focusStepIds?: number[]) => {
     setShowUserModal(false);
+    const focus = focusStepIds?.length ? `&focus=${focusStepIds.join(",")}` : "";
     // Add timestamp to force a fresh navigation and prevent caching issues
-    setLocation(`/assessment?userId=${userId}&t=${Date.now()}`);
+    setLocation(`/assessment?userId=${userId}${frameworkId ? `&frameworkId=${frameworkId}` : ""}${focus}&t=${Date.now()}`);
   };
 
   const handleNavigation = async (path: string) => {
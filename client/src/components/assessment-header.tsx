@@ -1,5 +1,5 @@
-import { calculateOverallProficiency } from "@/lib/utils";
-import type { Step, Substep, Behavior } from "@shared/schema";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, ScoringPolicy, BehaviorObservations } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import SalesCoachHeader from "@/components/sales-coach-header";
@@ -14,14 +14,16 @@ interface AssessmentHeaderProps {
   totalScore: number;
   totalBehaviors: number;
   steps: StepWithSubsteps[];
-  checkedBehaviors: Set<number>;
+  observations: BehaviorObservations;
   stepScores?: { [stepId: number]: number };
+  scoringPolicy?: ScoringPolicy;
   onNewAssessment?: () => void;
   coacheeName?: string;
 }
 
-export default function AssessmentHeader({ totalScore, totalBehaviors, steps, checkedBehaviors, stepScores = {}, onNewAssessment, coacheeName }: AssessmentHeaderProps) {
-  const { level, className, score } = calculateOverallProficiency(steps, checkedBehaviors, stepScores);
+export default function AssessmentHeader({ totalScore, totalBehaviors, steps, observations, stepScores = {}, scoringPolicy, onNewAssessment, coacheeName }: AssessmentHeaderProps) {
+  const stepLevels = StepLevelCalculator.getSessionStepLevels(steps, observations, stepScores, scoringPolicy);
+  const { level, text } = StepLevelCalculator.getOverallProficiencyLevel(stepLevels, scoringPolicy);
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
@@ -36,8 +38,8 @@ export default function AssessmentHeader({ totalScore, totalBehaviors, steps, ch
           <div className="text-right">
             <div className="text-sm text-gray-500">Proficiency Level</div>
             <div className="text-lg font-semibold">
-              <span className={`px-3 py-1 rounded-full text-sm ${className}`}>
-                {level}
+              <span className={`px-3 py-1 rounded-full text-sm ${StepLevelCalculator.getLevelBadgeClass(level)}`}>
+                {text}
               </span>
             </div>
           </div>
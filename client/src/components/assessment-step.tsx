@@ -1,7 +1,9 @@
-import { useState } from "react";
-import { ChevronDown } from "lucide-react";
-import { calculateSubstepScore, calculateSubstepProficiency } from "@/lib/utils";
-import type { Step, Substep, Behavior } from "@shared/schema";
+import { useState, useEffect } from "react";
+import { ChevronDown, MessageSquare } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { calculateSubstepScore } from "@/lib/utils";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, ScoringPolicy, BehaviorObservation, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -9,102 +11,120 @@ type StepWithSubsteps = Step & {
   })[];
 };
 
+// Not applicable leaves a behavior out of the step's percentage, e.g. when the call never got that far
+const OBSERVATION_OPTIONS: { value: BehaviorObservation; label: string; title: string; activeClassName: string }[] = [
+  { value: "observed", label: "Yes", title: "Observed", activeClassName: "bg-green-100 text-green-800" },
+  { value: "not_observed", label: "No", title: "Not observed", activeClassName: "bg-red-100 text-red-800" },
+  { value: "not_applicable", label: "N/A", title: "Not applicable", activeClassName: "bg-gray-200 text-gray-700" },
+];
+
 interface AssessmentStepProps {
   step: StepWithSubsteps;
-  checkedBehaviors: Set<number>;
-  onBehaviorCheck: (behaviorId: number, checked: boolean) => void;
+  observations: BehaviorObservations;
+  onObservationChange: (behaviorId: number, observation: BehaviorObservation) => void;
+  onObservationClear?: (behaviorId: number) => void; // Called when the active option is clicked again
   stepScores?: { [stepId: number]: number };
   onStepScoreChange?: (stepId: number, level: number) => void;
+  behaviorNotes?: { [behaviorId: number]: string };
+  onBehaviorNoteChange?: (behaviorId: number, note: string) => void;
+  stepNotes?: { [stepId: number]: string };
+  onStepNoteChange?: (stepId: number, note: string) => void;
   disabled?: boolean;
+  scoringPolicy?: ScoringPolicy;
+}
+
+interface NoteFieldProps {
+  note: string;
+  onSave?: (note: string) => void;
+  placeholder: string;
+  disabled: boolean;
+}
+
+// Inline evidence note (a quote, a call timestamp); saved when the field loses focus
+function NoteField({ note, onSave, placeholder, disabled }: NoteFieldProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(note);
+  }, [note]);
+
+  if (isEditing) {
+    return (
+      <Textarea
+        autoFocus
+        value={draft}
+        maxLength={2000}
+        placeholder={placeholder}
+        className="text-xs min-h-[60px]"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          setIsEditing(false);
+          if (draft.trim() !== note) onSave?.(draft.trim());
+        }}
+      />
+    );
+  }
+
+  if (!draft && (disabled || !onSave)) return null;
+
+  return (
+    <button
+      type="button"
+      className="text-left text-xs disabled:cursor-default"
+      onClick={() => setIsEditing(true)}
+      disabled={disabled || !onSave}
+    >
+      {draft ? (
+        <span className="italic text-gray-600 whitespace-pre-wrap break-words">{draft}</span>
+      ) : (
+        <span className="flex items-center gap-1 text-gray-400 hover:text-gray-600">
+          <MessageSquare size={12} /> Add note
+        </span>
+      )}
+    </button>
+  );
 }
 
 export default function AssessmentStep({ 
   step, 
-  checkedBehaviors, 
-  onBehaviorCheck, 
+  observations, 
+  onObservationChange, 
+  onObservationClear,
   stepScores = {}, 
   onStepScoreChange,
-  disabled = false
+  behaviorNotes = {},
+  onBehaviorNoteChange,
+  stepNotes = {},
+  onStepNoteChange,
+  disabled = false,
+  scoringPolicy
 }: AssessmentStepProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const stepScore = step.substeps.reduce((total, substep) => {
-    return total + calculateSubstepScore(substep, checkedBehaviors);
+    return total + calculateSubstepScore(substep, observations);
   }, 0);
 
   const stepBehaviorCount = step.substeps.reduce((total, substep) => {
-    return total + substep.behaviors.filter(behavior => checkedBehaviors.has(behavior.id)).length;
+    return total + substep.behaviors.filter(behavior => observations[behavior.id] === "observed").length;
   }, 0);
 
   const currentStepScore = stepScores[step.id] || 0;
 
-  // Get manual step score or calculate automatic level
-  const getStepLevel = () => {
-    const manualLevel = currentStepScore;
-    if (manualLevel > 0) {
-      const levels = ["", "Learner", "Qualified", "Experienced", "Master"];
-      return levels[manualLevel];
-    }
-
-    // Calculate automatic level with custom thresholds for specific steps
-    const stepTitle = step.title.toLowerCase();
-
-    // Custom thresholds for specific steps
-    const customThresholds: { [key: string]: { qualified: number; experienced: number; master: number } } = {
-      "analyzing results": { qualified: 2, experienced: 3, master: 4 },
-      "maintaining rapport": { qualified: 3, experienced: 4, master: 5 },
-      "asking for commitment": { qualified: 2, experienced: 3, master: 2 }, // Master threshold lowered
-      "summarizing": { qualified: 2, experienced: 3, master: 2 }, // Master threshold lowered
-      "objection handling": { qualified: 2, experienced: 3, master: 4 },
-      "active listening": { qualified: 2, experienced: 2, master: 3 } // Experienced threshold lowered
-    };
-
-    if (stepScore === 0) return "Not Assessed";
-
-    // Check if this step has custom thresholds
-    const customKey = Object.keys(customThresholds).find(key => stepTitle.includes(key));
+  const stepLevel = StepLevelCalculator.getSessionStepLevels([step], observations, stepScores, scoringPolicy)[0];
+  const stepLevelText = StepLevelCalculator.getStepLevelText(stepLevel);
+  const stepLevelClass = StepLevelCalculator.getLevelBadgeClass(StepLevelCalculator.isAssessed(stepLevel) ? stepLevel.level : 0);
 
-    if (customKey) {
-      const thresholds = customThresholds[customKey];
-      if (stepScore >= thresholds.master) return "Master";
-      if (stepScore >= thresholds.experienced) return "Experienced";
-      if (stepScore >= thresholds.qualified) return "Qualified";
-      return "Learner";
+  // Substeps use their own threshold rule when the framework has one, otherwise the framework cutoffs
+  const getSubstepLevel = (substep: StepWithSubsteps["substeps"][number]) => {
+    const level = StepLevelCalculator.getSubstepLevel(substep, observations, scoringPolicy);
+    if (level === null) {
+      return { text: "Not Assessed", className: StepLevelCalculator.getLevelBadgeClass(0) };
     }
-
-    // Default calculation for other steps
-    let stepLevel1Count = 0, stepLevel2Count = 0, stepLevel3Count = 0, stepLevel4Count = 0;
-    step.substeps.forEach(substep => {
-      substep.behaviors.forEach(behavior => {
-        if (behavior.proficiencyLevel === 1) stepLevel1Count++;
-        else if (behavior.proficiencyLevel === 2) stepLevel2Count++;
-        else if (behavior.proficiencyLevel === 3) stepLevel3Count++;
-        else if (behavior.proficiencyLevel === 4) stepLevel4Count++;
-      });
-    });
-
-    const stepLevel1Max = stepLevel1Count * 1;
-    const stepLevel2Max = stepLevel1Max + (stepLevel2Count * 2);
-    const stepLevel3Max = stepLevel2Max + (stepLevel3Count * 3);
-
-    if (stepScore > stepLevel3Max) return "Master";
-    if (stepScore > stepLevel2Max) return "Experienced";
-    if (stepScore > stepLevel1Max) return "Qualified";
-    return "Learner";
+    return { text: StepLevelCalculator.getLevelText(level), className: StepLevelCalculator.getLevelBadgeClass(level) };
   };
 
-  const stepLevel = getStepLevel();
-
-  const getStepLevelClass = () => {
-    if (stepLevel === "Not Assessed") return "bg-gray-100 text-gray-700";
-    if (stepLevel === "Master") return "bg-purple-100 text-purple-700";
-    if (stepLevel === "Experienced") return "bg-blue-100 text-blue-700";
-    if (stepLevel === "Qualified") return "bg-green-100 text-green-700";
-    return "bg-orange-100 text-orange-700";
-  };
-
-  const stepLevelClass = getStepLevelClass();
-
   const getBehaviorsByLevel = (behaviors: Behavior[], level: number) => {
     return behaviors.filter(behavior => behavior.proficiencyLevel === level);
   };
@@ -156,12 +176,13 @@ export default function AssessmentStep({
             <div className="text-center min-w-0">
               <div className="text-xs text-gray-500">Level</div>
               <span className={`px-1 sm:px-2 py-1 rounded text-xs font-medium ${stepLevelClass} break-all`}>
-                {stepLevel}
+                {stepLevelText}
               </span>
             </div>
             
             <div className="flex items-center space-x-1 sm:space-x-2 min-w-0">
-              <div className="min-w-0">
+              {/* Self-assessments have no manual step level */}
+              {onStepScoreChange && <div className="min-w-0">
                 <div className="text-xs text-gray-500 text-center">Scored Level</div>
                 <select
                   value={currentStepScore}
@@ -180,7 +201,7 @@ export default function AssessmentStep({
                   <option value={3}>3 - Experienced</option>
                   <option value={4}>4 - Master</option>
                 </select>
-              </div>
+              </div>}
               <ChevronDown 
                 className={`text-gray-400 transform transition-transform flex-shrink-0 ${isExpanded ? 'rotate-180' : ''}`}
                 size={16}
@@ -211,18 +232,45 @@ export default function AssessmentStep({
                       <span className="ml-2 text-sm text-gray-600">({level} point{level > 1 ? 's' : ''} each)</span>
                     </div>
                     <div className="space-y-2 ml-4">
-                      {levelBehaviors.map((behavior) => (
-                        <label key={behavior.id} className={`flex items-start space-x-3 ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
-                          <input
-                            type="checkbox"
-                            className={`mt-1 ${disabled ? 'cursor-not-allowed opacity-50' : ''}`}
-                            checked={checkedBehaviors.has(behavior.id)}
-                            onChange={(e) => onBehaviorCheck(behavior.id, e.target.checked)}
-                            disabled={disabled}
-                          />
-                          <span className={`text-sm ${disabled ? 'text-gray-400' : 'text-gray-700'}`}>{behavior.description}</span>
-                        </label>
-                      ))}
+                      {levelBehaviors.map((behavior) => {
+                        const observation = observations[behavior.id];
+                        return (
+                          <div key={behavior.id} className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-3">
+                            <div className="flex flex-shrink-0 rounded border border-gray-200 overflow-hidden" role="group" aria-label="Observation">
+                              {OBSERVATION_OPTIONS.map(option => (
+                                <button
+                                  key={option.value}
+                                  type="button"
+                                  title={observation === option.value && onObservationClear ? `${option.title} (click to clear)` : option.title}
+                                  aria-pressed={observation === option.value}
+                                  className={`px-2 py-1 text-xs font-medium border-r border-gray-200 last:border-r-0 ${
+                                    observation === option.value ? option.activeClassName : 'bg-white text-gray-500'
+                                  } ${disabled ? 'cursor-not-allowed opacity-50' : 'hover:bg-gray-50'}`}
+                                  onClick={() => observation === option.value && onObservationClear
+                                    ? onObservationClear(behavior.id)
+                                    : onObservationChange(behavior.id, option.value)}
+                                  disabled={disabled}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                            <div className="flex flex-col gap-1 min-w-0">
+                              <span className={`text-sm ${
+                                disabled ? 'text-gray-400' : observation === "not_applicable" ? 'text-gray-400 line-through' : 'text-gray-700'
+                              }`}>
+                                {behavior.description}
+                              </span>
+                              <NoteField
+                                note={behaviorNotes[behavior.id] || ""}
+                                onSave={onBehaviorNoteChange && (note => onBehaviorNoteChange(behavior.id, note))}
+                                placeholder="Evidence, e.g. a quote or call timestamp"
+                                disabled={disabled}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                 );
@@ -233,15 +281,27 @@ export default function AssessmentStep({
                 <span className="text-sm font-medium text-gray-700">Substep Score:</span>
                 <div className="flex items-center space-x-4">
                   <span className="text-lg font-semibold text-blue-600">
-                    {calculateSubstepScore(substep, checkedBehaviors)}
+                    {calculateSubstepScore(substep, observations)}
                   </span>
-                  <span className={`px-2 py-1 rounded text-xs font-medium ${calculateSubstepProficiency(substep, checkedBehaviors).className}`}>
-                    {calculateSubstepProficiency(substep, checkedBehaviors).level}
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${getSubstepLevel(substep).className}`}>
+                    {getSubstepLevel(substep).text}
                   </span>
                 </div>
               </div>
             </div>
           ))}
+
+          {(stepNotes[step.id] || (!disabled && onStepNoteChange)) && (
+            <div className="border border-gray-100 rounded-lg p-4">
+              <h4 className="font-medium text-gray-900 mb-2">Step Notes</h4>
+              <NoteField
+                note={stepNotes[step.id] || ""}
+                onSave={onStepNoteChange && (note => onStepNoteChange(step.id, note))}
+                placeholder="Evidence for the whole step, e.g. a quote or call timestamp"
+                disabled={disabled}
+              />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -48,7 +48,14 @@ export default function AuthModal({ onAuthSuccess, onClose }: AuthModalProps) {
         throw new Error(error.error || 'Login failed');
       }
 
-      const { user, token } = await response.json();
+      const result = await response.json();
+      if (result.twoFactorRequired) {
+        // The login page asks for the authenticator code
+        window.location.href = `/login#twoFactor=${encodeURIComponent(result.challengeToken)}`;
+        return;
+      }
+
+      const { user, token } = result;
       localStorage.setItem('auth_token', token);
       onAuthSuccess(user, token);
       toast({ title: "Login successful", description: `Welcome back, ${user.fullName}!` });
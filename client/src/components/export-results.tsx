@@ -1,10 +1,15 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Share2, Download, Save, CheckCircle, User as UserIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/queryClient";
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { Step, Substep, Behavior, User } from "@shared/schema";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, User, ScoringPolicy, BehaviorObservations } from "@shared/schema";
 import logoPath from "@assets/Sales Coach icon 11339b.png";
 
 type StepWithSubsteps = Step & {
@@ -15,11 +20,12 @@ type StepWithSubsteps = Step & {
 
 interface ExportResultsProps {
   steps: StepWithSubsteps[];
-  checkedBehaviors: Set<number>;
+  observations: BehaviorObservations;
   totalScore: number;
   user: User; // This is the coachee (person being coached)
   assessmentTitle: string;
   stepScores?: { [stepId: number]: number };
+  scoringPolicy?: ScoringPolicy;
   onSaveAssessment?: (coachingData: { keyObservations: string; whatWorkedWell: string; whatCanBeImproved: string; nextSteps: string }) => void;
   assessor?: User; // The coach conducting the assessment
   context?: string; // Assessment context
@@ -30,11 +36,12 @@ interface ExportResultsProps {
 
 export default function ExportResults({ 
   steps, 
-  checkedBehaviors, 
+  observations, 
   totalScore, 
   user, 
   assessmentTitle,
   stepScores = {},
+  scoringPolicy,
   onSaveAssessment,
   assessor,
   context = '',
@@ -44,6 +51,8 @@ export default function ExportResults({
 }: ExportResultsProps) {
   const { toast } = useToast();
   const [isSharing, setIsSharing] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const [managerEmail, setManagerEmail] = useState('');
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
   const [keyObservations, setKeyObservations] = useState('');
   const [whatWorkedWell, setWhatWorkedWell] = useState('');
@@ -61,7 +70,7 @@ export default function ExportResults({
       
       try {
         // First load current assessment data
-        const response = await fetch(`/api/assessments/${assessmentId}`);
+        const response = await authFetch(`/api/assessments/${assessmentId}`);
         if (response.ok) {
           const currentAssessment = await response.json();
           
@@ -74,8 +83,9 @@ export default function ExportResults({
             if (currentAssessment.nextSteps) setNextSteps(currentAssessment.nextSteps);
           } else {
             // If no text in current assessment, try to load from previous session
+            if (!currentAssessment.assesseeUserId) return;
             try {
-              const prevResponse = await fetch(`/api/coachees/${encodeURIComponent(user.fullName)}/previous-assessment/${assessmentId}`);
+              const prevResponse = await authFetch(`/api/coachees/${currentAssessment.assesseeUserId}/previous-assessment/${assessmentId}`);
               if (prevResponse.ok) {
                 const previousAssessment = await prevResponse.json();
                 console.log("Loading previous assessment text for prepopulation:", previousAssessment);
@@ -99,10 +109,13 @@ export default function ExportResults({
   }, [assessmentId, user.fullName]);
 
   const generateResultsText = () => {
+    const stepLevels = StepLevelCalculator.getSessionStepLevels(steps, observations, stepScores, scoringPolicy);
+    const overallProficiency = StepLevelCalculator.getOverallProficiencyLevel(stepLevels, scoringPolicy);
+
     const stepResults = steps.map(step => {
       const stepScore = step.substeps.reduce((total, substep) => {
         return total + substep.behaviors.reduce((substepTotal, behavior) => {
-          if (checkedBehaviors.has(behavior.id)) {
+          if (observations[behavior.id] === "observed") {
             return substepTotal + behavior.proficiencyLevel;
           }
           return substepTotal;
@@ -125,75 +138,43 @@ Step Breakdown:
 ${stepResults}
 
 Detailed Assessment Summary:
-${steps.map(step => {
-  const manualLevel = stepScores[step.id];
-  
-  const checkedCount = step.substeps.reduce((total, substep) => {
-    return total + substep.behaviors.reduce((substepTotal, behavior) => {
-      if (checkedBehaviors.has(behavior.id)) {
-        return substepTotal + 1;
-      }
-      return substepTotal;
-    }, 0);
-  }, 0);
-
-  const totalCount = step.substeps.reduce((total, substep) => {
-    return total + substep.behaviors.length;
-  }, 0);
-
-  const percentage = totalCount > 0 ? Math.round((checkedCount / totalCount) * 100) : 0;
-  
-  // Calculate unified level: manual > calculated
-  const stepScoreValues = Object.values(stepScores);
-  const overallLevel = stepScoreValues.length > 0 ? stepScoreValues.reduce((sum: number, level: number) => sum + level, 0) / stepScoreValues.length : 0;
-  
-  return `${step.title}: ${percentage}% complete${manualLevel ? `, Manual Score: ${manualLevel}` : ''}`;
+${stepLevels.map((stepLevel, index) => {
+  const levelText = StepLevelCalculator.getStepLevelText(stepLevel);
+  return `${steps[index].title}: ${stepLevel.percentage}% complete, Level: ${levelText}${stepLevel.source === 'manual' ? ' (manual)' : ''}`;
 }).join('\n')}
 
-Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ? 
-  (Object.values(stepScores).reduce((sum, level) => sum + level, 0) / Object.keys(stepScores).length).toFixed(1) : 
-  'Not scored'}`;
+Overall Performance Level: ${overallProficiency.text}`;
   };
 
   const shareAssessment = async () => {
+    if (!assessmentId) return;
     setIsSharing(true);
-    
-    const assessmentData = {
-      user: user.fullName,
-      email: user.email,
-      team: user.team || '',
-      totalScore,
-      date: new Date().toISOString(),
-      keyObservations: keyObservations || 'No observations recorded',
-      whatWorkedWell: whatWorkedWell || 'No notes recorded',
-      whatCanBeImproved: whatCanBeImproved || 'No notes recorded',
-      nextSteps: nextSteps || 'No next steps recorded'
-    };
 
     try {
-      const response = await fetch('/api/share-assessment', {
+      const response = await authFetch('/api/share-assessment', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          assessmentData,
-          subject: `Sales Assessment Report for ${user.fullName}`,
-          title: assessmentTitle,
+          assessmentId,
+          managerEmail: managerEmail.trim() || undefined,
         }),
       });
 
+      const result = await response.json().catch(() => ({}));
       if (response.ok) {
         toast({
           title: "✓ Assessment Shared Successfully",
-          description: "Your assessment has been successfully shared.",
+          description: result.message || "Your assessment has been successfully shared.",
           className: "emotion-success-light-bg border-green-200",
         });
+        setShowShareDialog(false);
+        setManagerEmail('');
       } else {
-        const errorData = await response.text();
         toast({
           title: "Error Sharing Assessment", 
-          description: errorData || "Failed to share the assessment.",
+          description: result.error || result.message || "Failed to share the assessment.",
           variant: "destructive",
         });
       }
@@ -208,8 +189,6 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
     }
   };
 
-
-
   const downloadResults = () => {
     const resultsText = generateResultsText();
     const blob = new Blob([resultsText], { type: 'text/plain' });
@@ -246,7 +225,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
     if (!hasContent) return;
 
     try {
-      const response = await fetch(`/api/assessments/${assessmentId}`, {
+      const response = await authFetch(`/api/assessments/${assessmentId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -400,7 +379,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
                 
                 if (assessmentId && onSaveAssessment) {
                   // Update existing assessment
-                  const response = await fetch(`/api/assessments/${assessmentId}`, {
+                  const response = await authFetch(`/api/assessments/${assessmentId}`, {
                     method: 'PATCH',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ 
@@ -421,7 +400,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
                   }
                 } else {
                   // Save new assessment
-                  const response = await fetch('/api/assessments', {
+                  const response = await authFetch('/api/assessments', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
@@ -485,7 +464,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
                 
                 if (assessmentId && onSaveAssessment) {
                   // Update existing assessment and submit
-                  const response = await fetch(`/api/assessments/${assessmentId}`, {
+                  const response = await authFetch(`/api/assessments/${assessmentId}`, {
                     method: 'PATCH',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({ 
@@ -507,7 +486,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
                   }
                 } else {
                   // Save new assessment and submit
-                  const response = await fetch('/api/assessments', {
+                  const response = await authFetch('/api/assessments', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
@@ -567,16 +546,7 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
             }
             
             try {
-              // Include coach information in the request
-              const authToken = localStorage.getItem('auth_token');
-              const headers: HeadersInit = {};
-              if (authToken) {
-                headers['Authorization'] = `Bearer ${authToken}`;
-              }
-              
-              const response = await fetch(`/api/assessments/${assessmentId}/pdf`, {
-                headers
-              });
+              const response = await authFetch(`/api/assessments/${assessmentId}/pdf`);
               if (response.ok) {
                 const blob = await response.blob();
                 const url = URL.createObjectURL(blob);
@@ -616,8 +586,50 @@ Overall Performance Level: ${stepScores && Object.keys(stepScores).length > 0 ?
           <Download className="mr-2 h-4 w-4" />
           Download PDF Report
         </Button>
+
+        {/* Share Report Button - emails the submitted report to the coachee */}
+        {assessor && assessmentStatus === 'submitted' && (
+          <Button
+            onClick={() => setShowShareDialog(true)}
+            variant="outline"
+            className="w-full sm:w-48 px-4 sm:px-6 py-2"
+          >
+            <Share2 className="mr-2 h-4 w-4" />
+            Share Report
+          </Button>
+        )}
       </div>
 
+      <Dialog open={showShareDialog} onOpenChange={setShowShareDialog}>
+        <DialogContent className="w-[95vw] max-w-md mx-auto">
+          <DialogHeader>
+            <DialogTitle>Share Coaching Report</DialogTitle>
+            <DialogDescription>
+              The PDF report will be emailed to {user.fullName}{user.email ? ` (${user.email})` : ''}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="manager-email">Manager email (optional)</Label>
+            <Input
+              id="manager-email"
+              type="email"
+              placeholder="manager@example.com"
+              value={managerEmail}
+              onChange={(e) => setManagerEmail(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowShareDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={shareAssessment} disabled={isSharing}>
+              <Share2 className="mr-2 h-4 w-4" />
+              {isSharing ? 'Sending...' : 'Send Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Status indicator */}
       {assessor && (
         <div className={`text-sm p-3 rounded-lg ${
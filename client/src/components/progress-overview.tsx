@@ -1,4 +1,5 @@
-import type { Step, Substep, Behavior } from "@shared/schema";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -8,25 +9,19 @@ type StepWithSubsteps = Step & {
 
 interface ProgressOverviewProps {
   steps: StepWithSubsteps[];
-  checkedBehaviors: Set<number>;
+  observations: BehaviorObservations;
 }
 
-export default function ProgressOverview({ steps, checkedBehaviors }: ProgressOverviewProps) {
-  const calculateStepProgress = (step: StepWithSubsteps) => {
-    const totalBehaviors = step.substeps.reduce((total, substep) => total + substep.behaviors.length, 0);
-    const checkedCount = step.substeps.reduce((total, substep) => {
-      return total + substep.behaviors.filter(behavior => checkedBehaviors.has(behavior.id)).length;
-    }, 0);
-    
-    return totalBehaviors > 0 ? Math.round((checkedCount / totalBehaviors) * 100) : 0;
-  };
+export default function ProgressOverview({ steps, observations }: ProgressOverviewProps) {
+  // Progress is behavior coverage only, so manual step levels are deliberately not passed in
+  const stepLevels = StepLevelCalculator.getSessionStepLevels(steps, observations, {});
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
       <h2 className="text-lg font-semibold text-gray-900 mb-4">Assessment Progress</h2>
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {steps.map((step, index) => {
-          const progress = calculateStepProgress(step);
+          const progress = stepLevels[index].percentage;
           // Emotion responsive progress colors
           const getProgressColors = (progress: number) => {
             if (progress >= 80) return { border: "border-green-500", text: "emotion-success", bg: "emotion-success-light-bg" };
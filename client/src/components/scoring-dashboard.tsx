@@ -1,5 +1,5 @@
-import { calculateOverallProficiency } from "@/lib/utils";
-import type { Step, Substep, Behavior } from "@shared/schema";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, ScoringPolicy, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -11,12 +11,15 @@ interface ScoringDashboardProps {
   totalScore: number;
   totalBehaviors: number;
   steps: StepWithSubsteps[];
-  checkedBehaviors: Set<number>;
+  observations: BehaviorObservations;
+  stepScores?: { [stepId: number]: number };
+  scoringPolicy?: ScoringPolicy;
 }
 
-export default function ScoringDashboard({ totalScore, totalBehaviors, steps, checkedBehaviors }: ScoringDashboardProps) {
+export default function ScoringDashboard({ totalScore, totalBehaviors, steps, observations, stepScores = {}, scoringPolicy }: ScoringDashboardProps) {
   const averageLevel = totalBehaviors > 0 ? (totalScore / totalBehaviors).toFixed(1) : "0";
-  const { level: overallProficiency, className } = calculateOverallProficiency(totalScore, steps);
+  const stepLevels = StepLevelCalculator.getSessionStepLevels(steps, observations, stepScores, scoringPolicy);
+  const overallProficiency = StepLevelCalculator.getOverallProficiencyLevel(stepLevels, scoringPolicy);
 
   return (
     <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -36,8 +39,8 @@ export default function ScoringDashboard({ totalScore, totalBehaviors, steps, ch
         </div>
         <div className="text-center">
           <div className="text-lg font-semibold">
-            <span className={`px-3 py-1 rounded-full text-sm ${className}`}>
-              {overallProficiency}
+            <span className={`px-3 py-1 rounded-full text-sm ${StepLevelCalculator.getLevelBadgeClass(overallProficiency.level)}`}>
+              {overallProficiency.text}
             </span>
           </div>
           <div className="text-sm text-gray-500">Overall Proficiency</div>
@@ -0,0 +1,106 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { StepLevelCalculator, type UnifiedStepLevel } from "@shared/stepLevelCalculator";
+import type { AssessmentScore, StepScore, SelfAssessmentScore, StepWithSubsteps, ScoringPolicy, BehaviorObservation } from "@shared/schema";
+
+interface SelfAssessmentComparisonProps {
+  steps: StepWithSubsteps[];
+  coachScores: AssessmentScore[];
+  coachStepScores: StepScore[];
+  selfScores: SelfAssessmentScore[];
+  scoringPolicy?: ScoringPolicy;
+}
+
+const OBSERVATION_LABELS: Record<BehaviorObservation, string> = {
+  observed: "Observed",
+  not_observed: "Not observed",
+  not_applicable: "N/A",
+};
+
+export default function SelfAssessmentComparison({
+  steps,
+  coachScores,
+  coachStepScores,
+  selfScores,
+  scoringPolicy
+}: SelfAssessmentComparisonProps) {
+  const gaps = StepLevelCalculator.getSelfAssessmentGaps(steps, coachScores, coachStepScores, selfScores, scoringPolicy);
+
+  const getLevelBadge = (stepLevel: UnifiedStepLevel) => (
+    <Badge
+      variant="outline"
+      className={`text-xs ${StepLevelCalculator.getLevelBadgeClass(StepLevelCalculator.isAssessed(stepLevel) ? stepLevel.level : 0)}`}
+    >
+      {StepLevelCalculator.getStepLevelText(stepLevel)}
+    </Badge>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Coach vs. Self-Assessment</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-2 text-xs font-medium text-gray-500">
+            <span>Step</span>
+            <span className="w-28 text-center">Coach</span>
+            <span className="w-28 text-center">Self</span>
+          </div>
+          {gaps.steps.map((gap, index) => (
+            <div
+              key={gap.stepId}
+              className={`grid grid-cols-[1fr_auto_auto] gap-2 items-center rounded p-2 text-sm ${
+                gap.difference !== 0 ? "bg-red-50 border border-red-200" : ""
+              }`}
+            >
+              <span className="break-words">
+                {index + 1}. {steps[index].title}
+                {gap.difference !== 0 && (
+                  <span className="ml-2 text-xs font-medium text-red-700">
+                    {gap.difference > 0 ? `Self ${gap.difference} higher` : `Self ${-gap.difference} lower`}
+                  </span>
+                )}
+              </span>
+              <span className="w-28 text-center">{getLevelBadge(gap.coach)}</span>
+              <span className="w-28 text-center">{getLevelBadge(gap.self)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2">Behaviors Rated Differently</h4>
+          {gaps.behaviors.length === 0 ? (
+            <p className="text-sm text-gray-500">The self-assessment matches the coach on every behavior.</p>
+          ) : (
+            <div className="space-y-4">
+              {steps.map(step => {
+                const stepGaps = gaps.behaviors.filter(gap => gap.stepId === step.id);
+                if (stepGaps.length === 0) return null;
+                const behaviors = step.substeps.flatMap(substep => substep.behaviors);
+
+                return (
+                  <div key={step.id}>
+                    <div className="text-sm font-medium text-gray-700 mb-1">{step.title}</div>
+                    <ul className="space-y-1 ml-2">
+                      {stepGaps.map(gap => (
+                        <li key={gap.behaviorId} className="flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-3 text-sm">
+                          <span className="flex-shrink-0 text-xs text-gray-500 sm:w-48">
+                            Coach: {OBSERVATION_LABELS[gap.coach]} · Self: {OBSERVATION_LABELS[gap.self]}
+                          </span>
+                          <span className="text-gray-700">
+                            {behaviors.find(behavior => behavior.id === gap.behaviorId)?.description}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
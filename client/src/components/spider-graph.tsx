@@ -1,5 +1,6 @@
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Legend } from 'recharts';
-import type { Step, Substep, Behavior } from "@shared/schema";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, ScoringPolicy, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -9,60 +10,17 @@ type StepWithSubsteps = Step & {
 
 interface SpiderGraphProps {
   steps: StepWithSubsteps[];
-  checkedBehaviors: Set<number>;
+  observations: BehaviorObservations;
   stepScores?: { [stepId: number]: number };
+  scoringPolicy?: ScoringPolicy;
 }
 
-export default function SpiderGraph({ steps, checkedBehaviors, stepScores = {} }: SpiderGraphProps) {
-  const calculateStepLevel = (step: StepWithSubsteps) => {
-    // Use manual step score if set, otherwise calculate from behaviors
-    const manualScore = stepScores[step.id];
-    if (manualScore && manualScore > 0) {
-      return manualScore; // Return the actual level (1-4)
-    }
+export default function SpiderGraph({ steps, observations, stepScores = {}, scoringPolicy }: SpiderGraphProps) {
+  const stepLevels = StepLevelCalculator.getSessionStepLevels(steps, observations, stepScores, scoringPolicy);
 
-    // Calculate level based on behaviors - use same logic as assessment-step component
-    const stepScore = step.substeps.reduce((total, substep) => {
-      return total + substep.behaviors.reduce((substepTotal, behavior) => {
-        if (checkedBehaviors.has(behavior.id)) {
-          return substepTotal + behavior.proficiencyLevel;
-        }
-        return substepTotal;
-      }, 0);
-    }, 0);
-
-    if (stepScore === 0) return 0;
-
-    // Calculate level thresholds based on behavior distribution
-    let stepLevel1Count = 0, stepLevel2Count = 0, stepLevel3Count = 0, stepLevel4Count = 0;
-    step.substeps.forEach(substep => {
-      substep.behaviors.forEach(behavior => {
-        if (behavior.proficiencyLevel === 1) stepLevel1Count++;
-        else if (behavior.proficiencyLevel === 2) stepLevel2Count++;
-        else if (behavior.proficiencyLevel === 3) stepLevel3Count++;
-        else if (behavior.proficiencyLevel === 4) stepLevel4Count++;
-      });
-    });
-
-    const stepLevel1Max = stepLevel1Count * 1;
-    const stepLevel2Max = stepLevel1Max + (stepLevel2Count * 2);
-    const stepLevel3Max = stepLevel2Max + (stepLevel3Count * 3);
-
-    if (stepScore > stepLevel3Max) return 4; // Master
-    if (stepScore > stepLevel2Max) return 3; // Experienced  
-    if (stepScore > stepLevel1Max) return 2; // Qualified
-    return 1; // Learner
-  };
-
-  const calculateTargetScore = (step: StepWithSubsteps) => {
-    // Target is Level 3 (experienced) on all behaviors
-    return step.substeps.reduce((total, substep) => {
-      return total + (substep.behaviors.length * 3);
-    }, 0);
-  };
-
-  const data = steps.map(step => {
-    const actualLevel = calculateStepLevel(step);
+  const data = steps.map((step, index) => {
+    // Steps nobody has touched yet sit at the centre rather than at Learner
+    const actualLevel = StepLevelCalculator.isAssessed(stepLevels[index]) ? stepLevels[index].level : 0;
 
     return {
       step: step.title,
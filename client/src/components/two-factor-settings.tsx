@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/queryClient";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+import type { AppSettings, TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+interface TwoFactorSettingsProps {
+  isAdmin: boolean;
+}
+
+const sendRequest = async (method: string, url: string, data: unknown) => {
+  const response = await authFetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || result.message || "Request failed");
+  return result;
+};
+
+export default function TwoFactorSettings({ isAdmin }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+    enabled: isAdmin,
+  });
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: (): Promise<TwoFactorSetup> => sendRequest("POST", "/api/auth/2fa/setup", {}),
+    onSuccess: (result) => {
+      setSetup(result);
+      setSetupCode("");
+    },
+    onError: showError("Setup failed"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (verificationCode: string) => sendRequest("POST", "/api/auth/2fa/enable", { code: verificationCode }),
+    onSuccess: (result) => {
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code when you sign in.",
+      });
+    },
+    onError: showError("Verification failed"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (verificationCode: string) => sendRequest("POST", "/api/auth/2fa/recovery-codes", { code: verificationCode }),
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: showError("Unable to generate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (verificationCode: string) => sendRequest("POST", "/api/auth/2fa/disable", { code: verificationCode }),
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Signing in now only needs your password.",
+      });
+    },
+    onError: showError("Unable to disable two-factor authentication"),
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (requireAdminTwoFactor: boolean) => sendRequest("PUT", "/api/settings", { requireAdminTwoFactor }),
+    onSuccess: (result: AppSettings) => {
+      queryClient.setQueryData(["/api/settings"], result);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: showError("Unable to update setting"),
+  });
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          <Badge variant={status.enabled ? "default" : "secondary"}>
+            {status.enabled ? "On" : "Off"}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && !status.enabled && (
+          <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <ShieldAlert size={16} className="mt-0.5 shrink-0" />
+            Two-factor authentication is required for administrators. Set it up to continue using SalesCoach.
+          </div>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+              They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-3 font-mono text-sm" data-testid="recovery-codes">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button onClick={() => setRecoveryCodes(null)}>I've Saved These Codes</Button>
+          </div>
+        ) : setup ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate(setupCode);
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-gray-600">
+              Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-48 w-48 border rounded-md" />
+            <div className="text-xs text-gray-500">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{setup.secret}</span>
+            </div>
+            <InputOTP maxLength={6} value={setupCode} onChange={setSetupCode}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={setupCode.length !== 6 || enableMutation.isPending}>
+                {enableMutation.isPending ? "Verifying..." : "Verify and Enable"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Sign-ins ask for a code from your authenticator app. You have {status.recoveryCodesRemaining} unused
+              recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"}.
+            </p>
+            <div>
+              <Label htmlFor="two-factor-code">Authenticator or recovery code</Label>
+              <Input
+                id="two-factor-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate(code)}
+                disabled={!code || regenerateMutation.isPending}
+              >
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate(code)}
+                  disabled={!code || disableMutation.isPending}
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              <ShieldCheck className="mr-2" size={16} />
+              {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+            </Button>
+          </div>
+        )}
+
+        {isAdmin && settings && (
+          <div className="flex items-center justify-between gap-4 border-t pt-4">
+            <Label htmlFor="require-admin-2fa" className="text-sm">
+              Require two-factor authentication for all administrators
+            </Label>
+            <Switch
+              id="require-admin-2fa"
+              checked={settings.requireAdminTwoFactor}
+              onCheckedChange={(checked) => updateSettingsMutation.mutate(checked)}
+              disabled={updateSettingsMutation.isPending}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,17 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { insertUserSchema } from "@shared/schema";
-import type { User } from "@shared/schema";
+import type { User, Framework, Step } from "@shared/schema";
 import { z } from "zod";
 import TeamInput from "@/components/team-input";
 import { useToast } from "@/hooks/use-toast";
@@ -18,7 +19,9 @@ import { useToast } from "@/hooks/use-toast";
 interface UserSelectionModalProps {
   open: boolean;
   onClose: () => void;
-  onUserSelected: (userId: number) => void;
+  // Sessions link the coachee by user id, never by name
+  // No focus steps means a full session covering every step
+  onUserSelected: (coacheeId: number, frameworkId?: number, focusStepIds?: number[]) => void;
 }
 
 const createUserSchema = insertUserSchema.extend({
@@ -30,6 +33,8 @@ type CreateUserForm = z.infer<typeof createUserSchema>;
 export default function UserSelectionModal({ open, onClose, onUserSelected }: UserSelectionModalProps) {
   const [mode, setMode] = useState<"select" | "create">("select");
   const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [selectedFrameworkId, setSelectedFrameworkId] = useState<string>("");
+  const [focusStepIds, setFocusStepIds] = useState<number[]>([]);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -43,6 +48,36 @@ export default function UserSelectionModal({ open, onClose, onUserSelected }: Us
     enabled: open,
   });
 
+  const { data: frameworks = [] } = useQuery<Framework[]>({
+    queryKey: ["/api/frameworks"],
+    enabled: open,
+  });
+
+  // Preselect the default (first) framework once the list is loaded
+  useEffect(() => {
+    if (!selectedFrameworkId && frameworks.length > 0) {
+      setSelectedFrameworkId(frameworks[0].id.toString());
+    }
+  }, [frameworks, selectedFrameworkId]);
+
+  const frameworkId = selectedFrameworkId ? parseInt(selectedFrameworkId) : undefined;
+
+  const { data: steps = [] } = useQuery<Step[]>({
+    queryKey: [`/api/steps?frameworkId=${frameworkId}`],
+    enabled: open && !!frameworkId,
+  });
+
+  // Focus steps belong to one framework
+  useEffect(() => {
+    setFocusStepIds([]);
+  }, [frameworkId]);
+
+  const toggleFocusStep = (stepId: number, checked: boolean) => {
+    setFocusStepIds(current => checked ? [...current, stepId] : current.filter(id => id !== stepId));
+  };
+
+  const selectedFocusStepIds = focusStepIds.length > 0 ? focusStepIds : undefined;
+
   const form = useForm<CreateUserForm>({
     resolver: zodResolver(createUserSchema),
     defaultValues: {
@@ -69,7 +104,7 @@ export default function UserSelectionModal({ open, onClose, onUserSelected }: Us
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       // Wait a moment for the query to update before selecting the user
       setTimeout(() => {
-        onUserSelected(newUser.id);
+        onUserSelected(newUser.id, frameworkId, selectedFocusStepIds);
         onClose();
       }, 100);
     },
@@ -84,7 +119,7 @@ export default function UserSelectionModal({ open, onClose, onUserSelected }: Us
 
   const handleExistingUserSubmit = () => {
     if (selectedUserId) {
-      onUserSelected(parseInt(selectedUserId));
+      onUserSelected(parseInt(selectedUserId), frameworkId, selectedFocusStepIds);
       onClose();
     }
   };
@@ -101,7 +136,46 @@ export default function UserSelectionModal({ open, onClose, onUserSelected }: Us
         </DialogHeader>
         
         <div className="space-y-4">
-          <div className="flex flex-col sm:flex-row gap-2 sm:space-x-2">
+          {frameworks.length > 1 && (
+            <div>
+              <Label>Coaching Framework</Label>
+              <Select value={selectedFrameworkId} onValueChange={setSelectedFrameworkId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a framework..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {frameworks.map((framework) => (
+                    <SelectItem key={framework.id} value={framework.id.toString()}>
+                      {framework.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {steps.length > 1 && (
+            <div>
+              <Label>Focus Steps (optional)</Label>
+              <p className="text-xs text-gray-500 mb-2">
+                Assess only the selected steps. Leave all unchecked for a full session.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {steps.map((step, index) => (
+                  <label key={step.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={focusStepIds.includes(step.id)}
+                      onCheckedChange={(checked) => toggleFocusStep(step.id, checked === true)}
+                    />
+                    {index + 1}. {step.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Only admins add accounts directly; coaches invite coachees instead */}
+          {currentUser?.role === "admin" && <div className="flex flex-col sm:flex-row gap-2 sm:space-x-2">
             <Button
               variant={mode === "select" ? "default" : "outline"}
               onClick={() => setMode("select")}
@@ -116,9 +190,9 @@ export default function UserSelectionModal({ open, onClose, onUserSelected }: Us
             >
               Add New Coachee
             </Button>
-          </div>
+          </div>}
 
-          {mode === "select" ? (
+          {mode === "select" || currentUser?.role !== "admin" ? (
             <div className="space-y-4">
               <div>
                 <Select value={selectedUserId} onValueChange={setSelectedUserId}>
@@ -1,5 +1,76 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem("auth_token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Exchanges the httpOnly refresh cookie for a new access token. Concurrent callers share
+ * one request so the refresh token is only rotated once.
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!pendingRefresh) {
+    pendingRefresh = fetch("/api/auth/refresh", { method: "POST", credentials: "include" })
+      .then(async (res) => {
+        if (!res.ok) return false;
+        const { user, token } = await res.json();
+        localStorage.setItem("auth_token", token);
+        localStorage.setItem("current_user", JSON.stringify(user));
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+/**
+ * Sends the request with the stored access token. When the server rejects it the token is
+ * refreshed once and the request retried; if that fails too the session is over.
+ */
+async function fetchWithAuth(url: string, init: RequestInit): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    Object.entries(getAuthHeaders()).forEach(([name, value]) => {
+      if (!headers.has(name)) headers.set(name, value);
+    });
+    return fetch(url, { ...init, headers });
+  };
+
+  let res = await send();
+  if (res.status === 401 && localStorage.getItem("auth_token")) {
+    if (await refreshAccessToken()) {
+      res = await send();
+    }
+    if (res.status === 401) {
+      localStorage.removeItem("auth_token");
+      localStorage.removeItem("current_user");
+      window.location.href = "/login";
+    }
+  }
+
+  // Admins who must use two-factor authentication are sent to their profile to set it up
+  if (res.status === 403 && window.location.pathname !== "/profile") {
+    const body = await res.clone().json().catch(() => null);
+    if (body?.code === "TWO_FACTOR_REQUIRED") {
+      window.location.href = "/profile";
+    }
+  }
+  return res;
+}
+
+/**
+ * fetch() with the stored bearer token attached, for calls that need the raw response
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  return fetchWithAuth(url, init);
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -14,14 +85,14 @@ export async function apiRequest(
 ): Promise<Response> {
   const headers: Record<string, string> = {
     "Connection": "keep-alive",
-    "Cache-Control": "no-cache"
+    "Cache-Control": "no-cache",
   };
   
   if (data) {
     headers["Content-Type"] = "application/json";
   }
 
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
@@ -39,7 +110,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetchWithAuth(queryKey[0] as string, {
       credentials: "include",
     });
 
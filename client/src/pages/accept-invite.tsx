@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import SalesCoachHeader from "@/components/sales-coach-header";
+import { XCircle } from "lucide-react";
+import type { InvitationDetails } from "@shared/schema";
+
+export default function AcceptInvite() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError("This invitation link is invalid.");
+      return;
+    }
+
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/auth/invitation?token=${encodeURIComponent(token)}`);
+        const result = await response.json();
+        if (!response.ok) {
+          setLoadError(result.error || "This invitation link is invalid.");
+          return;
+        }
+        setInvitation(result);
+      } catch {
+        setLoadError("Unable to connect. Please try again.");
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please ensure both password fields match.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/accept-invitation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: "Unable to accept invitation",
+          description: result.error || "Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The new account is signed in straight away
+      localStorage.setItem("auth_token", result.token);
+      localStorage.setItem("current_user", JSON.stringify(result.user));
+      toast({
+        title: "Welcome to SalesCoach",
+        description: "Your account is ready.",
+      });
+      setLocation("/");
+    } catch {
+      toast({
+        title: "Unable to accept invitation",
+        description: "Unable to connect. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const errorMessage = loadError || (invitation?.expired ? "This invitation has expired. Ask the person who invited you for a new one." : "");
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <SalesCoachHeader className="mb-4" showLogo={true} size="lg" />
+          <CardTitle>Accept Invitation</CardTitle>
+          <CardDescription>
+            {errorMessage
+              ? errorMessage
+              : invitation
+                ? `${invitation.inviterName ?? "Your coach"} invited you to SalesCoach. Choose a password to set up your account.`
+                : "Loading invitation..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {errorMessage ? (
+            <div className="space-y-4">
+              <XCircle className="mx-auto text-red-600" size={40} />
+              <Button className="w-full" onClick={() => setLocation("/login")}>
+                Back to Login
+              </Button>
+            </div>
+          ) : invitation && (
+            <form onSubmit={handleAccept} className="space-y-4">
+              <div>
+                <Label>Name</Label>
+                <Input value={invitation.fullName} disabled />
+              </div>
+              <div>
+                <Label>Email</Label>
+                <Input value={invitation.email} disabled />
+              </div>
+              <div>
+                <Label htmlFor="invite-password">Password</Label>
+                <Input
+                  id="invite-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={3}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+                <Input
+                  id="invite-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Setting Up Account..." : "Set Up Account"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
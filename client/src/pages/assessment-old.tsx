@@ -11,7 +11,7 @@ import AuthModal from "@/components/auth-modal";
 import SalesCoachHeader from "@/components/sales-coach-header";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
-import type { Step, Substep, Behavior, User, Assessment as AssessmentType, AssessmentScore } from "@shared/schema";
+import type { Step, Substep, Behavior, User, Assessment as AssessmentType, AssessmentScore, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -237,6 +237,9 @@ export default function Assessment() {
   }, 0);
 
   const totalBehaviors = checkedBehaviors.size;
+  const observations: BehaviorObservations = Object.fromEntries(
+    Array.from(checkedBehaviors).map(behaviorId => [behaviorId, "observed"])
+  );
 
   if (isLoading) {
     return (
@@ -389,8 +392,8 @@ export default function Assessment() {
             <AssessmentStep
               key={step.id}
               step={step}
-              checkedBehaviors={checkedBehaviors}
-              onBehaviorCheck={handleBehaviorCheck}
+              observations={observations}
+              onObservationChange={(behaviorId, observation) => handleBehaviorCheck(behaviorId, observation === "observed")}
               stepScores={stepScores}
               onStepScoreChange={handleStepScoreChange}
             />
@@ -398,13 +401,13 @@ export default function Assessment() {
         </div>
         
         {/* Spider Graph */}
-        <SpiderGraph steps={steps} checkedBehaviors={checkedBehaviors} stepScores={stepScores} />
+        <SpiderGraph steps={steps} observations={observations} stepScores={stepScores} />
         
         {/* Export Results */}
         {currentUser && currentAssessment && (
           <ExportResults
             steps={steps}
-            checkedBehaviors={checkedBehaviors}
+            observations={observations}
             totalScore={totalScore}
             user={currentUser}
             assessmentTitle={currentAssessment.title}
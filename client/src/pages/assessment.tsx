@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, authFetch } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
 import { useLocation, useSearch } from "wouter";
 import AssessmentStep from "@/components/assessment-step";
@@ -11,8 +11,10 @@ import SalesCoachHeader from "@/components/sales-coach-header";
 import AppFooter from "@/components/app-footer";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
 import { Plus } from "lucide-react";
-import type { Step, Substep, Behavior, User, Assessment as AssessmentType, AssessmentScore, StepScore } from "@shared/schema";
+import { StepLevelCalculator, DEFAULT_SCORING_POLICY } from "@shared/stepLevelCalculator";
+import type { Step, Substep, Behavior, User, Assessment as AssessmentType, AssessmentScore, StepScore, FrameworkVersion, Framework, BehaviorObservation, BehaviorObservations } from "@shared/schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -27,7 +29,7 @@ export default function Assessment() {
   const [assessor, setAssessor] = useState<User | null>(null);
   const [showUserModal, setShowUserModal] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [checkedBehaviors, setCheckedBehaviors] = useState<Set<number>>(new Set());
+  const [observations, setObservations] = useState<BehaviorObservations>({});
   const [stepScores, setStepScores] = useState<{ [stepId: number]: number }>({});
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [assesseeName, setAssesseeName] = useState<string>('');
@@ -55,9 +57,32 @@ export default function Assessment() {
   }, [currentAssessment]);
 
   // Always call hooks in same order
-  const { data: steps = [], isLoading: stepsLoading } = useQuery<StepWithSubsteps[]>({
-    queryKey: ["/api/steps"],
+  // Render the framework version the assessment pinned, not the live framework
+  const stepsUrl = currentAssessment?.frameworkVersionId
+    ? `/api/steps?version=${currentAssessment.frameworkVersionId}`
+    : currentAssessment?.frameworkId
+      ? `/api/steps?frameworkId=${currentAssessment.frameworkId}`
+      : "/api/steps";
+  const { data: frameworkSteps = [], isLoading: stepsLoading } = useQuery<StepWithSubsteps[]>({
+    queryKey: [stepsUrl],
   });
+  // A focused session shows and scores only the steps chosen when it was created
+  const steps = StepLevelCalculator.getFocusSteps(frameworkSteps, currentAssessment?.focusStepIds);
+
+  // The scoring policy comes from the same pinned version so levels match history and the PDF
+  const { data: frameworkVersion } = useQuery<FrameworkVersion>({
+    queryKey: [`/api/framework-versions/${currentAssessment?.frameworkVersionId}`],
+    enabled: !!currentAssessment?.frameworkVersionId,
+  });
+
+  const { data: frameworks = [] } = useQuery<Framework[]>({
+    queryKey: ["/api/frameworks"],
+    enabled: !!currentAssessment && !currentAssessment.frameworkVersionId,
+  });
+
+  const scoringPolicy = frameworkVersion?.snapshot.scoringPolicy
+    ?? frameworks.find(framework => framework.id === currentAssessment?.frameworkId)?.scoringPolicy
+    ?? DEFAULT_SCORING_POLICY;
 
   const { data: scores = [] } = useQuery<AssessmentScore[]>({
     queryKey: ["/api/assessments", currentAssessment?.id, "scores"],
@@ -69,15 +94,15 @@ export default function Assessment() {
     enabled: !!currentAssessment,
   });
 
-  const duplicateBaselineFromPreviousSession = async (coacheeName: string, newAssessmentId: number) => {
+  const duplicateBaselineFromPreviousSession = async (coacheeId: number, newAssessmentId: number, frameworkVersionId: number | null, focusStepIds: number[] | null) => {
     try {
-      console.log("Attempting to duplicate baseline for:", coacheeName);
+      console.log("Attempting to duplicate baseline for coachee:", coacheeId);
       
       // Get previous assessment for this coachee (excluding current one)
-      const response = await fetch(`/api/coachees/${encodeURIComponent(coacheeName)}/previous-assessment/${newAssessmentId}`);
+      const response = await authFetch(`/api/coachees/${coacheeId}/previous-assessment/${newAssessmentId}`);
       
       if (!response.ok) {
-        console.log("No previous coaching session found for", coacheeName);
+        console.log("No previous coaching session found for coachee", coacheeId);
         return;
       }
       
@@ -85,10 +110,21 @@ export default function Assessment() {
       
       console.log("Found previous assessment:", previousAssessment.id);
       
+      // Only carry over scores for behaviors and steps that exist in the new session's framework version
+      const versionStepsResponse = await authFetch(frameworkVersionId ? `/api/steps?version=${frameworkVersionId}` : "/api/steps");
+      const versionSteps = StepLevelCalculator.getFocusSteps<StepWithSubsteps>(
+        versionStepsResponse.ok ? await versionStepsResponse.json() : [],
+        focusStepIds
+      );
+      const versionStepIds = new Set(versionSteps.map(step => step.id));
+      const versionBehaviorIds = new Set(
+        versionSteps.flatMap(step => step.substeps.flatMap(substep => substep.behaviors.map(behavior => behavior.id)))
+      );
+      
       // Get scores and step scores in parallel for better performance
       const [scoresResponse, stepScoresResponse] = await Promise.all([
-        fetch(`/api/assessments/${previousAssessment.id}/scores`),
-        fetch(`/api/assessments/${previousAssessment.id}/step-scores`)
+        authFetch(`/api/assessments/${previousAssessment.id}/scores`),
+        authFetch(`/api/assessments/${previousAssessment.id}/step-scores`)
       ]);
 
       // Process behavior scores
@@ -97,19 +133,20 @@ export default function Assessment() {
         console.log("Found", previousScores.length, "previous behavior scores to duplicate");
         
         // Batch all score updates into parallel requests
-        const newCheckedBehaviors = new Set<number>();
+        // Only observed behaviors carry over; what applies depends on how the next call goes
+        const newObservations: BehaviorObservations = {};
         const scoreUpdatePromises = [];
         
         for (const score of previousScores) {
-          if (score.checked) {
-            newCheckedBehaviors.add(score.behaviorId);
+          if (score.observation === "observed" && versionBehaviorIds.has(score.behaviorId)) {
+            newObservations[score.behaviorId] = "observed";
             
             // Queue the update request
             scoreUpdatePromises.push(
-              fetch(`/api/assessments/${newAssessmentId}/scores/${score.behaviorId}`, {
+              authFetch(`/api/assessments/${newAssessmentId}/scores/${score.behaviorId}`, {
                 method: "PUT",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ checked: true }),
+                body: JSON.stringify({ observation: "observed" }),
               })
             );
           }
@@ -121,8 +158,8 @@ export default function Assessment() {
         }
         
         // Update UI with duplicated scores
-        setCheckedBehaviors(newCheckedBehaviors);
-        console.log("Baseline duplication completed - duplicated", newCheckedBehaviors.size, "behavioral scores");
+        setObservations(newObservations);
+        console.log("Baseline duplication completed - duplicated", scoreUpdatePromises.length, "behavioral scores");
         
         // Invalidate queries to refresh scores
         queryClient.invalidateQueries({ queryKey: ["/api/assessments", newAssessmentId, "scores"] });
@@ -138,11 +175,12 @@ export default function Assessment() {
         const stepScoreUpdatePromises = [];
         
         for (const stepScore of previousStepScores) {
+          if (!versionStepIds.has(stepScore.stepId)) continue;
           newStepScores[stepScore.stepId] = stepScore.level;
           
           // Queue the update request
           stepScoreUpdatePromises.push(
-            fetch(`/api/assessments/${newAssessmentId}/step-scores/${stepScore.stepId}`, {
+            authFetch(`/api/assessments/${newAssessmentId}/step-scores/${stepScore.stepId}`, {
               method: "PUT",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({ level: stepScore.level }),
@@ -169,7 +207,7 @@ export default function Assessment() {
         console.log("Loading previous assessment text for prepopulation:", previousAssessment);
         
         // Update the new assessment with previous text content
-        const updateResponse = await fetch(`/api/assessments/${newAssessmentId}`, {
+        const updateResponse = await authFetch(`/api/assessments/${newAssessmentId}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -196,10 +234,11 @@ export default function Assessment() {
     }
   };
 
-  const createAssessmentMutation = useMutation<AssessmentType, Error, { title: string; userId: number; assesseeName: string }>({
-    mutationFn: async ({ title, userId, assesseeName }) => {
-      console.log("Creating assessment with:", { title, userId, assesseeName });
-      const res = await apiRequest("POST", "/api/assessments", { title, userId, assesseeName });
+  const createAssessmentMutation = useMutation<AssessmentType, Error, { title: string; assesseeUserId: number; frameworkId?: number; focusStepIds?: number[] }>({
+    mutationFn: async ({ title, assesseeUserId, frameworkId, focusStepIds }) => {
+      // The server records the signed-in coach as the session owner
+      console.log("Creating assessment with:", { title, assesseeUserId, frameworkId, focusStepIds });
+      const res = await apiRequest("POST", "/api/assessments", { title, assesseeUserId, frameworkId, focusStepIds });
       const data = await res.json();
       console.log("Assessment API response:", data);
       return data;
@@ -210,7 +249,9 @@ export default function Assessment() {
       setShowUserModal(false);
       
       // Try to duplicate baseline from previous coaching session
-      await duplicateBaselineFromPreviousSession(assessment.assesseeName, assessment.id);
+      if (assessment.assesseeUserId) {
+        await duplicateBaselineFromPreviousSession(assessment.assesseeUserId, assessment.id, assessment.frameworkVersionId, assessment.focusStepIds);
+      }
       
       queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
     },
@@ -218,17 +259,19 @@ export default function Assessment() {
       console.error("Error creating assessment:", error);
       toast({
         title: "Assessment Creation Failed",
-        description: "Failed to create assessment. Please try again.",
+        description: error.message.includes("EMAIL_NOT_VERIFIED")
+          ? "Please verify your email address first. You can resend the verification email from your profile."
+          : "Failed to create assessment. Please try again.",
         variant: "destructive",
       });
     },
   });
 
   const updateScoreMutation = useMutation({
-    mutationFn: async ({ behaviorId, checked }: { behaviorId: number; checked: boolean }) => {
+    mutationFn: async ({ behaviorId, observation }: { behaviorId: number; observation: BehaviorObservation | null }) => {
       if (!currentAssessment) throw new Error("No current assessment");
       
-      const res = await apiRequest("PUT", `/api/assessments/${currentAssessment.id}/scores/${behaviorId}`, { checked });
+      const res = await apiRequest("PUT", `/api/assessments/${currentAssessment.id}/scores/${behaviorId}`, { observation });
       return res.json();
     },
     onSuccess: () => {
@@ -254,6 +297,49 @@ export default function Assessment() {
     },
   });
 
+  // Evidence notes are saved one at a time and read back from the score rows
+  const updateBehaviorNoteMutation = useMutation({
+    mutationFn: async ({ behaviorId, note }: { behaviorId: number; note: string }) => {
+      if (!currentAssessment) throw new Error("No current assessment");
+
+      const res = await apiRequest("PUT", `/api/assessments/${currentAssessment.id}/scores/${behaviorId}/note`, { note });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", currentAssessment?.id, "scores"] });
+    },
+    onError: (error) => {
+      console.error("Error updating behavior note:", error);
+      toast({ title: "Note not saved", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const updateStepNoteMutation = useMutation({
+    mutationFn: async ({ stepId, note }: { stepId: number; note: string }) => {
+      if (!currentAssessment) throw new Error("No current assessment");
+
+      const res = await apiRequest("PUT", `/api/assessments/${currentAssessment.id}/step-scores/${stepId}/note`, { note });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", currentAssessment?.id, "step-scores"] });
+    },
+    onError: (error) => {
+      console.error("Error updating step note:", error);
+      toast({ title: "Note not saved", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const behaviorNotes = scores.reduce((acc, score) => {
+    if (score.note) acc[score.behaviorId] = score.note;
+    return acc;
+  }, {} as { [behaviorId: number]: string });
+
+  const stepNotes = stepScoresData.reduce((acc, score) => {
+    if (score.note) acc[score.stepId] = score.note;
+    return acc;
+  }, {} as { [stepId: number]: string });
+
   // Convert step scores data to object format for compatibility
   const stepScoresMap = stepScoresData.reduce((acc, score) => {
     acc[score.stepId] = score.level;
@@ -270,11 +356,8 @@ export default function Assessment() {
       }
 
       try {
-        const response = await fetch('/api/auth/me', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
+        // Refreshes an expired access token before giving up on the session
+        const response = await authFetch('/api/auth/me');
 
         if (response.ok) {
           const userData = await response.json();
@@ -296,6 +379,8 @@ export default function Assessment() {
   // Handle URL parameters - watch for changes
   useEffect(() => {
     const userId = urlParams.get('userId');
+    const frameworkId = urlParams.get('frameworkId');
+    const focus = urlParams.get('focus'); // Comma-separated focus step ids
     const assessmentId = urlParams.get('id');
     const timestamp = urlParams.get('t'); // Timestamp to force fresh navigation
     
@@ -315,12 +400,16 @@ export default function Assessment() {
         // Reset state for new user/session
         setCurrentAssessment(null);
         setCurrentUser(null);
-        setCheckedBehaviors(new Set());
+        setObservations({});
         setStepScores({});
         setAssesseeName('');
         setContext('');
         
-        handleUserSelected(newUserId);
+        handleUserSelected(
+          newUserId,
+          frameworkId ? parseInt(frameworkId) : undefined,
+          focus ? focus.split(',').map(Number).filter(Number.isInteger) : undefined
+        );
       }
     } else if (!userId && !currentUser && !showUserModal) {
       setShowUserModal(true);
@@ -329,17 +418,15 @@ export default function Assessment() {
 
   const loadExistingAssessment = async (assessmentId: number) => {
     try {
-      const response = await fetch(`/api/assessments/${assessmentId}`);
+      const response = await authFetch(`/api/assessments/${assessmentId}`);
       if (response.ok) {
         const assessment = await response.json();
         setCurrentAssessment(assessment);
         
-        // Get user details
-        const userResponse = await fetch(`/api/users/${assessment.userId}`);
-        if (userResponse.ok) {
-          const userData = await userResponse.json();
-          setCurrentUser(userData);
-        }
+        // assessments.userId is the coach; sessions that predate coachee linking only carry a name
+        const userResponse = assessment.assesseeUserId ? await authFetch(`/api/users/${assessment.assesseeUserId}`) : null;
+        const coachee: User | null = userResponse?.ok ? await userResponse.json() : null;
+        setCurrentUser(coachee ?? { id: 0, fullName: assessment.assesseeName, email: "", team: null, createdAt: new Date() } as User);
         
         setAssesseeName(assessment.assesseeName);
         setContext(assessment.context || '');
@@ -362,16 +449,16 @@ export default function Assessment() {
 
   const loadScoresForAssessment = async (assessmentId: number) => {
     try {
-      const scoresResponse = await fetch(`/api/assessments/${assessmentId}/scores`);
+      const scoresResponse = await authFetch(`/api/assessments/${assessmentId}/scores`);
       if (scoresResponse.ok) {
         const scoresData = await scoresResponse.json();
-        const checkedIds = scoresData.filter((score: any) => score.checked).map((score: any) => score.behaviorId);
-        console.log("Manually loading scores:", checkedIds.length, "behaviors checked", checkedIds);
+        const loadedObservations = StepLevelCalculator.getObservations(scoresData);
+        console.log("Manually loading scores:", Object.keys(loadedObservations).length, "behaviors scored");
         
         // Force state update and trigger re-render
-        setCheckedBehaviors(new Set());
+        setObservations({});
         setTimeout(() => {
-          setCheckedBehaviors(new Set(checkedIds));
+          setObservations(loadedObservations);
         }, 100);
         
         // Invalidate query cache to ensure fresh data
@@ -384,7 +471,7 @@ export default function Assessment() {
 
   const loadStepScoresForAssessment = async (assessmentId: number) => {
     try {
-      const stepScoresResponse = await fetch(`/api/assessments/${assessmentId}/step-scores`);
+      const stepScoresResponse = await authFetch(`/api/assessments/${assessmentId}/step-scores`);
       if (stepScoresResponse.ok) {
         const stepScoresData = await stepScoresResponse.json();
         const stepScoresMap = stepScoresData.reduce((acc: any, score: any) => {
@@ -405,31 +492,31 @@ export default function Assessment() {
   // Simple state watcher - only update when assessment changes, like context text
   useEffect(() => {
     if (currentAssessment && scores.length > 0) {
-      const checkedIds = scores.filter(score => score.checked).map(score => score.behaviorId);
-      console.log("Loading saved scores:", checkedIds.length, "behaviors checked");
-      setCheckedBehaviors(new Set(checkedIds));
+      const loadedObservations = StepLevelCalculator.getObservations(scores);
+      console.log("Loading saved scores:", Object.keys(loadedObservations).length, "behaviors scored");
+      setObservations(loadedObservations);
     } else if (currentAssessment) {
       // Clear behaviors for new assessments
-      setCheckedBehaviors(new Set());
+      setObservations({});
     }
   }, [currentAssessment?.id]);
 
-  const handleUserSelected = async (userId: number) => {
+  const handleUserSelected = async (userId: number, frameworkId?: number, focusStepIds?: number[]) => {
     console.log("User selected:", userId);
     try {
       setCurrentAssessment(null);
-      setCheckedBehaviors(new Set());
+      setObservations({});
       setStepScores({});
       
       console.log("Fetching user details for ID:", userId);
-      const response = await fetch(`/api/users/${userId}`);
-      let selectedUser;
-      if (response.ok) {
-        selectedUser = await response.json();
+      // The user list (open to coaches) also covers coachees they haven't run a session with yet
+      const response = await authFetch("/api/users");
+      let selectedUser = response.ok ? ((await response.json()) as User[]).find(user => user.id === userId) : undefined;
+      if (selectedUser) {
         console.log("User details fetched:", selectedUser);
       } else {
         console.log("Failed to fetch user details, using fallback");
-        selectedUser = { id: userId, fullName: "User", email: "", team: null, createdAt: new Date() };
+        selectedUser = { id: userId, fullName: "User", email: "", team: null, createdAt: new Date() } as User;
       }
       
       const assesseeName = selectedUser.fullName;
@@ -439,7 +526,7 @@ export default function Assessment() {
       const title = `Assessment for ${assesseeName} - ${new Date().toLocaleDateString()}`;
       console.log("About to create assessment with title:", title);
       
-      createAssessmentMutation.mutate({ title, userId, assesseeName });
+      createAssessmentMutation.mutate({ title, assesseeUserId: userId, frameworkId, focusStepIds });
     } catch (error) {
       console.error("Error in handleUserSelected:", error);
       toast({
@@ -450,16 +537,19 @@ export default function Assessment() {
     }
   };
 
-  const handleBehaviorCheck = (behaviorId: number, checked: boolean) => {
-    const newCheckedBehaviors = new Set(checkedBehaviors);
-    if (checked) {
-      newCheckedBehaviors.add(behaviorId);
-    } else {
-      newCheckedBehaviors.delete(behaviorId);
-    }
-    setCheckedBehaviors(newCheckedBehaviors);
+  const handleObservationChange = (behaviorId: number, observation: BehaviorObservation) => {
+    setObservations(prev => ({ ...prev, [behaviorId]: observation }));
     
-    updateScoreMutation.mutate({ behaviorId, checked });
+    updateScoreMutation.mutate({ behaviorId, observation });
+  };
+
+  const handleObservationClear = (behaviorId: number) => {
+    setObservations(prev => {
+      const { [behaviorId]: _cleared, ...rest } = prev;
+      return rest;
+    });
+    
+    updateScoreMutation.mutate({ behaviorId, observation: null });
   };
 
   const handleStepScoreChange = (stepId: number, level: number) => {
@@ -472,7 +562,7 @@ export default function Assessment() {
   const totalScore = steps.reduce((stepTotal, step) => {
     return stepTotal + step.substeps.reduce((substepTotal, substep) => {
       return substepTotal + substep.behaviors.reduce((behaviorTotal, behavior) => {
-        if (checkedBehaviors.has(behavior.id)) {
+        if (observations[behavior.id] === "observed") {
           return behaviorTotal + behavior.proficiencyLevel;
         }
         return behaviorTotal;
@@ -480,7 +570,7 @@ export default function Assessment() {
     }, 0);
   }, 0);
 
-  const totalBehaviors = checkedBehaviors.size;
+  const totalBehaviors = Object.values(observations).filter(observation => observation === "observed").length;
 
   const handleAuthSuccess = (user: User, token: string) => {
     setAssessor(user);
@@ -536,6 +626,11 @@ export default function Assessment() {
     );
   }
 
+  const overallProficiency = StepLevelCalculator.getOverallProficiencyLevel(
+    StepLevelCalculator.getSessionStepLevels(steps, observations, stepScores, scoringPolicy),
+    scoringPolicy
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 pb-24">
       {/* Header with Logo, SalesCoach left, Coaching Session title right */}
@@ -558,8 +653,18 @@ export default function Assessment() {
       {/* Sub-header with Coachee name left, Date/Time right */}
       <div className="bg-gray-50 border-b border-gray-200 px-3 sm:px-4 py-2 sm:py-3">
         <div className="max-w-4xl mx-auto flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-1 sm:space-y-0">
-          <div className="text-xs sm:text-sm font-medium text-gray-700 truncate">
-            Coachee: {currentUser?.fullName}
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="text-xs sm:text-sm font-medium text-gray-700 truncate">
+              Coachee: {currentUser?.fullName}
+            </div>
+            <Badge variant="outline" className={`${StepLevelCalculator.getLevelBadgeClass(overallProficiency.level)} text-xs`}>
+              {overallProficiency.text}
+            </Badge>
+            {currentAssessment.focusStepIds && (
+              <Badge variant="outline" className="text-xs">
+                Focus: {steps.length} of {frameworkSteps.length} steps
+              </Badge>
+            )}
           </div>
           <div className="text-xs sm:text-sm text-gray-500">
             {new Date().toLocaleDateString()} {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -600,27 +705,34 @@ export default function Assessment() {
             <AssessmentStep
               key={step.id}
               step={step}
-              checkedBehaviors={checkedBehaviors}
-              onBehaviorCheck={isReadonly || isLocked ? () => {} : handleBehaviorCheck}
+              observations={observations}
+              onObservationChange={isReadonly || isLocked ? () => {} : handleObservationChange}
+              onObservationClear={isReadonly || isLocked ? undefined : handleObservationClear}
               stepScores={stepScores}
               onStepScoreChange={isReadonly || isLocked ? () => {} : handleStepScoreChange}
+              behaviorNotes={behaviorNotes}
+              onBehaviorNoteChange={(behaviorId, note) => updateBehaviorNoteMutation.mutate({ behaviorId, note })}
+              stepNotes={stepNotes}
+              onStepNoteChange={(stepId, note) => updateStepNoteMutation.mutate({ stepId, note })}
               disabled={isReadonly || isLocked}
+              scoringPolicy={scoringPolicy}
             />
           ))}
         </div>
         
         {/* Spider Graph */}
-        <SpiderGraph steps={steps} checkedBehaviors={checkedBehaviors} stepScores={stepScores} />
+        <SpiderGraph steps={steps} observations={observations} stepScores={stepScores} scoringPolicy={scoringPolicy} />
         
         {/* Export Results */}
         {currentUser && currentAssessment && (
           <ExportResults
             steps={steps}
-            checkedBehaviors={checkedBehaviors}
+            observations={observations}
             totalScore={totalScore}
             user={currentUser}
             assessmentTitle={currentAssessment.title}
             stepScores={stepScores}
+            scoringPolicy={scoringPolicy}
             {...(assessor && { assessor })}
             context={context}
             onSaveAssessment={(coachingData) => {
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Eye, Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import AppHeader from "@/components/app-header";
+import AppFooter from "@/components/app-footer";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { CoacheeProgress, Framework } from "@shared/schema";
+
+const LINE_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"];
+
+export default function CoacheeProgressPage() {
+  const params = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [selectedFrameworkId, setSelectedFrameworkId] = useState<string>("");
+
+  const { data: progress, isLoading, error } = useQuery<CoacheeProgress>({
+    queryKey: [`/api/coachees/${params.id}/progress`],
+  });
+
+  const { data: frameworks = [] } = useQuery<Framework[]>({
+    queryKey: ["/api/frameworks"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader title="Coachee Progress" />
+        <div className="flex items-center justify-center pt-20">
+          <div className="text-lg text-gray-600">Loading progress...</div>
+        </div>
+        <AppFooter />
+      </div>
+    );
+  }
+
+  if (error || !progress) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader title="Coachee Progress" showBack={true} onBack={() => setLocation("/coaching-history")} />
+        <div className="flex items-center justify-center pt-20">
+          <div className="text-lg text-gray-600">Coachee not found.</div>
+        </div>
+        <AppFooter />
+      </div>
+    );
+  }
+
+  // Step ids are only comparable within one framework, so the chart shows one framework at a time
+  const frameworkIds = Array.from(new Set(progress.assessments.map(entry => entry.frameworkId)));
+  const frameworkId = selectedFrameworkId
+    ? (selectedFrameworkId === "none" ? null : parseInt(selectedFrameworkId))
+    : frameworkIds[frameworkIds.length - 1] ?? null;
+  const entries = progress.assessments.filter(entry => entry.frameworkId === frameworkId);
+
+  // Plot every step seen in the selected framework, titled as in its most recent session
+  const stepTitles = new Map<number, string>();
+  entries.forEach(entry => entry.steps.forEach(step => stepTitles.set(step.stepId, step.title)));
+  const chartSteps = Array.from(stepTitles.entries()).map(([stepId, title]) => ({ stepId, title }));
+
+  const chartData = entries.map(entry => {
+    const point: Record<string, string | number | null> = {
+      session: entry.createdAt ? format(new Date(entry.createdAt), "MMM d, yyyy") : `#${entry.assessmentId}`,
+    };
+    chartSteps.forEach(({ stepId }) => {
+      const step = entry.steps.find(candidate => candidate.stepId === stepId);
+      // Unassessed steps leave a gap rather than dropping to Learner
+      point[`step_${stepId}`] = step?.assessed ? step.level : null;
+    });
+    return point;
+  });
+
+  const getFrameworkName = (id: number | null) =>
+    frameworks.find(framework => framework.id === id)?.name ?? "Unassigned framework";
+
+  const handleViewAssessment = (assessmentId: number, status: string) => {
+    setLocation(status === "submitted"
+      ? `/assessment?id=${assessmentId}&readonly=true`
+      : `/assessment?id=${assessmentId}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <AppHeader title="Coachee Progress" showBack={true} onBack={() => setLocation("/coaching-history")} />
+
+      <div className="max-w-4xl mx-auto px-3 sm:px-4 pt-20 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{progress.coachee.fullName}</h1>
+          <p className="text-sm text-gray-600">
+            {progress.coachee.email}{progress.coachee.team ? ` · ${progress.coachee.team}` : ""}
+          </p>
+        </div>
+
+        {progress.assessments.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-500">
+              No coaching sessions recorded for this coachee yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {frameworkIds.length > 1 && (
+              <Select
+                value={frameworkId === null ? "none" : frameworkId.toString()}
+                onValueChange={setSelectedFrameworkId}
+              >
+                <SelectTrigger className="w-full sm:w-72">
+                  <SelectValue placeholder="Framework" />
+                </SelectTrigger>
+                <SelectContent>
+                  {frameworkIds.map(id => (
+                    <SelectItem key={id ?? "none"} value={id === null ? "none" : id.toString()}>
+                      {getFrameworkName(id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Step Levels Over Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-96" data-testid="progress-chart">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="session" tick={{ fontSize: 12 }} />
+                      <YAxis
+                        domain={[1, 4]}
+                        ticks={[1, 2, 3, 4]}
+                        tickFormatter={(level: number) => StepLevelCalculator.getLevelText(level)}
+                        tick={{ fontSize: 12 }}
+                        width={90}
+                      />
+                      <Tooltip formatter={(level: number) => StepLevelCalculator.getLevelText(level)} />
+                      <Legend />
+                      {chartSteps.map(({ stepId, title }, index) => (
+                        <Line
+                          key={stepId}
+                          type="monotone"
+                          dataKey={`step_${stepId}`}
+                          name={title}
+                          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                          strokeWidth={2}
+                          connectNulls
+                          dot={{ r: 4 }}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sessions ({entries.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {[...entries].reverse().map(entry => (
+                    <div key={entry.assessmentId} className="flex items-center justify-between p-3 border rounded-lg gap-3">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{entry.title}</div>
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                          <span>{entry.createdAt ? format(new Date(entry.createdAt), "MMM d, yyyy") : "N/A"}</span>
+                          {frameworkIds.length > 1 && (
+                            <span className="flex items-center gap-1">
+                              <Layers size={14} />
+                              {getFrameworkName(entry.frameworkId)}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge className={StepLevelCalculator.getLevelBadgeClass(entry.overallLevel)}>
+                          {StepLevelCalculator.getLevelText(entry.overallLevel)}
+                        </Badge>
+                        <Button variant="outline" size="sm" onClick={() => handleViewAssessment(entry.assessmentId, entry.status)}>
+                          <Eye className="mr-1" size={14} />
+                          View
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AppFooter />
+    </div>
+  );
+}
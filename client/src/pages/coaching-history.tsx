@@ -1,18 +1,19 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Calendar, User, Users, Eye, Download, Filter, FileText } from "lucide-react";
+import { useQuery, useQueries } from "@tanstack/react-query";
+import { Calendar, User, Users, Eye, Download, Filter, FileText, Layers, ClipboardCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/queryClient";
 import AppHeader from "@/components/app-header";
 import AppFooter from "@/components/app-footer";
 import { useLocation } from "wouter";
 import { format } from "date-fns";
-import { StepLevelCalculator } from "@shared/stepLevelCalculator";
-import type { Assessment, User as UserType, UserWithTeams, AssessmentScore, StepScore, Step, Substep, Behavior } from "@shared/schema";
+import { StepLevelCalculator, DEFAULT_SCORING_POLICY } from "@shared/stepLevelCalculator";
+import type { Assessment, User as UserType, UserWithTeams, AssessmentScore, StepScore, StepWithSubsteps, Framework, FrameworkVersion, FrameworkSnapshot } from "@shared/schema";
 
 export default function CoachingHistory() {
   const { toast } = useToast();
@@ -21,8 +22,11 @@ export default function CoachingHistory() {
   const [filterTeam, setFilterTeam] = useState<string>("all");
   const [filterCoachee, setFilterCoachee] = useState<string>("all");
   const [filterDate, setFilterDate] = useState<string>("all");
+  const [filterFramework, setFilterFramework] = useState<string>("all");
   const [assessmentScores, setAssessmentScores] = useState<{ [assessmentId: number]: AssessmentScore[] }>({});
   const [stepScores, setStepScores] = useState<{ [assessmentId: number]: StepScore[] }>({});
+  // Sessions whose ratings the coachee only sees after submitting their self-assessment
+  const [withheldAssessmentIds, setWithheldAssessmentIds] = useState<Set<number>>(new Set());
 
   // Fetch all assessments
   const { data: assessments = [], isLoading } = useQuery<Assessment[]>({
@@ -34,19 +38,51 @@ export default function CoachingHistory() {
     queryKey: ["/api/users"],
   });
 
-  // Fetch all steps for calculating proficiency levels
-  const { data: steps = [] } = useQuery<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]>({
+  const { data: frameworks = [] } = useQuery<Framework[]>({
+    queryKey: ["/api/frameworks"],
+  });
+
+  // Fetch the live framework for assessments that predate framework versioning
+  const { data: steps = [] } = useQuery<StepWithSubsteps[]>({
     queryKey: ["/api/steps"],
   });
 
+  // Each assessment is scored against the framework version (steps and scoring policy) it pinned
+  const frameworkVersionIds = Array.from(new Set(
+    assessments.map(assessment => assessment.frameworkVersionId).filter((id): id is number => id !== null)
+  ));
+  const versionQueries = useQueries({
+    queries: frameworkVersionIds.map(versionId => ({
+      queryKey: [`/api/framework-versions/${versionId}`],
+    })),
+  });
+  const snapshotsByVersion = frameworkVersionIds.reduce((acc, versionId, index) => {
+    const version = versionQueries[index]?.data as FrameworkVersion | undefined;
+    if (version) acc[versionId] = version.snapshot;
+    return acc;
+  }, {} as { [versionId: number]: FrameworkSnapshot });
+
+  const getSnapshotForAssessment = (assessmentId: number): FrameworkSnapshot => {
+    const assessment = assessments.find(a => a.id === assessmentId);
+    if (assessment?.frameworkVersionId) {
+      const snapshot = snapshotsByVersion[assessment.frameworkVersionId];
+      return {
+        steps: snapshot?.steps || [],
+        scoringPolicy: snapshot?.scoringPolicy ?? DEFAULT_SCORING_POLICY,
+      };
+    }
+    const framework = frameworks.find(f => f.id === assessment?.frameworkId);
+    return { steps, scoringPolicy: framework?.scoringPolicy ?? DEFAULT_SCORING_POLICY };
+  };
+
   // Load assessment scores when assessments change
   useEffect(() => {
     const loadAssessmentData = async () => {
       for (const assessment of assessments) {
         if (!assessmentScores[assessment.id]) {
           try {
-            const scoresResponse = await fetch(`/api/assessments/${assessment.id}/scores`);
-            const stepScoresResponse = await fetch(`/api/assessments/${assessment.id}/step-scores`);
+            const scoresResponse = await authFetch(`/api/assessments/${assessment.id}/scores`);
+            const stepScoresResponse = await authFetch(`/api/assessments/${assessment.id}/step-scores`);
             
             if (scoresResponse.ok && stepScoresResponse.ok) {
               const scores = await scoresResponse.json();
@@ -54,6 +90,8 @@ export default function CoachingHistory() {
               
               setAssessmentScores(prev => ({ ...prev, [assessment.id]: scores }));
               setStepScores(prev => ({ ...prev, [assessment.id]: stepScoreData }));
+            } else if (scoresResponse.status === 403) {
+              setWithheldAssessmentIds(prev => new Set(prev).add(assessment.id));
             }
           } catch (error) {
             console.error(`Error loading data for assessment ${assessment.id}:`, error);
@@ -72,25 +110,36 @@ export default function CoachingHistory() {
     const stepScoreData = stepScores[assessmentId] || [];
     const assessmentScoreData = assessmentScores[assessmentId] || [];
     
-    return StepLevelCalculator.getUnifiedStepLevels(steps, assessmentScoreData, stepScoreData);
+    const { steps: assessmentSteps, scoringPolicy } = getSnapshotForAssessment(assessmentId);
+    const focusStepIds = assessments.find(a => a.id === assessmentId)?.focusStepIds;
+    return StepLevelCalculator.getUnifiedStepLevels(
+      StepLevelCalculator.getFocusSteps(assessmentSteps, focusStepIds),
+      assessmentScoreData,
+      stepScoreData,
+      scoringPolicy
+    );
   };
 
   // Calculate proficiency level for an assessment
-  const calculateProficiencyLevel = (assessmentId: number) => {
+  const getProficiency = (assessmentId: number) => {
     const unifiedLevels = getUnifiedStepLevels(assessmentId);
-    const proficiency = StepLevelCalculator.getOverallProficiencyLevel(unifiedLevels);
-    return proficiency.text;
+    return StepLevelCalculator.getOverallProficiencyLevel(unifiedLevels, getSnapshotForAssessment(assessmentId).scoringPolicy);
   };
 
   // Get step badge data using unified levels
   const getStepBadges = (assessmentId: number) => {
     const unifiedLevels = getUnifiedStepLevels(assessmentId);
+    const { steps: assessmentSteps } = getSnapshotForAssessment(assessmentId);
     
     return unifiedLevels.map((stepLevel, index) => {
-      const levelText = StepLevelCalculator.getLevelShortCode(stepLevel.level);
-      const colorClass = StepLevelCalculator.getLevelBadgeClass(stepLevel.level);
+      // Unassessed steps show as "-" rather than Learner
+      const level = StepLevelCalculator.isAssessed(stepLevel) ? stepLevel.level : 0;
+      const levelText = StepLevelCalculator.getLevelShortCode(level);
+      const colorClass = StepLevelCalculator.getLevelBadgeClass(level);
+      // Focused sessions skip steps, so number badges by the step's position in the framework
+      const stepNumber = assessmentSteps.findIndex(step => step.id === stepLevel.stepId) + 1 || index + 1;
       
-      return { stepNumber: index + 1, levelText, colorClass };
+      return { stepNumber, levelText, colorClass };
     });
   };
 
@@ -99,21 +148,32 @@ export default function CoachingHistory() {
     users.flatMap(user => (user as any).teams?.map((team: any) => team.name) || [])
   ));
   
+  // Coachees are identified by user id; sessions that predate linking fall back to their recorded name
+  const getCoacheeKey = (assessment: Assessment) =>
+    assessment.assesseeUserId ? assessment.assesseeUserId.toString() : `name:${assessment.assesseeName}`;
+  const getCoachee = (assessment: Assessment) =>
+    assessment.assesseeUserId ? users.find(user => user.id === assessment.assesseeUserId) : undefined;
+  const getCoacheeName = (assessment: Assessment) =>
+    getCoachee(assessment)?.fullName ?? assessment.assesseeName;
+
   // Get unique coachees for filtering
-  const coachees = Array.from(new Set(assessments.map(assessment => assessment.assesseeName)));
+  const coachees = Array.from(
+    new Map(assessments.map(assessment => [getCoacheeKey(assessment), getCoacheeName(assessment)])).entries()
+  ).map(([key, name]) => ({ key, name }));
 
   // Filter assessments based on search and filters
   const filteredAssessments = assessments.filter(assessment => {
-    const matchesSearch = assessment.assesseeName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    const matchesSearch = getCoacheeName(assessment)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          assessment.title?.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesTeam = filterTeam === "all" || 
-                       users.find(user => user.fullName === assessment.assesseeName && 
-                         (user as any).teams?.some((team: any) => team.name === filterTeam));
+                       (getCoachee(assessment) as any)?.teams?.some((team: any) => team.name === filterTeam);
     
-    const matchesCoachee = filterCoachee === "all" || assessment.assesseeName === filterCoachee;
+    const matchesCoachee = filterCoachee === "all" || getCoacheeKey(assessment) === filterCoachee;
+
+    const matchesFramework = filterFramework === "all" || assessment.frameworkId?.toString() === filterFramework;
 
-    return matchesSearch && matchesTeam && matchesCoachee;
+    return matchesSearch && matchesTeam && matchesCoachee && matchesFramework;
   });
 
   // Sort assessments by date (newest first)
@@ -160,7 +220,7 @@ export default function CoachingHistory() {
     }
 
     try {
-      const response = await fetch(`/api/assessments/${assessment.id}/pdf`);
+      const response = await authFetch(`/api/assessments/${assessment.id}/pdf`);
       if (response.ok) {
         const blob = await response.blob();
         const url = URL.createObjectURL(blob);
@@ -189,6 +249,13 @@ export default function CoachingHistory() {
           title: "PDF Downloaded",
           description: "Your assessment report has been downloaded successfully.",
         });
+      } else if (response.status === 403) {
+        const { message } = await response.json();
+        toast({
+          title: "Report Not Available Yet",
+          description: message,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "PDF Generation Failed",
@@ -251,7 +318,7 @@ export default function CoachingHistory() {
         </div>
 
         {/* Filters - Updated order as requested */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className={`grid grid-cols-1 ${frameworks.length > 1 ? "md:grid-cols-4" : "md:grid-cols-3"} gap-4 mb-6`}>
           {/* Filter By Coachee - First */}
           <Select value={filterCoachee} onValueChange={setFilterCoachee}>
             <SelectTrigger>
@@ -260,8 +327,8 @@ export default function CoachingHistory() {
             <SelectContent>
               <SelectItem value="all">All Coachees</SelectItem>
               {coachees.map((coachee) => (
-                <SelectItem key={coachee} value={coachee}>
-                  {coachee}
+                <SelectItem key={coachee.key} value={coachee.key}>
+                  {coachee.name}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -295,6 +362,23 @@ export default function CoachingHistory() {
               <SelectItem value="custom">Custom</SelectItem>
             </SelectContent>
           </Select>
+
+          {/* Filter By Framework - only when more than one framework exists */}
+          {frameworks.length > 1 && (
+            <Select value={filterFramework} onValueChange={setFilterFramework}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter By Framework" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Frameworks</SelectItem>
+                {frameworks.map((framework) => (
+                  <SelectItem key={framework.id} value={framework.id.toString()}>
+                    {framework.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         {/* Assessment List */}
@@ -313,7 +397,8 @@ export default function CoachingHistory() {
           ) : (
             sortedAssessments.map((assessment) => {
               const dateTime = formatDateTime(assessment.createdAt);
-              const user = users.find(u => u.fullName === assessment.assesseeName);
+              const user = getCoachee(assessment);
+              const framework = frameworks.find(f => f.id === assessment.frameworkId);
               
               return (
                 <Card key={assessment.id} className="hover:shadow-md transition-shadow">
@@ -326,7 +411,17 @@ export default function CoachingHistory() {
                         <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 space-y-1 sm:space-y-0 text-sm text-gray-600 mb-3">
                           <div className="flex items-center space-x-1">
                             <User size={14} />
-                            <span className="truncate">{assessment.assesseeName || 'Unknown'}</span>
+                            {assessment.assesseeUserId ? (
+                              <button
+                                type="button"
+                                onClick={() => setLocation(`/coachees/${assessment.assesseeUserId}`)}
+                                className="truncate text-blue-600 hover:underline"
+                              >
+                                {getCoacheeName(assessment)}
+                              </button>
+                            ) : (
+                              <span className="truncate">{getCoacheeName(assessment) || 'Unknown'}</span>
+                            )}
                           </div>
                           {user?.team && (
                             <div className="flex items-center space-x-1">
@@ -334,6 +429,12 @@ export default function CoachingHistory() {
                               <span className="truncate">{user.team}</span>
                             </div>
                           )}
+                          {frameworks.length > 1 && framework && (
+                            <div className="flex items-center space-x-1">
+                              <Layers size={14} />
+                              <span className="truncate">{framework.name}</span>
+                            </div>
+                          )}
                           <div className="flex items-center space-x-1">
                             <Calendar size={14} />
                             <span className="text-xs sm:text-sm">{dateTime.date} at {dateTime.time}</span>
@@ -341,35 +442,39 @@ export default function CoachingHistory() {
                         </div>
                         
                         {/* Proficiency Level */}
-                        <div className="flex flex-col space-y-2 text-sm">
-                          <div className="flex items-center space-x-2">
-                            <span className="text-gray-600 text-xs sm:text-sm">Proficiency:</span>
-                            {(() => {
-                              const proficiencyLevel = calculateProficiencyLevel(assessment.id);
-                              const unifiedLevels = getUnifiedStepLevels(assessment.id);
-                              const proficiency = StepLevelCalculator.getOverallProficiencyLevel(unifiedLevels);
-                              const badgeClass = StepLevelCalculator.getLevelBadgeClass(proficiency.level);
+                        {withheldAssessmentIds.has(assessment.id) ? (
+                          <p className="text-sm text-gray-500">
+                            Submit your self-assessment to see your coach's ratings.
+                          </p>
+                        ) : (
+                          <div className="flex flex-col space-y-2 text-sm">
+                            <div className="flex items-center space-x-2">
+                              <span className="text-gray-600 text-xs sm:text-sm">Proficiency:</span>
+                              {(() => {
+                                const proficiency = getProficiency(assessment.id);
+                                const badgeClass = StepLevelCalculator.getLevelBadgeClass(proficiency.level);
                               
-                              return (
-                                <Badge variant="outline" className={`${badgeClass} text-xs`}>
-                                  {proficiencyLevel}
-                                </Badge>
-                              );
-                            })()}
-                          </div>
+                                return (
+                                  <Badge variant="outline" className={`${badgeClass} text-xs`}>
+                                    {proficiency.text}
+                                  </Badge>
+                                );
+                              })()}
+                            </div>
                           
-                          {/* Step Levels - Responsive wrap */}
-                          <div className="flex flex-col sm:flex-row sm:items-center space-y-1 sm:space-y-0 sm:space-x-2">
-                            <span className="text-gray-600 text-xs sm:text-sm">Steps:</span>
-                            <div className="flex flex-wrap gap-1">
-                              {getStepBadges(assessment.id).map((badge, index) => (
-                                <Badge key={index} variant="outline" className={`text-xs ${badge.colorClass}`}>
-                                  {badge.stepNumber}: {badge.levelText}
-                                </Badge>
-                              ))}
+                            {/* Step Levels - Responsive wrap */}
+                            <div className="flex flex-col sm:flex-row sm:items-center space-y-1 sm:space-y-0 sm:space-x-2">
+                              <span className="text-gray-600 text-xs sm:text-sm">Steps:</span>
+                              <div className="flex flex-wrap gap-1">
+                                {getStepBadges(assessment.id).map((badge, index) => (
+                                  <Badge key={index} variant="outline" className={`text-xs ${badge.colorClass}`}>
+                                    {badge.stepNumber}: {badge.levelText}
+                                  </Badge>
+                                ))}
+                              </div>
                             </div>
                           </div>
-                        </div>
+                        )}
                       </div>
                       
                       {/* Action buttons - responsive layout */}
@@ -392,6 +497,18 @@ export default function CoachingHistory() {
                           <FileText className="mr-1" size={14} />
                           PDF Report
                         </Button>
+                        {/* Coachees fill in their self-assessment here; coaches compare it once submitted */}
+                        {assessment.assesseeUserId && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setLocation(`/self-assessment/${assessment.id}`)}
+                            className="flex-1 lg:min-w-[100px] text-xs sm:text-sm"
+                          >
+                            <ClipboardCheck className="mr-1" size={14} />
+                            Self-Assessment
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AppHeader from "@/components/app-header";
+import AppFooter from "@/components/app-footer";
+import { emailLanguageNames, type EmailLanguage, type EmailTemplateSummary, type RenderedEmail } from "@shared/schema";
+
+export default function EmailTemplatesPage() {
+  const [, setLocation] = useLocation();
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [language, setLanguage] = useState<EmailLanguage>("en");
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplateSummary[]>({
+    queryKey: ["/api/email-templates"],
+  });
+
+  const template = templates.find(candidate => candidate.id === selectedTemplateId) ?? templates[0];
+
+  const { data: preview, error } = useQuery<RenderedEmail>({
+    queryKey: [`/api/email-templates/${template?.id}/preview?language=${language}`],
+    enabled: !!template,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <AppHeader title="Email Templates" showBack={true} onBack={() => setLocation("/profile")} />
+
+      <div className="max-w-4xl mx-auto px-3 sm:px-4 pt-20 space-y-6">
+        {isLoading ? (
+          <div className="text-center text-gray-600">Loading templates...</div>
+        ) : !template ? (
+          <div className="text-center text-gray-600">No email templates available.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="email-template">Template</Label>
+                <Select value={template.id} onValueChange={setSelectedTemplateId}>
+                  <SelectTrigger id="email-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="email-template-language">Language</Label>
+                <Select value={language} onValueChange={(value) => setLanguage(value as EmailLanguage)}>
+                  <SelectTrigger id="email-template-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {template.languages.map(candidate => (
+                      <SelectItem key={candidate} value={candidate}>{emailLanguageNames[candidate]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{preview?.subject ?? template.name}</CardTitle>
+                <CardDescription>
+                  {template.description}. Rendered with sample values for: {template.variables.join(", ")}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {error ? (
+                  <div className="text-red-600">Unable to render this template.</div>
+                ) : preview && (
+                  <Tabs defaultValue="html">
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="text">Plain Text</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="html">
+                      {/* Sandboxed so the email markup can't affect or script the app */}
+                      <iframe
+                        title="Email preview"
+                        sandbox=""
+                        srcDoc={preview.html}
+                        className="w-full h-[600px] border rounded-md bg-white"
+                        data-testid="email-preview-html"
+                      />
+                    </TabsContent>
+                    <TabsContent value="text">
+                      <pre className="whitespace-pre-wrap text-sm border rounded-md bg-white p-4" data-testid="email-preview-text">
+                        {preview.text}
+                      </pre>
+                    </TabsContent>
+                  </Tabs>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AppFooter />
+    </div>
+  );
+}
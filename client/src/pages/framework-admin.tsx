@@ -0,0 +1,953 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowUp, ArrowDown, Plus, Save, Trash2, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import AppHeader from "@/components/app-header";
+import AppFooter from "@/components/app-footer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, authFetch } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DEFAULT_SCORING_POLICY } from "@shared/stepLevelCalculator";
+import type { Framework, FrameworkImportResult, ScoringPolicy, ThresholdRule, LevelThresholds, Step, Substep, Behavior } from "@shared/schema";
+
+type SubstepWithBehaviors = Substep & { behaviors: Behavior[] };
+type StepWithSubsteps = Step & { substeps: SubstepWithBehaviors[] };
+
+const LEVEL_OPTIONS = [
+  { value: 1, label: "1 - Learner" },
+  { value: 2, label: "2 - Qualified" },
+  { value: 3, label: "3 - Experienced" },
+  { value: 4, label: "4 - Master" },
+];
+
+// Swap an item with its neighbour and return the ids in their new order
+function moveId(ids: number[], index: number, direction: -1 | 1): number[] | null {
+  const target = index + direction;
+  if (target < 0 || target >= ids.length) return null;
+  const reordered = [...ids];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
+
+function useFrameworkMutation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ method, url, data }: { method: string; url: string; data?: unknown }) => {
+      const response = await apiRequest(method, url, data);
+      return response.json();
+    },
+    // Returning the promise makes per-call onSuccess handlers run against refetched data
+    onSuccess: () => Promise.all([
+      // Step lists are keyed per framework (/api/steps?frameworkId=...), so match on the prefix
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/steps"),
+      }),
+      queryClient.invalidateQueries({ queryKey: ["/api/frameworks"] }),
+    ]),
+    onError: (error: any) => {
+      toast({
+        title: "Framework update failed",
+        description: error.message || "Unable to save framework changes",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+function ReorderButtons({ onUp, onDown, disabled }: { onUp: () => void; onDown: () => void; disabled?: boolean }) {
+  return (
+    <div className="flex gap-1">
+      <Button type="button" variant="outline" size="sm" onClick={onUp} disabled={disabled}>
+        <ArrowUp size={14} />
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={onDown} disabled={disabled}>
+        <ArrowDown size={14} />
+      </Button>
+    </div>
+  );
+}
+
+function BehaviorRow({ behavior, onMove }: { behavior: Behavior; onMove: (direction: -1 | 1) => void }) {
+  const mutation = useFrameworkMutation();
+  const [description, setDescription] = useState(behavior.description);
+  const [proficiencyLevel, setProficiencyLevel] = useState(behavior.proficiencyLevel);
+  const [weight, setWeight] = useState(behavior.weight);
+  const isDirty = description !== behavior.description || proficiencyLevel !== behavior.proficiencyLevel || weight !== behavior.weight;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+      <select
+        value={proficiencyLevel}
+        onChange={(e) => setProficiencyLevel(parseInt(e.target.value))}
+        className="px-2 py-2 border border-gray-300 rounded text-xs"
+      >
+        {LEVEL_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <Input value={description} onChange={(e) => setDescription(e.target.value)} className="flex-1" />
+      <Input
+        type="number"
+        min={0.1}
+        max={10}
+        step={0.5}
+        value={weight}
+        onChange={(e) => setWeight(parseFloat(e.target.value) || 0)}
+        className="sm:w-20"
+        title="Weight"
+        aria-label="Behavior weight"
+      />
+      <div className="flex gap-1">
+        <ReorderButtons onUp={() => onMove(-1)} onDown={() => onMove(1)} disabled={mutation.isPending} />
+        <Button
+          type="button"
+          size="sm"
+          disabled={!isDirty || !description.trim() || weight <= 0 || mutation.isPending}
+          onClick={() => mutation.mutate({ method: "PUT", url: `/api/behaviors/${behavior.id}`, data: { description, proficiencyLevel, weight } })}
+        >
+          <Save size={14} />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={mutation.isPending}
+          onClick={() => mutation.mutate({ method: "DELETE", url: `/api/behaviors/${behavior.id}` })}
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function SubstepEditor({ substep, onMove }: { substep: SubstepWithBehaviors; onMove: (direction: -1 | 1) => void }) {
+  const mutation = useFrameworkMutation();
+  const [title, setTitle] = useState(substep.title);
+  const [newBehavior, setNewBehavior] = useState("");
+  const [newBehaviorLevel, setNewBehaviorLevel] = useState(1);
+
+  const behaviorIds = substep.behaviors.map(behavior => behavior.id);
+
+  const moveBehavior = (index: number, direction: -1 | 1) => {
+    const ids = moveId(behaviorIds, index, direction);
+    if (ids) mutation.mutate({ method: "PUT", url: "/api/behaviors/reorder", data: { ids } });
+  };
+
+  const handleAddBehavior = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate(
+      {
+        method: "POST",
+        url: "/api/behaviors",
+        data: {
+          substepId: substep.id,
+          description: newBehavior,
+          proficiencyLevel: newBehaviorLevel,
+          order: substep.behaviors.length + 1,
+        },
+      },
+      { onSuccess: () => setNewBehavior("") }
+    );
+  };
+
+  return (
+    <div className="border border-gray-100 rounded-lg p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <Input value={title} onChange={(e) => setTitle(e.target.value)} className="flex-1 font-medium" />
+        <div className="flex gap-1">
+          <ReorderButtons onUp={() => onMove(-1)} onDown={() => onMove(1)} disabled={mutation.isPending} />
+          <Button
+            type="button"
+            size="sm"
+            disabled={title === substep.title || !title.trim() || mutation.isPending}
+            onClick={() => mutation.mutate({ method: "PUT", url: `/api/substeps/${substep.id}`, data: { title } })}
+          >
+            <Save size={14} />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={mutation.isPending}
+            onClick={() => mutation.mutate({ method: "DELETE", url: `/api/substeps/${substep.id}` })}
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2 sm:ml-4">
+        {substep.behaviors.map((behavior, index) => (
+          <BehaviorRow
+            key={`${behavior.id}-${behavior.description}-${behavior.proficiencyLevel}-${behavior.weight}`}
+            behavior={behavior}
+            onMove={(direction) => moveBehavior(index, direction)}
+          />
+        ))}
+
+        <form onSubmit={handleAddBehavior} className="flex flex-col sm:flex-row gap-2 sm:items-center pt-2">
+          <select
+            value={newBehaviorLevel}
+            onChange={(e) => setNewBehaviorLevel(parseInt(e.target.value))}
+            className="px-2 py-2 border border-gray-300 rounded text-xs"
+          >
+            {LEVEL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <Input
+            value={newBehavior}
+            onChange={(e) => setNewBehavior(e.target.value)}
+            placeholder="New behavior description"
+            className="flex-1"
+            required
+          />
+          <Button type="submit" size="sm" disabled={mutation.isPending}>
+            <Plus size={14} className="mr-1" />
+            Add Behavior
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function StepEditor({ step, onMove }: { step: StepWithSubsteps; onMove: (direction: -1 | 1) => void }) {
+  const mutation = useFrameworkMutation();
+  const [title, setTitle] = useState(step.title);
+  const [description, setDescription] = useState(step.description);
+  const [targetScore, setTargetScore] = useState(step.targetScore);
+  const [weight, setWeight] = useState(step.weight);
+  const [newSubstep, setNewSubstep] = useState("");
+
+  const isDirty = title !== step.title || description !== step.description || targetScore !== step.targetScore || weight !== step.weight;
+  const substepIds = step.substeps.map(substep => substep.id);
+
+  const moveSubstep = (index: number, direction: -1 | 1) => {
+    const ids = moveId(substepIds, index, direction);
+    if (ids) mutation.mutate({ method: "PUT", url: "/api/substeps/reorder", data: { ids } });
+  };
+
+  const handleAddSubstep = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate(
+      {
+        method: "POST",
+        url: "/api/substeps",
+        data: { stepId: step.id, title: newSubstep, order: step.substeps.length + 1 },
+      },
+      { onSuccess: () => setNewSubstep("") }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <CardTitle className="text-lg">{step.order}. {step.title}</CardTitle>
+          <div className="flex gap-1">
+            <ReorderButtons onUp={() => onMove(-1)} onDown={() => onMove(1)} disabled={mutation.isPending} />
+            <Button
+              type="button"
+              variant="destructive"
+              size="sm"
+              disabled={mutation.isPending}
+              onClick={() => mutation.mutate({ method: "DELETE", url: `/api/steps/${step.id}` })}
+            >
+              <Trash2 size={14} className="mr-1" />
+              Archive
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+          <div className="sm:col-span-3">
+            <Label htmlFor={`step-title-${step.id}`}>Title</Label>
+            <Input id={`step-title-${step.id}`} value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor={`step-target-${step.id}`}>Target Level</Label>
+            <Input
+              id={`step-target-${step.id}`}
+              type="number"
+              min={1}
+              max={4}
+              value={targetScore}
+              onChange={(e) => setTargetScore(parseInt(e.target.value) || 1)}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`step-weight-${step.id}`}>Weight</Label>
+            <Input
+              id={`step-weight-${step.id}`}
+              type="number"
+              min={0.1}
+              max={10}
+              step={0.5}
+              value={weight}
+              onChange={(e) => setWeight(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor={`step-description-${step.id}`}>Description</Label>
+          <Textarea
+            id={`step-description-${step.id}`}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+          />
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          disabled={!isDirty || !title.trim() || weight <= 0 || mutation.isPending}
+          onClick={() => mutation.mutate({ method: "PUT", url: `/api/steps/${step.id}`, data: { title, description, targetScore, weight } })}
+        >
+          <Save size={14} className="mr-1" />
+          Save Step
+        </Button>
+
+        <div className="space-y-3">
+          {step.substeps.map((substep, index) => (
+            <SubstepEditor
+              key={`${substep.id}-${substep.title}`}
+              substep={substep}
+              onMove={(direction) => moveSubstep(index, direction)}
+            />
+          ))}
+        </div>
+
+        <form onSubmit={handleAddSubstep} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={newSubstep}
+            onChange={(e) => setNewSubstep(e.target.value)}
+            placeholder="New substep title"
+            className="flex-1"
+            required
+          />
+          <Button type="submit" size="sm" disabled={mutation.isPending}>
+            <Plus size={14} className="mr-1" />
+            Add Substep
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function FrameworkSettings({ framework }: { framework: Framework }) {
+  const mutation = useFrameworkMutation();
+  const [name, setName] = useState(framework.name);
+  const [description, setDescription] = useState(framework.description || "");
+
+  const isDirty = name !== framework.name || description !== (framework.description || "");
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="framework-name">Name</Label>
+        <Input id="framework-name" value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <div>
+        <Label htmlFor="framework-description">Description</Label>
+        <Textarea
+          id="framework-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          disabled={!isDirty || !name.trim() || mutation.isPending}
+          onClick={() => mutation.mutate({ method: "PUT", url: `/api/frameworks/${framework.id}`, data: { name, description } })}
+        >
+          <Save size={14} className="mr-1" />
+          Save Framework
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          size="sm"
+          disabled={mutation.isPending}
+          onClick={() => mutation.mutate({ method: "DELETE", url: `/api/frameworks/${framework.id}` })}
+        >
+          <Trash2 size={14} className="mr-1" />
+          Archive Framework
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const POLICY_LEVELS = [
+  { key: "qualified", label: "Qualified" },
+  { key: "experienced", label: "Experienced" },
+  { key: "master", label: "Master" },
+] as const;
+
+type PolicyLevel = typeof POLICY_LEVELS[number]["key"];
+type CutoffGroup = "behaviorPercentages" | "overallAverages";
+
+const isIncreasing = (thresholds: LevelThresholds) =>
+  thresholds.qualified < thresholds.experienced && thresholds.experienced < thresholds.master;
+
+// Point thresholds may be equal, which skips the level between them
+const isNonDecreasing = (thresholds: LevelThresholds) =>
+  thresholds.qualified <= thresholds.experienced && thresholds.experienced <= thresholds.master;
+
+const isValidRule = (rule: ThresholdRule) =>
+  "behaviorPoints" in rule ? isNonDecreasing(rule.behaviorPoints) : isIncreasing(rule.behaviorPercentages);
+
+function ScoringPolicySettings({ framework }: { framework: Framework }) {
+  const mutation = useFrameworkMutation();
+  const savedPolicy = framework.scoringPolicy ?? DEFAULT_SCORING_POLICY;
+  const [policy, setPolicy] = useState<ScoringPolicy>(savedPolicy);
+  const thresholdRules = savedPolicy.thresholdRules ?? [];
+
+  const isDirty = JSON.stringify(policy) !== JSON.stringify(savedPolicy);
+  const isDefault = (["behaviorPercentages", "overallAverages"] as const).every(group =>
+    POLICY_LEVELS.every(({ key }) => savedPolicy[group][key] === DEFAULT_SCORING_POLICY[group][key])
+  );
+  const isValid = isIncreasing(policy.behaviorPercentages) && isIncreasing(policy.overallAverages);
+
+  const updateThreshold = (group: CutoffGroup, level: PolicyLevel, value: string) => {
+    setPolicy(prev => ({ ...prev, [group]: { ...prev[group], [level]: Number(value) } }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700">Step level: minimum % of behaviors checked</p>
+        <div className="grid grid-cols-3 gap-2 mt-1">
+          {POLICY_LEVELS.map(({ key, label }) => (
+            <div key={key}>
+              <Label htmlFor={`behavior-percentage-${key}`} className="text-xs">{label}</Label>
+              <Input
+                id={`behavior-percentage-${key}`}
+                type="number"
+                min={0}
+                max={100}
+                value={policy.behaviorPercentages[key]}
+                onChange={(e) => updateThreshold("behaviorPercentages", key, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-sm font-medium text-gray-700">Overall level: minimum average step level</p>
+        <div className="grid grid-cols-3 gap-2 mt-1">
+          {POLICY_LEVELS.map(({ key, label }) => (
+            <div key={key}>
+              <Label htmlFor={`overall-average-${key}`} className="text-xs">{label}</Label>
+              <Input
+                id={`overall-average-${key}`}
+                type="number"
+                min={1}
+                max={4}
+                step={0.1}
+                value={policy.overallAverages[key]}
+                onChange={(e) => updateThreshold("overallAverages", key, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+      {!isValid && (
+        <p className="text-xs text-red-600">Thresholds must increase from Qualified to Master.</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Changes apply to new sessions. Existing sessions keep the policy of the framework version they were scored against.
+      </p>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          disabled={!isDirty || !isValid || mutation.isPending}
+          onClick={() => mutation.mutate({ method: "PUT", url: `/api/frameworks/${framework.id}`, data: { scoringPolicy: policy } })}
+        >
+          <Save size={14} className="mr-1" />
+          Save Scoring Policy
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isDefault || mutation.isPending}
+          onClick={() => mutation.mutate({
+            method: "PUT",
+            url: `/api/frameworks/${framework.id}`,
+            // Threshold rules are kept; they are managed separately
+            data: { scoringPolicy: thresholdRules.length > 0 ? { ...DEFAULT_SCORING_POLICY, thresholdRules } : null },
+          })}
+        >
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Per-step and per-substep overrides of the behavior percentage cutoffs, keyed by id
+function ThresholdRulesSettings({ framework, steps }: { framework: Framework; steps: StepWithSubsteps[] }) {
+  const mutation = useFrameworkMutation();
+  const savedPolicy = framework.scoringPolicy ?? DEFAULT_SCORING_POLICY;
+
+  const targets = steps.flatMap(step => [
+    { value: `step:${step.id}`, label: step.title },
+    ...step.substeps.map(substep => ({ value: `substep:${substep.id}`, label: `${step.title} › ${substep.title}` })),
+  ]);
+  const targetLabels = new Map(targets.map(target => [target.value, target.label]));
+  const targetKey = (rule: ThresholdRule) => `${rule.targetType}:${rule.targetId}`;
+
+  // Rules of archived steps and substeps no longer apply, so they are dropped on the next save
+  const savedRules = (savedPolicy.thresholdRules ?? []).filter(rule => targetLabels.has(targetKey(rule)));
+  const [rules, setRules] = useState<ThresholdRule[]>(savedRules);
+  const [newTarget, setNewTarget] = useState("");
+
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(savedRules);
+  const isValid = rules.every(isValidRule);
+  const availableTargets = targets.filter(target => !rules.some(rule => targetKey(rule) === target.value));
+
+  const addRule = () => {
+    const [targetType, targetId] = newTarget.split(":");
+    setRules(prev => [...prev, {
+      targetType: targetType as ThresholdRule["targetType"],
+      targetId: Number(targetId),
+      behaviorPercentages: { ...savedPolicy.behaviorPercentages },
+    }]);
+    setNewTarget("");
+  };
+
+  const updateRule = (index: number, level: PolicyLevel, value: string) => {
+    setRules(prev => prev.map((rule, i) => {
+      if (i !== index) return rule;
+      return "behaviorPoints" in rule
+        ? { ...rule, behaviorPoints: { ...rule.behaviorPoints, [level]: Number(value) } }
+        : { ...rule, behaviorPercentages: { ...rule.behaviorPercentages, [level]: Number(value) } };
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Give a step or substep its own minimum % of behaviors checked. Everything else uses the scoring policy above.
+        A substep rule only sets the substep's badge; the step level is always calculated from all of the step's behaviors.
+        Rules in points, carried over from the old title-based thresholds, count the summed levels of the checked behaviors instead.
+      </p>
+      {rules.length === 0 && <p className="text-sm text-gray-500">No threshold rules yet.</p>}
+      {rules.map((rule, index) => (
+        <div key={targetKey(rule)} className="border border-gray-200 rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-800">
+              {targetLabels.get(targetKey(rule))}
+              <span className="ml-2 text-xs text-gray-500">
+                {rule.targetType === "step" ? "Step" : "Substep"}{"behaviorPoints" in rule && " · points"}
+              </span>
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+              aria-label="Remove threshold rule"
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {POLICY_LEVELS.map(({ key, label }) => (
+              <div key={key}>
+                <Label htmlFor={`threshold-rule-${targetKey(rule)}-${key}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`threshold-rule-${targetKey(rule)}-${key}`}
+                  type="number"
+                  min={0}
+                  max={"behaviorPoints" in rule ? undefined : 100}
+                  value={"behaviorPoints" in rule ? rule.behaviorPoints[key] : rule.behaviorPercentages[key]}
+                  onChange={(e) => updateRule(index, key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {!isValid && (
+        <p className="text-xs text-red-600">Thresholds must increase from Qualified to Master; point thresholds may stay equal.</p>
+      )}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={newTarget} onValueChange={setNewTarget}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose a step or substep..." />
+          </SelectTrigger>
+          <SelectContent>
+            {availableTargets.map(target => (
+              <SelectItem key={target.value} value={target.value}>{target.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="sm" disabled={!newTarget} onClick={addRule}>
+          <Plus size={14} className="mr-1" />
+          Add Rule
+        </Button>
+      </div>
+      <Button
+        type="button"
+        size="sm"
+        disabled={!isDirty || !isValid || mutation.isPending}
+        onClick={() => mutation.mutate({
+          method: "PUT",
+          url: `/api/frameworks/${framework.id}`,
+          data: { scoringPolicy: { ...savedPolicy, thresholdRules: rules } },
+        })}
+      >
+        <Save size={14} className="mr-1" />
+        Save Threshold Rules
+      </Button>
+    </div>
+  );
+}
+
+function FrameworkTransferCard({ framework, onImported }: { framework?: Framework; onImported: (framework: Framework) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [format, setFormat] = useState<"json" | "csv">("csv");
+  const [content, setContent] = useState("");
+  const [name, setName] = useState("");
+  const [preview, setPreview] = useState<FrameworkImportResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleExport = async (exportFormat: "json" | "csv") => {
+    if (!framework) return;
+    try {
+      const response = await authFetch(`/api/frameworks/${framework.id}/export?format=${exportFormat}`);
+      if (!response.ok) throw new Error("Failed to export framework");
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `framework.${exportFormat}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setContent(await file.text());
+    setPreview(null);
+  };
+
+  // Import returns 400 with line-level errors, so read the body instead of throwing via apiRequest
+  const submitImport = async (dryRun: boolean) => {
+    setIsSubmitting(true);
+    try {
+      const response = await authFetch("/api/frameworks/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, content, name: name.trim() || undefined, dryRun }),
+      });
+      const result = await response.json();
+      if (!result.summary) throw new Error(result.error || result.message);
+
+      setPreview(result);
+      if (!dryRun && result.valid && result.framework) {
+        toast({ title: "Framework imported", description: `${result.framework.name} is ready to use.` });
+        await queryClient.invalidateQueries({ queryKey: ["/api/frameworks"] });
+        onImported(result.framework);
+        setContent("");
+        setName("");
+        setPreview(null);
+      }
+    } catch (error: any) {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import / Export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button type="button" variant="outline" className="flex-1" disabled={!framework} onClick={() => handleExport("csv")}>
+            <Download size={16} className="mr-2" />
+            Export CSV
+          </Button>
+          <Button type="button" variant="outline" className="flex-1" disabled={!framework} onClick={() => handleExport("json")}>
+            <Download size={16} className="mr-2" />
+            Export JSON
+          </Button>
+        </div>
+
+        <div className="space-y-3 pt-2 border-t border-gray-100">
+          <p className="text-sm text-gray-600">
+            CSV columns: step, step_description, target_score, substep, level, behavior, order. One row per behavior.
+            Optional: step_weight, weight, and step_thresholds / substep_thresholds as Qualified/Experienced/Master percentages (e.g. 50/70/90) or points (e.g. 2/3/4 points).
+          </p>
+          <p className="text-sm text-gray-500">
+            CSV carries threshold rules but not the framework-wide scoring policy. Use JSON to keep custom cutoffs.
+          </p>
+          <Input type="file" accept=".csv,.json" onChange={handleFileSelected} />
+          <div>
+            <Label htmlFor="import-name">Framework Name</Label>
+            <Input
+              id="import-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={format === "csv" ? "Required for CSV" : "Optional, overrides the name in the file"}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" disabled={!content || isSubmitting} onClick={() => submitImport(true)}>
+              Preview
+            </Button>
+            <Button type="button" disabled={!preview?.valid || isSubmitting} onClick={() => submitImport(false)}>
+              <Upload size={16} className="mr-2" />
+              Import
+            </Button>
+          </div>
+
+          {preview && (
+            <div className={`rounded-lg border p-3 text-sm ${preview.valid ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}`}>
+              <div className="font-medium mb-1">
+                {preview.valid ? "Ready to import" : `${preview.errors.length} problem(s) found`}:
+                {" "}{preview.summary.steps} steps, {preview.summary.substeps} substeps, {preview.summary.behaviors} behaviors
+              </div>
+              {preview.errors.length > 0 && (
+                <ul className="list-disc ml-5 space-y-1 text-red-700">
+                  {preview.errors.map((error, index) => (
+                    <li key={index}>
+                      {error.line ? `Line ${error.line}: ` : error.path ? `${error.path}: ` : ""}{error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function FrameworkAdmin() {
+  const mutation = useFrameworkMutation();
+  const [selectedFrameworkId, setSelectedFrameworkId] = useState<string>("");
+  const [newFrameworkName, setNewFrameworkName] = useState("");
+  const [newStepTitle, setNewStepTitle] = useState("");
+  const [newStepDescription, setNewStepDescription] = useState("");
+
+  const { data: frameworks = [] } = useQuery<Framework[]>({
+    queryKey: ["/api/frameworks"],
+  });
+
+  // Fall back to the first framework when nothing is selected or the selection was archived
+  useEffect(() => {
+    if (frameworks.length > 0 && !frameworks.some(f => f.id.toString() === selectedFrameworkId)) {
+      setSelectedFrameworkId(frameworks[0].id.toString());
+    }
+  }, [frameworks, selectedFrameworkId]);
+
+  const selectedFramework = frameworks.find(f => f.id.toString() === selectedFrameworkId);
+
+  const { data: steps = [], isLoading } = useQuery<StepWithSubsteps[]>({
+    queryKey: [`/api/steps?frameworkId=${selectedFrameworkId}`],
+    enabled: !!selectedFramework,
+  });
+
+  const handleAddFramework = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate(
+      { method: "POST", url: "/api/frameworks", data: { name: newFrameworkName } },
+      {
+        onSuccess: (framework: Framework) => {
+          setNewFrameworkName("");
+          setSelectedFrameworkId(framework.id.toString());
+        },
+      }
+    );
+  };
+
+  const stepIds = steps.map(step => step.id);
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const ids = moveId(stepIds, index, direction);
+    if (ids) mutation.mutate({ method: "PUT", url: "/api/steps/reorder", data: { ids } });
+  };
+
+  const handleAddStep = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate(
+      {
+        method: "POST",
+        url: "/api/steps",
+        data: {
+          frameworkId: selectedFramework?.id,
+          title: newStepTitle,
+          description: newStepDescription,
+          targetScore: 3,
+          order: steps.length + 1,
+        },
+      },
+      {
+        onSuccess: () => {
+          setNewStepTitle("");
+          setNewStepDescription("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <AppHeader title="Coaching Framework" showBack={true} onBack={() => window.history.back()} />
+
+      <div className="max-w-4xl mx-auto px-3 sm:px-4 pt-20 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Framework</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={selectedFrameworkId} onValueChange={setSelectedFrameworkId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a framework..." />
+              </SelectTrigger>
+              <SelectContent>
+                {frameworks.map((framework) => (
+                  <SelectItem key={framework.id} value={framework.id.toString()}>
+                    {framework.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {selectedFramework && (
+              <FrameworkSettings
+                key={`${selectedFramework.id}-${selectedFramework.name}-${selectedFramework.description}`}
+                framework={selectedFramework}
+              />
+            )}
+
+            <form onSubmit={handleAddFramework} className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-gray-100">
+              <Input
+                value={newFrameworkName}
+                onChange={(e) => setNewFrameworkName(e.target.value)}
+                placeholder="New framework name, e.g. Inside Sales"
+                className="flex-1"
+                required
+              />
+              <Button type="submit" size="sm" disabled={mutation.isPending}>
+                <Plus size={14} className="mr-1" />
+                Add Framework
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {selectedFramework && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Scoring Policy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ScoringPolicySettings
+                key={`${selectedFramework.id}-${JSON.stringify(selectedFramework.scoringPolicy)}`}
+                framework={selectedFramework}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedFramework && !isLoading && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Threshold Rules</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ThresholdRulesSettings
+                key={`${selectedFramework.id}-${JSON.stringify(selectedFramework.scoringPolicy)}-${steps.length}`}
+                framework={selectedFramework}
+                steps={steps}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <FrameworkTransferCard
+          framework={selectedFramework}
+          onImported={(framework) => setSelectedFrameworkId(framework.id.toString())}
+        />
+
+        {!selectedFramework ? null : isLoading ? (
+          <div className="text-center text-gray-600">Loading framework...</div>
+        ) : (
+          steps.map((step, index) => (
+            <StepEditor
+              key={`${step.id}-${step.order}-${step.title}-${step.description}-${step.targetScore}-${step.weight}`}
+              step={step}
+              onMove={(direction) => moveStep(index, direction)}
+            />
+          ))
+        )}
+
+        {selectedFramework && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Step</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAddStep} className="space-y-4">
+                <div>
+                  <Label htmlFor="new-step-title">Title</Label>
+                  <Input
+                    id="new-step-title"
+                    value={newStepTitle}
+                    onChange={(e) => setNewStepTitle(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="new-step-description">Description</Label>
+                  <Textarea
+                    id="new-step-description"
+                    value={newStepDescription}
+                    onChange={(e) => setNewStepDescription(e.target.value)}
+                    rows={2}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                  <Plus className="mr-2" size={16} />
+                  Add Step
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <AppFooter />
+    </div>
+  );
+}
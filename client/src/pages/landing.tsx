@@ -15,9 +15,10 @@ export default function Landing() {
     setShowUserModal(true);
   };
 
-  const handleUserSelected = (userId: number) => {
+  const handleUserSelected = (userId: number, frameworkId?: number, focusStepIds?: number[]) => {
     setShowUserModal(false);
-    setLocation(`/assessment?userId=${userId}`);
+    const focus = focusStepIds?.length ? `&focus=${focusStepIds.join(",")}` : "";
+    setLocation(`/assessment?userId=${userId}${frameworkId ? `&frameworkId=${frameworkId}` : ""}${focus}`);
   };
 
   return (
@@ -1,14 +1,17 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import SalesCoachHeader from "@/components/sales-coach-header";
 import { apiRequest } from "@/lib/queryClient";
 import { Eye, EyeOff } from "lucide-react";
+import type { AuthProviderInfo } from "@shared/schema";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -32,34 +35,74 @@ export default function Login() {
   const [showLoginPassword, setShowLoginPassword] = useState(false);
   const [showRegisterPassword, setShowRegisterPassword] = useState(false);
 
+  // Second step for accounts with two-factor authentication
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const { data: providers = [] } = useQuery<AuthProviderInfo[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  // Google and Apple sign-in failures come back as ?error=
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const error = params.get("error");
+    if (error) {
+      toast({
+        title: "Sign-in failed",
+        description: error,
+        variant: "destructive",
+      });
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+
+    // Google and Apple sign-ins to accounts with two-factor authentication continue here
+    const challenge = new URLSearchParams(window.location.hash.slice(1)).get("twoFactor");
+    if (challenge) {
+      setTwoFactorChallenge(challenge);
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [toast]);
+
+  const completeLogin = (data: { user: unknown; token: string }) => {
+    // Store auth token and user data
+    localStorage.setItem("auth_token", data.token);
+    localStorage.setItem("current_user", JSON.stringify(data.user));
+    
+    toast({
+      title: "Login successful",
+      description: "Welcome back!",
+    });
+    
+    setLocation("/");
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      const response = await apiRequest("POST", "/api/auth/login", {
-        email: loginEmail,
-        password: loginPassword,
+      // Plain fetch so failed logins and lockouts show the server's message
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: loginEmail, password: loginPassword }),
       });
 
       if (response.ok) {
         const data = await response.json();
-        
-        // Store auth token and user data
-        localStorage.setItem("auth_token", data.token);
-        localStorage.setItem("current_user", JSON.stringify(data.user));
-        
-        toast({
-          title: "Login successful",
-          description: "Welcome back!",
-        });
-        
-        setLocation("/");
+        if (data.twoFactorRequired) {
+          setTwoFactorChallenge(data.challengeToken);
+          setTwoFactorCode("");
+          return;
+        }
+        completeLogin(data);
       } else {
-        const error = await response.text();
+        const result = await response.json().catch(() => ({}));
         toast({
           title: "Login failed",
-          description: error || "Invalid email or password",
+          description: response.status === 401 ? "Invalid email or password" : result.error || "Unable to sign in",
           variant: "destructive",
         });
       }
@@ -74,6 +117,39 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/login/2fa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeToken: twoFactorChallenge, code: twoFactorCode }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        completeLogin(result);
+      } else {
+        setTwoFactorCode("");
+        toast({
+          title: "Verification failed",
+          description: result.error || "Invalid verification code",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description: "Unable to connect. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -94,7 +170,7 @@ export default function Login() {
         
         toast({
           title: "Account created",
-          description: "Welcome to SalesCoach!",
+          description: `Welcome to SalesCoach! We've sent a verification link to ${data.user.email}.`,
         });
         
         setLocation("/");
@@ -122,8 +198,10 @@ export default function Login() {
     setIsLoading(true);
 
     try {
-      const response = await apiRequest("POST", "/api/auth/forgot-password", {
-        email: forgotEmail,
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: forgotEmail }),
       });
 
       if (response.ok) {
@@ -134,10 +212,10 @@ export default function Login() {
         setShowForgotPassword(false);
         setForgotEmail("");
       } else {
-        const error = await response.text();
+        const result = await response.json().catch(() => ({}));
         toast({
           title: "Reset failed",
-          description: error || "Unable to send reset email",
+          description: result.error || "Unable to send reset email",
           variant: "destructive",
         });
       }
@@ -152,6 +230,76 @@ export default function Login() {
     }
   };
 
+  if (twoFactorChallenge) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <SalesCoachHeader className="mb-4" showLogo={true} size="lg" />
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                : "Enter the 6-digit code from your authenticator app."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTwoFactor} className="space-y-4">
+              {useRecoveryCode ? (
+                <div>
+                  <Label htmlFor="recovery-code">Recovery Code</Label>
+                  <Input
+                    id="recovery-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} autoFocus>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (!useRecoveryCode && twoFactorCode.length !== 6)}
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setTwoFactorCode("");
+                }}
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setTwoFactorChallenge(null)}
+              >
+                Back to Login
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (showForgotPassword) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -319,6 +467,27 @@ export default function Login() {
               </form>
             </TabsContent>
           </Tabs>
+
+          {providers.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <div className="relative text-center text-sm text-gray-500">
+                <span className="bg-white px-2 relative z-10">or</span>
+                <div className="absolute inset-x-0 top-1/2 border-t" />
+              </div>
+              {providers.map(provider => (
+                <Button
+                  key={provider.id}
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => { window.location.href = `/api/auth/oidc/${provider.id}`; }}
+                  data-testid={`button-sign-in-${provider.id}`}
+                >
+                  Continue with {provider.name}
+                </Button>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,43 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import SalesCoachHeader from "@/components/sales-coach-header";
+import { XCircle } from "lucide-react";
+import { refreshAccessToken } from "@/lib/queryClient";
+
+export default function OAuthCallback() {
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    // The server set the refresh cookie before redirecting here; exchange it for an access token
+    refreshAccessToken().then((signedIn) => {
+      if (signedIn) {
+        setLocation("/");
+      } else {
+        setError("Sign-in did not complete. Please try again.");
+      }
+    });
+  }, [setLocation]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <SalesCoachHeader className="mb-4" showLogo={true} size="lg" />
+          <CardTitle>Signing In</CardTitle>
+          <CardDescription>{error || "Completing sign-in..."}</CardDescription>
+        </CardHeader>
+        {error && (
+          <CardContent className="space-y-4">
+            <XCircle className="mx-auto text-red-600" size={40} />
+            <Button className="w-full" onClick={() => setLocation("/login")}>
+              Back to Login
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { ArrowLeft, Plus, Trash2, Edit, Edit2, LogOut } from "lucide-react";
+import { ArrowLeft, Plus, Trash2, Edit, Edit2, LogOut, Settings, Mail, RefreshCw, X, Unlock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,10 +10,17 @@ import AppHeader from "@/components/app-header";
 import AppFooter from "@/components/app-footer";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
-import { apiRequest } from "@/lib/queryClient";
-import type { User, UserWithTeams } from "@shared/schema";
+import { apiRequest, authFetch } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  userRoles, emailLanguages, emailLanguageNames,
+  type EmailLanguage, type User, type CurrentUser, type UserRole, type UserWithTeams, type Team, type PendingInvitation
+} from "@shared/schema";
 import TeamInput from "@/components/team-input";
 import TeamBulkManager from "@/components/team-bulk-manager";
+import TwoFactorSettings from "@/components/two-factor-settings";
 
 export default function Profile() {
   const [, setLocation] = useLocation();
@@ -22,24 +29,39 @@ export default function Profile() {
   
   // Get current user from localStorage
   const currentUser = JSON.parse(localStorage.getItem("current_user") || "{}");
+  const isAdmin = currentUser.role === "admin";
+  const canManageCoachees = isAdmin || currentUser.role === "coach";
   
   // Form states
+  const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [newUserName, setNewUserName] = useState("");
   const [newUserEmail, setNewUserEmail] = useState("");
-  const [newUserTeam, setNewUserTeam] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("coachee");
+  const [inviteTeamIds, setInviteTeamIds] = useState<number[]>([]);
   const [newTeamName, setNewTeamName] = useState("");
   const [editingTeam, setEditingTeam] = useState<string | null>(null);
   const [editTeamName, setEditTeamName] = useState("");
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [editUserForm, setEditUserForm] = useState({ fullName: "", email: "", team: "" });
+  const [editUserForm, setEditUserForm] = useState<{ fullName: string; email: string; team: string; role: UserRole }>({ fullName: "", email: "", team: "", role: "coachee" });
   const [showBulkTeamManager, setShowBulkTeamManager] = useState(false);
   const [bulkEditTeam, setBulkEditTeam] = useState<string | undefined>(undefined);
+  const [newEmail, setNewEmail] = useState("");
+  const [emailChangePassword, setEmailChangePassword] = useState("");
+  const [deleteAccountPassword, setDeleteAccountPassword] = useState("");
+  const [deleteAccountEmail, setDeleteAccountEmail] = useState("");
+  const [deleteAccountCode, setDeleteAccountCode] = useState("");
+
+  // Fresh copy of the signed-in account, e.g. for a pending email change
+  const { data: me } = useQuery<CurrentUser>({
+    queryKey: ["/api/auth/me"],
+  });
 
   // Fetch all users
   const { data: users = [] } = useQuery<UserWithTeams[]>({
     queryKey: ["/api/users"],
+    enabled: canManageCoachees,
   });
 
   // Fetch teams
@@ -47,18 +69,40 @@ export default function Profile() {
     queryKey: ["/api/teams"],
   });
 
+  // Invitations not yet accepted or revoked, shown alongside the users
+  const { data: invitations = [] } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/invitations"],
+    enabled: canManageCoachees,
+  });
+
+  // Teams with ids, to pick the teams an invitee joins
+  const { data: teamDetails = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams/all"],
+    enabled: canManageCoachees,
+  });
+
+  // Account endpoints answer with { error } on failure
+  const sendAccountRequest = async (method: string, url: string, data: unknown) => {
+    const response = await authFetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || result.message || "Request failed");
+    return result;
+  };
+
   // Password change mutation
   const changePasswordMutation = useMutation({
-    mutationFn: async (passwordData: { currentPassword: string; newPassword: string }) => {
-      const response = await apiRequest("PUT", "/api/auth/change-password", passwordData);
-      if (!response.ok) throw new Error("Failed to change password");
-      return response.json();
-    },
+    mutationFn: (passwordData: { currentPassword: string; newPassword: string }) =>
+      sendAccountRequest("PUT", "/api/auth/change-password", passwordData),
     onSuccess: () => {
       toast({
         title: "Password changed",
-        description: "Your password has been updated successfully.",
+        description: "Your password has been updated and your other devices have been logged out.",
       });
+      setCurrentPassword("");
       setNewPassword("");
       setConfirmPassword("");
     },
@@ -71,40 +115,167 @@ export default function Profile() {
     },
   });
 
-  // Create user mutation
-  const createUserMutation = useMutation({
-    mutationFn: async (userData: { fullName: string; email: string; team?: string }) => {
-      const response = await apiRequest("POST", "/api/users", userData);
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 409) {
-          throw new Error("Email address is already registered in the system");
-        }
-        throw new Error(errorData.message || errorData.error || "Failed to create user");
-      }
-      return response.json();
+  const changeEmailMutation = useMutation({
+    mutationFn: (emailData: { newEmail: string; password: string }) =>
+      sendAccountRequest("POST", "/api/auth/change-email", emailData),
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Confirm your new email",
+        description: result.message,
+      });
+      setNewEmail("");
+      setEmailChangePassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Email change failed",
+        description: error.message || "Unable to change email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: () => sendAccountRequest("POST", "/api/auth/resend-verification", {}),
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Verification email sent",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Verification email failed",
+        description: error.message || "Unable to send verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLanguageMutation = useMutation({
+    mutationFn: (language: EmailLanguage) => sendAccountRequest("PUT", "/api/auth/preferences", { language }),
+    onSuccess: () => {
+      toast({
+        title: "Language updated",
+        description: "Future emails will be sent in the selected language.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Language update failed",
+        description: error.message || "Unable to update language",
+        variant: "destructive",
+      });
     },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: () => sendAccountRequest("POST", "/api/auth/logout-all", {}),
+    onSuccess: () => {
+      localStorage.removeItem("auth_token");
+      localStorage.removeItem("current_user");
+      setLocation("/login");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Logout failed",
+        description: error.message || "Unable to log out of all devices",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: (confirmation: { password?: string; email?: string; code?: string }) =>
+      sendAccountRequest("DELETE", "/api/auth/account", confirmation),
     onSuccess: () => {
+      localStorage.removeItem("auth_token");
+      localStorage.removeItem("current_user");
+      setLocation("/login");
+    },
+    onError: (error: any) => {
       toast({
-        title: "User created",
-        description: "New user has been added successfully.",
+        title: "Account deletion failed",
+        description: error.message || "Unable to delete account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: (invitation: { fullName: string; email: string; role: UserRole; teamIds: number[] }) =>
+      sendAccountRequest("POST", "/api/invitations", invitation),
+    onSuccess: (invitation: PendingInvitation) => {
+      toast({
+        title: "Invitation sent",
+        description: `${invitation.fullName} will receive an email to set up their account.`,
       });
       setNewUserName("");
       setNewUserEmail("");
-      setNewUserTeam("");
+      setInviteRole("coachee");
+      setInviteTeamIds([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Invitation failed",
+        description: error.message || "Unable to send invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendInvitationMutation = useMutation({
+    mutationFn: (invitationId: number) => sendAccountRequest("POST", `/api/invitations/${invitationId}/resend`, {}),
+    onSuccess: (invitation: PendingInvitation) => {
+      toast({
+        title: "Invitation resent",
+        description: `A new link was sent to ${invitation.email}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Resend failed",
+        description: error.message || "Unable to resend invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: number) => sendAccountRequest("DELETE", `/api/invitations/${invitationId}`, {}),
+    onSuccess: () => {
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link no longer works.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revoke failed",
+        description: error.message || "Unable to revoke invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: (userId: number) => sendAccountRequest("POST", `/api/users/${userId}/unlock`, {}),
+    onSuccess: () => {
+      toast({
+        title: "Account unlocked",
+        description: "The user can sign in again.",
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
     },
     onError: (error: any) => {
-      let errorMessage = "Unable to create user";
-      if (error.message?.includes("Email address is already registered")) {
-        errorMessage = "This email address is already registered in the system";
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-      
       toast({
-        title: "User creation failed",
-        description: errorMessage,
+        title: "Unlock failed",
+        description: error.message || "Unable to unlock account",
         variant: "destructive",
       });
     },
@@ -234,7 +405,7 @@ export default function Profile() {
         description: "User has been updated successfully.",
       });
       setEditingUser(null);
-      setEditUserForm({ fullName: "", email: "", team: "" });
+      setEditUserForm({ fullName: "", email: "", team: "", role: "coachee" });
       
       // Optimistic update - update cache immediately without waiting for invalidation
       queryClient.setQueryData(["/api/users"], (oldData: any) => {
@@ -262,7 +433,9 @@ export default function Profile() {
     window.history.back();
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Ends the session on the server too; the local sign-out happens even if that fails
+    await authFetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
     localStorage.removeItem("auth_token");
     localStorage.removeItem("current_user");
     setLocation("/login");
@@ -279,20 +452,52 @@ export default function Profile() {
       return;
     }
     changePasswordMutation.mutate({
-      currentPassword: "", // Would need current password in real implementation
+      currentPassword,
       newPassword,
     });
   };
 
-  const handleCreateUser = (e: React.FormEvent) => {
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeEmailMutation.mutate({ newEmail, password: emailChangePassword });
+  };
+
+  const handleDeleteAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    toast({
+      title: "Delete your account?",
+      description: "You will be signed out and can no longer log in. Coaching sessions are kept for your organisation, without your name.",
+      variant: "destructive",
+      action: (
+        <Button
+          onClick={() => deleteAccountMutation.mutate(
+            me?.hasPassword === false
+              ? { email: deleteAccountEmail, code: deleteAccountCode || undefined }
+              : { password: deleteAccountPassword }
+          )}
+          variant="destructive"
+          size="sm"
+        >
+          Delete
+        </Button>
+      ),
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
     e.preventDefault();
-    createUserMutation.mutate({
+    inviteMutation.mutate({
       fullName: newUserName,
       email: newUserEmail,
-      team: newUserTeam || undefined,
+      role: inviteRole,
+      teamIds: inviteTeamIds,
     });
   };
 
+  const toggleInviteTeam = (teamId: number, checked: boolean) => {
+    setInviteTeamIds(checked ? [...inviteTeamIds, teamId] : inviteTeamIds.filter(id => id !== teamId));
+  };
+
   const handleDeleteUser = (userId: number) => {
     toast({
       title: "Delete User",
@@ -315,7 +520,8 @@ export default function Profile() {
     setEditUserForm({
       fullName: user.fullName,
       email: user.email,
-      team: user.team || ""
+      team: user.team || "",
+      role: user.role
     });
   };
 
@@ -327,7 +533,8 @@ export default function Profile() {
         userData: {
           fullName: editUserForm.fullName,
           email: editUserForm.email,
-          team: editUserForm.team || null
+          team: editUserForm.team || null,
+          role: editUserForm.role
         }
       });
     }
@@ -335,7 +542,7 @@ export default function Profile() {
 
   const handleCancelEdit = () => {
     setEditingUser(null);
-    setEditUserForm({ fullName: "", email: "", team: "" });
+    setEditUserForm({ fullName: "", email: "", team: "", role: "coachee" });
   };
 
   const handleDeleteTeam = async (teamName: string) => {
@@ -402,10 +609,14 @@ export default function Profile() {
       
       <div className="max-w-4xl mx-auto px-3 sm:px-4 pt-20">
         <Tabs defaultValue="account" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3 h-auto sm:h-10">
+          <TabsList className={`grid w-full grid-cols-1 ${isAdmin ? "sm:grid-cols-3" : canManageCoachees ? "sm:grid-cols-2" : ""} h-auto sm:h-10`}>
             <TabsTrigger value="account" className="text-sm py-2 sm:py-1">My Account</TabsTrigger>
-            <TabsTrigger value="users" className="text-sm py-2 sm:py-1">Manage Coachees</TabsTrigger>
-            <TabsTrigger value="teams" className="text-sm py-2 sm:py-1">Manage Teams</TabsTrigger>
+            {canManageCoachees && (
+              <TabsTrigger value="users" className="text-sm py-2 sm:py-1">Manage Coachees</TabsTrigger>
+            )}
+            {isAdmin && (
+              <TabsTrigger value="teams" className="text-sm py-2 sm:py-1">Manage Teams</TabsTrigger>
+            )}
           </TabsList>
 
           {/* My Account Tab */}
@@ -423,7 +634,44 @@ export default function Profile() {
                   </div>
                   <div>
                     <Label>Email</Label>
-                    <Input value={currentUser.email || ""} disabled />
+                    <Input value={me?.email || currentUser.email || ""} disabled />
+                    {me && !me.emailVerified && (
+                      <div className="flex flex-wrap items-center gap-2 mt-1">
+                        <p className="text-sm text-amber-600">This email address is not verified yet.</p>
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => resendVerificationMutation.mutate()}
+                          disabled={resendVerificationMutation.isPending}
+                        >
+                          {resendVerificationMutation.isPending ? "Sending..." : "Resend verification email"}
+                        </Button>
+                      </div>
+                    )}
+                    {me?.pendingEmail && (
+                      <p className="text-sm text-amber-600 mt-1">
+                        Waiting for confirmation of {me.pendingEmail}. Check that inbox for the confirmation link.
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="email-language">Email Language</Label>
+                    <Select
+                      value={me?.language ?? "en"}
+                      onValueChange={(language) => updateLanguageMutation.mutate(language as EmailLanguage)}
+                      disabled={!me || updateLanguageMutation.isPending}
+                    >
+                      <SelectTrigger id="email-language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {emailLanguages.map(language => (
+                          <SelectItem key={language} value={language}>{emailLanguageNames[language]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                   <div>
                     <Label>Teams</Label>
@@ -449,6 +697,16 @@ export default function Profile() {
                 </CardHeader>
                 <CardContent>
                   <form onSubmit={handleChangePassword} className="space-y-4">
+                    <div>
+                      <Label htmlFor="current-password">Current Password</Label>
+                      <Input
+                        id="current-password"
+                        type="password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        required
+                      />
+                    </div>
                     <div>
                       <Label htmlFor="new-password">New Password</Label>
                       <Input
@@ -479,6 +737,136 @@ export default function Profile() {
                 </CardContent>
               </Card>
 
+              <TwoFactorSettings isAdmin={isAdmin} />
+
+              {/* Change Email */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Change Email</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleChangeEmail} className="space-y-4">
+                    <div>
+                      <Label htmlFor="new-email">New Email</Label>
+                      <Input
+                        id="new-email"
+                        type="email"
+                        value={newEmail}
+                        onChange={(e) => setNewEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="email-change-password">Password</Label>
+                      <Input
+                        id="email-change-password"
+                        type="password"
+                        value={emailChangePassword}
+                        onChange={(e) => setEmailChangePassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      We'll send a confirmation link to the new address. You keep signing in with your current email until it is confirmed.
+                    </p>
+                    <Button 
+                      type="submit" 
+                      disabled={changeEmailMutation.isPending}
+                    >
+                      {changeEmailMutation.isPending ? "Sending..." : "Change Email"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
+              {/* Coaching Framework */}
+              {isAdmin && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Coaching Framework</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Button
+                      onClick={() => setLocation("/framework")}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      <Settings className="mr-2" size={16} />
+                      Edit Steps, Substeps and Behaviors
+                    </Button>
+                    <Button
+                      onClick={() => setLocation("/email-templates")}
+                      variant="outline"
+                      className="w-full mt-2"
+                    >
+                      <Mail className="mr-2" size={16} />
+                      Preview Email Templates
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Delete Account */}
+              <Card className="border-red-200">
+                <CardHeader>
+                  <CardTitle className="text-red-700">Delete Account</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleDeleteAccount} className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Your login and personal details are removed. Coaching sessions you ran or took part in are kept for your organisation, with your name removed.
+                    </p>
+                    {me?.hasPassword === false ? (
+                      <>
+                        {/* Google and Apple accounts have no password to confirm with */}
+                        <div>
+                          <Label htmlFor="delete-account-email">Type your email address to confirm</Label>
+                          <Input
+                            id="delete-account-email"
+                            type="email"
+                            placeholder={me.email}
+                            value={deleteAccountEmail}
+                            onChange={(e) => setDeleteAccountEmail(e.target.value)}
+                            required
+                          />
+                        </div>
+                        {me.totpEnabled && (
+                          <div>
+                            <Label htmlFor="delete-account-code">Authentication Code</Label>
+                            <Input
+                              id="delete-account-code"
+                              inputMode="numeric"
+                              autoComplete="one-time-code"
+                              value={deleteAccountCode}
+                              onChange={(e) => setDeleteAccountCode(e.target.value)}
+                              required
+                            />
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <div>
+                        <Label htmlFor="delete-account-password">Password</Label>
+                        <Input
+                          id="delete-account-password"
+                          type="password"
+                          value={deleteAccountPassword}
+                          onChange={(e) => setDeleteAccountPassword(e.target.value)}
+                          required
+                        />
+                      </div>
+                    )}
+                    <Button
+                      type="submit"
+                      variant="destructive"
+                      disabled={deleteAccountMutation.isPending}
+                    >
+                      {deleteAccountMutation.isPending ? "Deleting..." : "Delete My Account"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
               {/* Logout */}
               <Card>
                 <CardContent className="pt-6">
@@ -490,6 +878,14 @@ export default function Profile() {
                     <LogOut className="mr-2" size={16} />
                     Logout
                   </Button>
+                  <Button
+                    onClick={() => logoutAllMutation.mutate()}
+                    variant="outline"
+                    className="w-full mt-3"
+                    disabled={logoutAllMutation.isPending}
+                  >
+                    {logoutAllMutation.isPending ? "Logging out..." : "Log Out All Devices"}
+                  </Button>
                 </CardContent>
               </Card>
             </div>
@@ -498,13 +894,13 @@ export default function Profile() {
           {/* Manage Users Tab */}
           <TabsContent value="users">
             <div className="space-y-6">
-              {/* Add New User */}
+              {/* Invite User */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Add New Coachee</CardTitle>
+                  <CardTitle>Invite Coachee</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <form onSubmit={handleCreateUser} className="space-y-4">
+                  <form onSubmit={handleInvite} className="space-y-4">
                     <div>
                       <Label htmlFor="user-name">Full Name</Label>
                       <Input
@@ -525,29 +921,47 @@ export default function Profile() {
                         required
                       />
                     </div>
-                    <div>
-                      <Label htmlFor="user-team">Team (optional)</Label>
-                      <Input
-                        id="user-team"
-                        type="text"
-                        value={newUserTeam}
-                        onChange={(e) => setNewUserTeam(e.target.value)}
-                        list="existing-teams"
-                        placeholder="Enter team name"
-                      />
-                      <datalist id="existing-teams">
-                        {teams.map((team) => (
-                          <option key={team} value={team} />
-                        ))}
-                      </datalist>
-                    </div>
+                    {isAdmin && (
+                      <div>
+                        <Label htmlFor="invite-role">Role</Label>
+                        <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as UserRole)}>
+                          <SelectTrigger id="invite-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userRoles.map((role) => (
+                              <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    {teamDetails.length > 0 && (
+                      <div>
+                        <Label>Teams (optional)</Label>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-1">
+                          {teamDetails.map((team) => (
+                            <label key={team.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={inviteTeamIds.includes(team.id)}
+                                onCheckedChange={(checked) => toggleInviteTeam(team.id, checked === true)}
+                              />
+                              {team.name}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-sm text-gray-600">
+                      We'll email a link where they choose a password. The link expires after 7 days.
+                    </p>
                     <Button 
                       type="submit" 
-                      disabled={createUserMutation.isPending}
+                      disabled={inviteMutation.isPending}
                       className="w-full"
                     >
-                      <Plus className="mr-2" size={16} />
-                      {createUserMutation.isPending ? "Creating..." : "Add Coachee"}
+                      <Mail className="mr-2" size={16} />
+                      {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
                     </Button>
                   </form>
                 </CardContent>
@@ -560,81 +974,172 @@ export default function Profile() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
-                    {users.map((user) => (
-                      <div
-                        key={user.id}
-                        className="flex items-center justify-between p-3 border rounded-lg"
-                      >
-                        {editingUser?.id === user.id ? (
-                          // Edit form
-                          <form onSubmit={handleUpdateUser} className="flex-1 space-y-2">
-                            <Input
-                              value={editUserForm.fullName}
-                              onChange={(e) => setEditUserForm({...editUserForm, fullName: e.target.value})}
-                              placeholder="Full name"
-                              required
-                            />
-                            <Input
-                              value={editUserForm.email}
-                              onChange={(e) => setEditUserForm({...editUserForm, email: e.target.value})}
-                              placeholder="Email"
-                              type="email"
-                              required
-                            />
-                            <TeamInput
-                              value={editUserForm.team}
-                              onChange={(team) => setEditUserForm({...editUserForm, team})}
-                              placeholder="Team (optional)"
-                            />
-                            <div className="flex gap-2">
-                              <Button type="submit" size="sm" disabled={updateUserMutation.isPending}>
-                                Save
-                              </Button>
-                              <Button type="button" variant="outline" size="sm" onClick={handleCancelEdit}>
-                                Cancel
-                              </Button>
+                    {invitations.map((invitation) => {
+                      const expired = new Date(invitation.expiresAt) < new Date();
+                      const canManage = isAdmin || invitation.invitedBy === currentUser?.id;
+                      return (
+                        <div
+                          key={`invitation-${invitation.id}`}
+                          className="flex items-center justify-between p-3 border border-dashed rounded-lg bg-gray-50"
+                        >
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{invitation.fullName}</span>
+                              <Badge variant={expired ? "destructive" : "secondary"}>
+                                {expired ? "Invitation expired" : "Invited"}
+                              </Badge>
                             </div>
-                          </form>
-                        ) : (
-                          // Display mode
-                          <>
-                            <div>
-                              <div className="font-medium">{user.fullName}</div>
-                              <div className="text-sm text-gray-600">{user.email}</div>
-                              {(user as any).teams && (user as any).teams.length > 0 ? (
-                                <div className="flex flex-wrap gap-1 mt-1">
-                                  {(user as any).teams.map((team: any) => (
-                                    <span key={team.id} className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                                      {team.name}
-                                    </span>
-                                  ))}
-                                </div>
-                              ) : (
-                                <div className="text-xs text-gray-400">No teams</div>
-                              )}
+                            <div className="text-sm text-gray-600">{invitation.email}</div>
+                            <div className="text-xs text-gray-500">
+                              {invitation.inviterName ? `Invited by ${invitation.inviterName} · ` : ""}
+                              {expired ? "Expired" : "Expires"} {new Date(invitation.expiresAt).toLocaleDateString()}
                             </div>
+                            {invitation.teams.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {invitation.teams.map((team) => (
+                                  <span key={team.id} className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                                    {team.name}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          {canManage && (
                             <div className="flex gap-2">
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => handleEditUser(user)}
-                                disabled={user.id === currentUser?.id}
+                                onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                                disabled={resendInvitationMutation.isPending}
+                                title="Resend invitation"
                               >
-                                <Edit size={14} />
+                                <RefreshCw size={14} />
                               </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => handleDeleteUser(user.id)}
-                                disabled={user.id === currentUser?.id}
+                                onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                                disabled={revokeInvitationMutation.isPending}
+                                title="Revoke invitation"
                               >
-                                <Trash2 size={14} />
+                                <X size={14} />
                               </Button>
                             </div>
-                          </>
-                        )}
-                      </div>
-                    ))}
+                          )}
+                        </div>
+                      );
+                    })}
+                    {users.map((user) => {
+                      const locked = !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+                      return (
+                        <div
+                          key={user.id}
+                          className="flex items-center justify-between p-3 border rounded-lg"
+                        >
+                          {editingUser?.id === user.id ? (
+                            // Edit form
+                            <form onSubmit={handleUpdateUser} className="flex-1 space-y-2">
+                              <Input
+                                value={editUserForm.fullName}
+                                onChange={(e) => setEditUserForm({...editUserForm, fullName: e.target.value})}
+                                placeholder="Full name"
+                                required
+                              />
+                              <Input
+                                value={editUserForm.email}
+                                onChange={(e) => setEditUserForm({...editUserForm, email: e.target.value})}
+                                placeholder="Email"
+                                type="email"
+                                required
+                              />
+                              <TeamInput
+                                value={editUserForm.team}
+                                onChange={(team) => setEditUserForm({...editUserForm, team})}
+                                placeholder="Team (optional)"
+                              />
+                              <Select
+                                value={editUserForm.role}
+                                onValueChange={(role) => setEditUserForm({...editUserForm, role: role as UserRole})}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Role" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {userRoles.map((role) => (
+                                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <div className="flex gap-2">
+                                <Button type="submit" size="sm" disabled={updateUserMutation.isPending}>
+                                  Save
+                                </Button>
+                                <Button type="button" variant="outline" size="sm" onClick={handleCancelEdit}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </form>
+                          ) : (
+                            // Display mode
+                            <>
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{user.fullName}</span>
+                                  {locked && (
+                                    <Badge variant="destructive" title={`${user.failedLoginCount} failed sign-ins`}>
+                                      Locked until {new Date(user.lockedUntil!).toLocaleTimeString()}
+                                    </Badge>
+                                  )}
+                                </div>
+                                <div className="text-sm text-gray-600">{user.email}</div>
+                                {(user as any).teams && (user as any).teams.length > 0 ? (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {(user as any).teams.map((team: any) => (
+                                      <span key={team.id} className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                                        {team.name}
+                                      </span>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <div className="text-xs text-gray-400">No teams</div>
+                                )}
+                              </div>
+                              {isAdmin && (
+                                <div className="flex gap-2">
+                                  {locked && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => unlockUserMutation.mutate(user.id)}
+                                      disabled={unlockUserMutation.isPending}
+                                      title="Unlock account"
+                                    >
+                                      <Unlock size={14} />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleEditUser(user)}
+                                    disabled={user.id === currentUser?.id}
+                                  >
+                                    <Edit size={14} />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDeleteUser(user.id)}
+                                    disabled={user.id === currentUser?.id}
+                                  >
+                                    <Trash2 size={14} />
+                                  </Button>
+                                </div>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
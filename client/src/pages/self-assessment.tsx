@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import AppHeader from "@/components/app-header";
+import AppFooter from "@/components/app-footer";
+import AssessmentStep from "@/components/assessment-step";
+import SelfAssessmentComparison from "@/components/self-assessment-comparison";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
+import type { User, SelfAssessmentDetail, BehaviorObservation, BehaviorObservations } from "@shared/schema";
+
+export default function SelfAssessmentPage() {
+  const params = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [observations, setObservations] = useState<BehaviorObservations>({});
+  const detailUrl = `/api/assessments/${params.id}/self-assessment`;
+
+  const { data: detail, isLoading, error } = useQuery<SelfAssessmentDetail>({
+    queryKey: [detailUrl],
+  });
+
+  const { data: currentUser } = useQuery<User>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  const selfAssessment = detail?.selfAssessment ?? null;
+
+  // Local observations keep the segmented controls responsive while each answer saves
+  useEffect(() => {
+    if (detail) {
+      setObservations(StepLevelCalculator.getObservations(detail.selfScores));
+    }
+  }, [selfAssessment?.id]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", detailUrl);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [detailUrl] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to start self-assessment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateScoreMutation = useMutation({
+    mutationFn: async ({ behaviorId, observation }: { behaviorId: number; observation: BehaviorObservation }) => {
+      const res = await apiRequest("PUT", `${detailUrl}/scores/${behaviorId}`, { observation });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      console.error("Error updating self-assessment score:", error);
+      toast({ title: "Answer not saved", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${detailUrl}/submit`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [detailUrl] });
+      toast({ title: "Self-assessment submitted", description: "Your coach can now compare it with their assessment." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Unable to submit self-assessment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleObservationChange = (behaviorId: number, observation: BehaviorObservation) => {
+    setObservations(prev => ({ ...prev, [behaviorId]: observation }));
+    updateScoreMutation.mutate({ behaviorId, observation });
+  };
+
+  const renderMessage = (message: string) => (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="Self-Assessment" showBack={true} onBack={() => setLocation("/coaching-history")} />
+      <div className="flex items-center justify-center pt-20 px-4">
+        <div className="text-lg text-gray-600 text-center">{message}</div>
+      </div>
+      <AppFooter />
+    </div>
+  );
+
+  if (isLoading) {
+    return renderMessage("Loading self-assessment...");
+  }
+
+  if (error || !detail) {
+    return renderMessage("Coaching session not found.");
+  }
+
+  const { assessment, steps, scoringPolicy } = detail;
+  const isCoachee = !!currentUser && currentUser.id === assessment.assesseeUserId;
+  const isSubmitted = selfAssessment?.status === "submitted";
+  const answeredCount = steps
+    .flatMap(step => step.substeps.flatMap(substep => substep.behaviors))
+    .filter(behavior => observations[behavior.id]).length;
+  const behaviorCount = steps.reduce(
+    (total, step) => total + step.substeps.reduce((sum, substep) => sum + substep.behaviors.length, 0),
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <AppHeader title="Self-Assessment" showBack={true} onBack={() => setLocation("/coaching-history")} />
+
+      <div className="max-w-4xl mx-auto px-3 sm:px-4 pt-20 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 break-words">
+            {assessment.title?.replace("Assessment for", "Coaching session for") || "Coaching Session"}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            {assessment.createdAt && <span>{format(new Date(assessment.createdAt), "MMM d, yyyy")}</span>}
+            {selfAssessment && (
+              <Badge variant={isSubmitted ? "default" : "secondary"}>
+                {isSubmitted ? "Submitted" : "Draft"}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {!selfAssessment ? (
+          <Card>
+            <CardContent className="p-8 text-center space-y-4">
+              {isCoachee ? (
+                <>
+                  <p className="text-gray-600">
+                    Rate your own call on the same behaviors your coach used. Your coach sees your answers once you submit,
+                    alongside a comparison with their assessment.
+                  </p>
+                  <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+                    {startMutation.isPending ? "Starting..." : "Start Self-Assessment"}
+                  </Button>
+                </>
+              ) : (
+                <p className="text-gray-500">The coachee hasn't submitted a self-assessment for this session yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : isSubmitted ? (
+          detail.coachScores && detail.coachStepScores && (
+            <SelfAssessmentComparison
+              steps={steps}
+              coachScores={detail.coachScores}
+              coachStepScores={detail.coachStepScores}
+              selfScores={detail.selfScores}
+              scoringPolicy={scoringPolicy}
+            />
+          )
+        ) : (
+          <>
+            <div className="space-y-4">
+              {steps.map(step => (
+                <AssessmentStep
+                  key={step.id}
+                  step={step}
+                  observations={observations}
+                  onObservationChange={handleObservationChange}
+                  scoringPolicy={scoringPolicy}
+                />
+              ))}
+            </div>
+
+            <Card>
+              <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-gray-600">
+                  {answeredCount} of {behaviorCount} behaviors rated. Once submitted, your answers can't be changed.
+                </p>
+                <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending || answeredCount === 0}>
+                  {submitMutation.isPending ? "Submitting..." : "Submit Self-Assessment"}
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AppFooter />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import SalesCoachHeader from "@/components/sales-coach-header";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export default function VerifyEmail() {
+  const [, setLocation] = useLocation();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setStatus("failed");
+      setMessage("This verification link is invalid.");
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          setStatus("failed");
+          setMessage(result.error || "This verification link is invalid or has expired.");
+          return;
+        }
+
+        // Keep a signed-in session in sync with the verified account
+        const storedUser = localStorage.getItem("current_user");
+        if (storedUser && JSON.parse(storedUser).id === result.user.id) {
+          localStorage.setItem("current_user", JSON.stringify({ ...JSON.parse(storedUser), ...result.user }));
+        }
+
+        setStatus("verified");
+        setMessage(`${result.user.email} is verified. Thanks!`);
+      } catch {
+        setStatus("failed");
+        setMessage("Unable to connect. Please try again.");
+      }
+    };
+
+    verify();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <SalesCoachHeader className="mb-4" showLogo={true} size="lg" />
+          <CardTitle>Verify Email Address</CardTitle>
+          <CardDescription>
+            {status === "verifying" ? "Verifying your email address..." : message}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "verified" && <CheckCircle className="mx-auto text-green-600" size={40} />}
+          {status === "failed" && <XCircle className="mx-auto text-red-600" size={40} />}
+          {status !== "verifying" && (
+            <Button className="w-full" onClick={() => setLocation(localStorage.getItem("auth_token") ? "/profile" : "/login")}>
+              Continue
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
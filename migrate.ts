@@ -1,5 +1,7 @@
 
 import { db } from "./server/db";
+import { storage } from "./server/storage";
+import { StepLevelCalculator, DEFAULT_SCORING_POLICY } from "./shared/stepLevelCalculator";
 
 async function migrate() {
   try {
@@ -14,6 +16,144 @@ async function migrate() {
       ADD COLUMN IF NOT EXISTS provider_id TEXT
     `);
     
+    // Roles: accounts that can log in were coaches; the oldest of them administers the app.
+    // The backfill only runs when the column is first added so later coachee logins keep their role.
+    const roleColumn = await db.execute(`
+      SELECT 1 FROM information_schema.columns 
+      WHERE table_name = 'users' AND column_name = 'role'
+    `);
+    if (roleColumn.rows.length === 0) {
+      await db.execute(`
+        ALTER TABLE users 
+        ADD COLUMN role TEXT NOT NULL DEFAULT 'coachee'
+      `);
+      await db.execute(`
+        UPDATE users 
+        SET role = 'coach' 
+        WHERE password_hash IS NOT NULL
+      `);
+      await db.execute(`
+        UPDATE users 
+        SET role = 'admin' 
+        WHERE id = (SELECT id FROM users WHERE password_hash IS NOT NULL ORDER BY created_at, id LIMIT 1)
+      `);
+    }
+    
+    // Self-service email changes and account deletion
+    await db.execute(`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS pending_email VARCHAR,
+      ADD COLUMN IF NOT EXISTS email_change_token TEXT,
+      ADD COLUMN IF NOT EXISTS email_change_token_expiry TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP
+    `);
+    
+    // Email verification for new registrations. Accounts that existed before verification
+    // was introduced are trusted so that enforcing it does not lock them out.
+    const verificationColumn = await db.execute(`
+      SELECT 1 FROM information_schema.columns 
+      WHERE table_name = 'users' AND column_name = 'email_verification_token'
+    `);
+    if (verificationColumn.rows.length === 0) {
+      await db.execute(`
+        ALTER TABLE users 
+        ADD COLUMN email_verification_token TEXT,
+        ADD COLUMN email_verification_token_expiry TIMESTAMP
+      `);
+      await db.execute(`
+        UPDATE users 
+        SET email_verified = true 
+        WHERE password_hash IS NOT NULL
+      `);
+    }
+    
+    // Language of the emails each user receives
+    await db.execute(`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en'
+    `);
+    
+    // Email invitations and the teams the invitee joins on acceptance
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS invitations (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR NOT NULL,
+        full_name VARCHAR NOT NULL,
+        role TEXT NOT NULL DEFAULT 'coachee',
+        language TEXT NOT NULL DEFAULT 'en',
+        token TEXT NOT NULL UNIQUE,
+        invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP NOT NULL,
+        accepted_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS invitation_teams (
+        id SERIAL PRIMARY KEY,
+        invitation_id INTEGER NOT NULL REFERENCES invitations(id) ON DELETE CASCADE,
+        team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+        UNIQUE (invitation_id, team_id)
+      )
+    `);
+    
+    // Signed-in devices with their rotating refresh tokens
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        previous_token_hash TEXT,
+        user_agent TEXT,
+        expires_at TIMESTAMP NOT NULL,
+        rotated_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    
+    // Brute-force protection: per-account lockout and an audit trail of attempts
+    await db.execute(`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP
+    `);
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        id SERIAL PRIMARY KEY,
+        kind TEXT NOT NULL,
+        email VARCHAR NOT NULL,
+        user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        ip_address TEXT,
+        success BOOLEAN NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS login_attempts_ip_address_idx ON login_attempts (ip_address, created_at)
+    `);
+    await db.execute(`
+      CREATE INDEX IF NOT EXISTS login_attempts_email_idx ON login_attempts (email, created_at)
+    `);
+    
+    // Two-factor authentication and the instance settings that can enforce it
+    await db.execute(`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+      ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS totp_recovery_codes JSONB,
+      ADD COLUMN IF NOT EXISTS totp_last_used_step INTEGER
+    `);
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    
     // Add assessee_name column to assessments table
     await db.execute(`
       ALTER TABLE assessments 
@@ -27,6 +167,240 @@ async function migrate() {
       WHERE assessee_name IS NULL
     `);
     
+    // Coachees are linked by user id. Existing sessions are matched on full name once, when the
+    // column is added; names shared by several users stay unlinked rather than guessing.
+    const assesseeUserColumn = await db.execute(`
+      SELECT 1 FROM information_schema.columns 
+      WHERE table_name = 'assessments' AND column_name = 'assessee_user_id'
+    `);
+    if (assesseeUserColumn.rows.length === 0) {
+      await db.execute(`
+        ALTER TABLE assessments 
+        ADD COLUMN assessee_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL
+      `);
+      await db.execute(`
+        UPDATE assessments a 
+        SET assessee_user_id = u.id 
+        FROM users u 
+        WHERE lower(trim(u.full_name)) = lower(trim(a.assessee_name)) 
+        AND (SELECT count(*) FROM users u2 WHERE lower(trim(u2.full_name)) = lower(trim(a.assessee_name))) = 1
+      `);
+    }
+    
+    // Framework rows are archived rather than deleted so historic scores keep resolving
+    await db.execute(`
+      ALTER TABLE steps 
+      ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT false
+    `);
+    await db.execute(`
+      ALTER TABLE substeps 
+      ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT false
+    `);
+    await db.execute(`
+      ALTER TABLE behaviors 
+      ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT false
+    `);
+    
+    // Scoring weights; existing rows keep counting equally
+    await db.execute(`
+      ALTER TABLE steps 
+      ADD COLUMN IF NOT EXISTS weight REAL NOT NULL DEFAULT 1
+    `);
+    await db.execute(`
+      ALTER TABLE behaviors 
+      ADD COLUMN IF NOT EXISTS weight REAL NOT NULL DEFAULT 1
+    `);
+    
+    // Named frameworks: existing steps move into a default framework
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS frameworks (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        archived BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    // NULL scoring policy means the calculator defaults apply
+    await db.execute(`
+      ALTER TABLE frameworks 
+      ADD COLUMN IF NOT EXISTS scoring_policy JSONB
+    `);
+    await db.execute(`
+      INSERT INTO frameworks (name, description) 
+      SELECT 'Sales Coaching', 'Seven-step sales call model from preparation to follow up' 
+      WHERE NOT EXISTS (SELECT 1 FROM frameworks)
+    `);
+    const defaultFramework = await storage.getDefaultFramework();
+    if (!defaultFramework) {
+      throw new Error("No active framework to migrate existing data into");
+    }
+    
+    await db.execute(`
+      ALTER TABLE steps 
+      ADD COLUMN IF NOT EXISTS framework_id INTEGER REFERENCES frameworks(id)
+    `);
+    await db.execute(`
+      UPDATE steps 
+      SET framework_id = ${defaultFramework.id} 
+      WHERE framework_id IS NULL
+    `);
+    await db.execute(`
+      ALTER TABLE steps 
+      ALTER COLUMN framework_id SET NOT NULL
+    `);
+    
+    // Framework versions: assessments pin the snapshot they were scored against
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS framework_versions (
+        id SERIAL PRIMARY KEY,
+        framework_id INTEGER REFERENCES frameworks(id),
+        version INTEGER NOT NULL,
+        snapshot JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    await db.execute(`
+      ALTER TABLE framework_versions 
+      ADD COLUMN IF NOT EXISTS framework_id INTEGER REFERENCES frameworks(id)
+    `);
+    await db.execute(`
+      UPDATE framework_versions 
+      SET framework_id = ${defaultFramework.id} 
+      WHERE framework_id IS NULL
+    `);
+    await db.execute(`
+      ALTER TABLE framework_versions 
+      ALTER COLUMN framework_id SET NOT NULL
+    `);
+    // Version numbers are sequential per framework rather than global
+    await db.execute(`
+      ALTER TABLE framework_versions 
+      DROP CONSTRAINT IF EXISTS framework_versions_version_key
+    `);
+    await db.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS framework_versions_framework_id_version_unique 
+      ON framework_versions (framework_id, version)
+    `);
+    
+    await db.execute(`
+      ALTER TABLE assessments 
+      ADD COLUMN IF NOT EXISTS framework_id INTEGER REFERENCES frameworks(id),
+      ADD COLUMN IF NOT EXISTS framework_version_id INTEGER REFERENCES framework_versions(id)
+    `);
+    await db.execute(`
+      UPDATE assessments 
+      SET framework_id = ${defaultFramework.id} 
+      WHERE framework_id IS NULL
+    `);
+    
+    // Existing assessments have no recorded rubric, so they pin the current framework
+    const currentVersion = await storage.ensureCurrentFrameworkVersion(defaultFramework.id);
+    await db.execute(`
+      UPDATE assessments 
+      SET framework_version_id = ${currentVersion.id} 
+      WHERE framework_version_id IS NULL
+    `);
+    
+    // Behaviors are scored as observed / not observed / not applicable. The checked flag is kept
+    // in sync for older clients; existing rows are converted once, when the column is added, so only
+    // rows written before observations existed are touched. An unchecked box only meant the behavior
+    // wasn't marked, so those rows stay unset.
+    const observationColumn = await db.execute(`
+      SELECT 1 FROM information_schema.columns 
+      WHERE table_name = 'assessment_scores' AND column_name = 'observation'
+    `);
+    if (observationColumn.rows.length === 0) {
+      await db.execute(`
+        ALTER TABLE assessment_scores 
+        ADD COLUMN observation TEXT DEFAULT 'not_observed'
+      `);
+      await db.execute(`
+        UPDATE assessment_scores 
+        SET observation = CASE WHEN checked THEN 'observed' END
+      `);
+    }
+    
+    // Focused sessions only cover some of the framework's steps
+    await db.execute(`
+      ALTER TABLE assessments 
+      ADD COLUMN IF NOT EXISTS focus_step_ids JSONB
+    `);
+    
+    // Evidence notes per behavior and per step. A note can be written before the behavior is
+    // marked, so observation becomes optional on assessment_scores.
+    await db.execute(`
+      ALTER TABLE assessment_scores 
+      ADD COLUMN IF NOT EXISTS note TEXT,
+      ALTER COLUMN observation DROP NOT NULL
+    `);
+    await db.execute(`
+      ALTER TABLE step_scores 
+      ADD COLUMN IF NOT EXISTS note TEXT
+    `);
+    
+    // Coachee self-assessments, one per coach assessment
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS self_assessments (
+        id SERIAL PRIMARY KEY,
+        assessment_id INTEGER NOT NULL UNIQUE REFERENCES assessments(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'draft',
+        submitted_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS self_assessment_scores (
+        id SERIAL PRIMARY KEY,
+        self_assessment_id INTEGER NOT NULL REFERENCES self_assessments(id) ON DELETE CASCADE,
+        behavior_id INTEGER NOT NULL REFERENCES behaviors(id),
+        observation TEXT NOT NULL,
+        UNIQUE (self_assessment_id, behavior_id)
+      )
+    `);
+    
+    // Self-assessments created before the cascade was added would block deleting the coachee
+    await db.execute(`
+      ALTER TABLE self_assessments 
+      DROP CONSTRAINT IF EXISTS self_assessments_assessment_id_fkey,
+      ADD CONSTRAINT self_assessments_assessment_id_fkey FOREIGN KEY (assessment_id) REFERENCES assessments(id) ON DELETE CASCADE,
+      DROP CONSTRAINT IF EXISTS self_assessments_user_id_fkey,
+      ADD CONSTRAINT self_assessments_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    `);
+    await db.execute(`
+      ALTER TABLE self_assessment_scores 
+      DROP CONSTRAINT IF EXISTS self_assessment_scores_self_assessment_id_fkey,
+      ADD CONSTRAINT self_assessment_scores_self_assessment_id_fkey FOREIGN KEY (self_assessment_id) REFERENCES self_assessments(id) ON DELETE CASCADE
+    `);
+    
+    // One-off data migrations record themselves so a rerun never repeats them
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS data_migrations (
+        name TEXT PRIMARY KEY,
+        ran_at TIMESTAMP DEFAULT now()
+      )
+    `);
+    
+    // The client used to apply hand-tuned point thresholds to steps by title. Frameworks without
+    // threshold rules get them as id-keyed point rules on the steps they matched, so badges keep their level.
+    const legacyThresholds = await db.execute(`
+      SELECT 1 FROM data_migrations WHERE name = 'legacy_title_thresholds'
+    `);
+    if (legacyThresholds.rows.length === 0) {
+      for (const framework of await storage.getAllFrameworks()) {
+        if (framework.scoringPolicy?.thresholdRules?.length) continue;
+        const thresholdRules = StepLevelCalculator.getLegacyThresholdRules(await storage.getAllSteps(framework.id));
+        if (thresholdRules.length === 0) continue;
+        await storage.updateFramework(framework.id, {
+          scoringPolicy: { ...(framework.scoringPolicy ?? DEFAULT_SCORING_POLICY), thresholdRules },
+        });
+      }
+      await db.execute(`
+        INSERT INTO data_migrations (name) VALUES ('legacy_title_thresholds')
+      `);
+    }
+    
     console.log("Migration completed successfully!");
   } catch (error) {
     console.error("Migration failed:", error);
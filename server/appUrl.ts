@@ -0,0 +1,10 @@
+/**
+ * Public address of the app, used for links in emails and as the OAuth redirect base.
+ * APP_BASE_URL wins; on Replit the dev domain is used, locally the dev server.
+ */
+export function getAppBaseUrl(): string {
+  if (process.env.APP_BASE_URL) {
+    return process.env.APP_BASE_URL.replace(/\/$/, '');
+  }
+  return process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : 'http://localhost:5000';
+}
@@ -3,13 +3,57 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { db } from './db';
-import { eq } from 'drizzle-orm';
-import { users, type User, type UserRegistration, type UserLogin } from '@shared/schema';
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import { users, authSessions, type User, type UserRole, type UserRegistration, type UserLogin } from '@shared/schema';
+import type { ProviderProfile, PendingLogin } from './oidc';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret-key';
+const JWT_SECRET = process.env.JWT_SECRET;
 const SALT_ROUNDS = 10;
 
+const ACCESS_TOKEN_LIFETIME = '15m';
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 3600000; // 30 days, extended on every refresh
+const TWO_FACTOR_CHALLENGE_LIFETIME = '5m';
+const PROVIDER_LOGIN_LIFETIME = '10m';
+// Another tab may still present a refresh token that was rotated moments ago
+const REFRESH_ROTATION_GRACE_MS = 60 * 1000;
+
+/**
+ * Tokens for a newly signed-in device. The refresh token is only ever returned here and on rotation.
+ */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of a refresh. refreshToken is absent when a just-rotated token was replayed within the
+ * grace period: the caller keeps the newer token it already holds.
+ */
+export interface RefreshedSession {
+  user: User;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
 export class AuthService {
+  /**
+   * Strips the password hash, one-time tokens and two-factor secrets before a user is sent to a client
+   */
+  static toPublicUser(user: User): User {
+    const {
+      passwordHash: _,
+      resetToken: __,
+      emailChangeToken: ___,
+      emailVerificationToken: ____,
+      totpSecret: _____,
+      totpRecoveryCodes: ______,
+      ...publicUser
+    } = user;
+    return publicUser as User;
+  }
+
   static async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, SALT_ROUNDS);
   }
@@ -18,18 +62,182 @@ export class AuthService {
     return bcrypt.compare(password, hash);
   }
 
-  static generateToken(userId: number): string {
-    return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' });
+  /**
+   * Refuses to run with a missing, placeholder or guessable JWT secret; called before the server starts
+   */
+  static assertJwtSecretConfigured() {
+    if (!JWT_SECRET || JWT_SECRET === 'your-jwt-secret-key' || JWT_SECRET.length < 32) {
+      throw new Error('JWT_SECRET must be set to a random value of at least 32 characters (e.g. `openssl rand -hex 32`)');
+    }
+  }
+
+  private static getJwtSecret(): string {
+    this.assertJwtSecretConfigured();
+    return JWT_SECRET!;
+  }
+
+  static generateToken(userId: number, sessionId: number): string {
+    return jwt.sign({ userId, sessionId }, this.getJwtSecret(), { expiresIn: ACCESS_TOKEN_LIFETIME });
+  }
+
+  static verifyToken(token: string): { userId: number; sessionId: number } | null {
+    try {
+      const decoded = jwt.verify(token, this.getJwtSecret()) as { userId: number; sessionId?: number };
+      // Tokens issued before sessions existed carry no session and can't be revoked
+      if (typeof decoded.sessionId !== 'number') return null;
+      return { userId: decoded.userId, sessionId: decoded.sessionId };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Proof that the password step of a two-factor sign-in succeeded; exchanged for a session
+   * together with a code. It carries no session, so it is never accepted as an access token.
+   */
+  static generateTwoFactorChallenge(userId: number): string {
+    return jwt.sign({ userId, purpose: 'two-factor' }, this.getJwtSecret(), { expiresIn: TWO_FACTOR_CHALLENGE_LIFETIME });
+  }
+
+  static verifyTwoFactorChallenge(token: string): { userId: number } | null {
+    try {
+      const decoded = jwt.verify(token, this.getJwtSecret()) as { userId: number; purpose?: string };
+      return decoded.purpose === 'two-factor' ? { userId: decoded.userId } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Signs the state of a Google or Apple sign-in so it can be kept in the browser that started it
+   */
+  static signPendingLogin(pending: PendingLogin): string {
+    return jwt.sign({ ...pending, purpose: 'provider-login' }, this.getJwtSecret(), { expiresIn: PROVIDER_LOGIN_LIFETIME });
   }
 
-  static verifyToken(token: string): { userId: number } | null {
+  static verifyPendingLogin(token: string): PendingLogin | null {
     try {
-      return jwt.verify(token, JWT_SECRET) as { userId: number };
+      const decoded = jwt.verify(token, this.getJwtSecret()) as PendingLogin & { purpose?: string };
+      if (decoded.purpose !== 'provider-login') return null;
+      const { provider, state, codeVerifier, nonce } = decoded;
+      return { provider, state, codeVerifier, nonce };
     } catch {
       return null;
     }
   }
 
+  private static hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Starts a session for a device that just signed in
+   */
+  static async createSession(userId: number, userAgent?: string): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS);
+
+    const [session] = await db.insert(authSessions).values({
+      userId,
+      refreshTokenHash: this.hashRefreshToken(refreshToken),
+      userAgent: userAgent?.slice(0, 500) || null,
+      expiresAt
+    }).returning();
+
+    return { accessToken: this.generateToken(userId, session.id), refreshToken, expiresAt };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and rotates the refresh token.
+   * Presenting a token that was already rotated (outside the grace period) means it was copied,
+   * so the whole session is revoked.
+   */
+  static async refreshSession(refreshToken: string): Promise<RefreshedSession | null> {
+    const tokenHash = this.hashRefreshToken(refreshToken);
+    const now = new Date();
+
+    const [current] = await db.select().from(authSessions).where(eq(authSessions.refreshTokenHash, tokenHash)).limit(1);
+    const session = current ?? (await db.select().from(authSessions).where(eq(authSessions.previousTokenHash, tokenHash)).limit(1))[0];
+    if (!session || session.revokedAt || session.expiresAt < now) {
+      return null;
+    }
+
+    const user = await this.getUserById(session.userId);
+    if (!user || user.deletedAt) {
+      return null;
+    }
+
+    if (!current) {
+      if (session.rotatedAt && now.getTime() - session.rotatedAt.getTime() < REFRESH_ROTATION_GRACE_MS) {
+        return { user, accessToken: this.generateToken(user.id, session.id) };
+      }
+      console.warn(`AuthService: rotated refresh token reused, revoking session ${session.id}`);
+      await this.revokeSession(session.id);
+      return null;
+    }
+
+    const nextRefreshToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(now.getTime() + REFRESH_TOKEN_LIFETIME_MS);
+
+    // Matching on the old hash makes concurrent refreshes rotate only once
+    const [rotated] = await db.update(authSessions)
+      .set({
+        refreshTokenHash: this.hashRefreshToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        expiresAt
+      })
+      .where(and(eq(authSessions.id, session.id), eq(authSessions.refreshTokenHash, tokenHash)))
+      .returning();
+    if (!rotated) {
+      return { user, accessToken: this.generateToken(user.id, session.id) };
+    }
+
+    return { user, accessToken: this.generateToken(user.id, session.id), refreshToken: nextRefreshToken, expiresAt };
+  }
+
+  static async isSessionActive(sessionId: number): Promise<boolean> {
+    const [session] = await db.select({ expiresAt: authSessions.expiresAt, revokedAt: authSessions.revokedAt })
+      .from(authSessions)
+      .where(eq(authSessions.id, sessionId))
+      .limit(1);
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  static async revokeSession(sessionId: number): Promise<void> {
+    await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authSessions.id, sessionId), isNull(authSessions.revokedAt)));
+  }
+
+  static async revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+    await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(authSessions.refreshTokenHash, this.hashRefreshToken(refreshToken)), isNull(authSessions.revokedAt)));
+  }
+
+  /**
+   * Signs the user out everywhere, optionally keeping the session the request came from
+   */
+  static async revokeAllSessions(userId: number, exceptSessionId?: number): Promise<void> {
+    const conditions = [eq(authSessions.userId, userId), isNull(authSessions.revokedAt)];
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(authSessions.id, exceptSessionId));
+    }
+    await db.update(authSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  /**
+   * The first account on a fresh install becomes the administrator. Everyone else starts as a
+   * coachee; an admin promotes coaches from user management.
+   */
+  private static async getRoleForNewAccount(): Promise<UserRole> {
+    const [existingAdmin] = await db.select({ id: users.id }).from(users).where(eq(users.role, 'admin')).limit(1);
+    return existingAdmin ? 'coachee' : 'admin';
+  }
+
   static async register(data: UserRegistration): Promise<User> {
     // Check if user already exists
     const existingUser = await db.select().from(users).where(eq(users.email, data.email)).limit(1);
@@ -46,12 +254,11 @@ export class AuthService {
       email: data.email,
       team: data.team || null,
       passwordHash,
-      provider: 'email'
+      provider: 'email',
+      role: await this.getRoleForNewAccount()
     }).returning();
 
-    // Remove password hash from response
-    const { passwordHash: _, ...userWithoutPassword } = newUser;
-    return userWithoutPassword as User;
+    return this.toPublicUser(newUser);
   }
 
   static async login(data: UserLogin): Promise<User | null> {
@@ -67,17 +274,65 @@ export class AuthService {
       return null;
     }
 
-    // Remove password hash from response
-    const { passwordHash: _, ...userWithoutPassword } = user;
-    return userWithoutPassword as User;
+    return this.toPublicUser(user);
+  }
+
+  /**
+   * Signs in with an identity from Google or Apple. A first sign-in is linked to an existing
+   * account with the same email only when the provider has verified that address; otherwise
+   * a new account is created the same way registration does.
+   */
+  static async loginWithProvider(profile: ProviderProfile): Promise<User> {
+    const [linkedUser] = await db.select()
+      .from(users)
+      .where(and(eq(users.provider, profile.provider), eq(users.providerId, profile.providerId)))
+      .limit(1);
+    if (linkedUser) {
+      if (linkedUser.deletedAt) {
+        throw new Error('Account has been deleted');
+      }
+      return this.toPublicUser(linkedUser);
+    }
+
+    const [existingUser] = await db.select().from(users).where(eq(users.email, profile.email)).limit(1);
+    if (existingUser) {
+      if (!profile.emailVerified) {
+        throw new Error('Email address is not verified with the provider');
+      }
+      if (existingUser.provider && existingUser.provider !== 'email' && existingUser.providerId) {
+        throw new Error('Account is linked to a different sign-in provider');
+      }
+
+      const [updatedUser] = await db.update(users)
+        .set({
+          provider: profile.provider,
+          providerId: profile.providerId,
+          emailVerified: true,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, existingUser.id))
+        .returning();
+
+      return this.toPublicUser(updatedUser);
+    }
+
+    const [newUser] = await db.insert(users).values({
+      fullName: profile.fullName,
+      email: profile.email,
+      provider: profile.provider,
+      providerId: profile.providerId,
+      emailVerified: profile.emailVerified,
+      role: await this.getRoleForNewAccount()
+    }).returning();
+
+    return this.toPublicUser(newUser);
   }
 
   static async getUserById(id: number): Promise<User | null> {
     const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
     if (!user) return null;
 
-    const { passwordHash: _, ...userWithoutPassword } = user;
-    return userWithoutPassword as User;
+    return this.toPublicUser(user);
   }
 
   static async generateResetToken(email: string): Promise<string | null> {
@@ -130,14 +385,150 @@ export class AuthService {
       })
       .where(eq(users.id, user.id));
 
+    // Whoever knew the old password is signed out
+    await this.revokeAllSessions(user.id);
+
     return true;
   }
 
+  /**
+   * Replaces the password after checking the current one; false when it does not match
+   * or the account has no password (e.g. social login). Other signed-in devices are signed out.
+   */
+  static async changePassword(userId: number, currentPassword: string, newPassword: string, currentSessionId?: number): Promise<boolean> {
+    if (!(await this.verifyPassword(userId, currentPassword))) {
+      return false;
+    }
+
+    const passwordHash = await this.hashPassword(newPassword);
+    await db.update(users)
+      .set({
+        passwordHash,
+        resetToken: null,
+        resetTokenExpiry: null,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId));
+
+    await this.revokeAllSessions(userId, currentSessionId);
+
+    return true;
+  }
+
+  static async hasPassword(userId: number): Promise<boolean> {
+    const [user] = await db.select({ passwordHash: users.passwordHash }).from(users).where(eq(users.id, userId)).limit(1);
+    return !!user?.passwordHash;
+  }
+
+  static async verifyPassword(userId: number, password: string): Promise<boolean> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user || !user.passwordHash) {
+      return false;
+    }
+    return this.comparePassword(password, user.passwordHash);
+  }
+
+  /**
+   * Records the new address as pending and returns the token that confirms it.
+   * The login email only changes once the new address is confirmed.
+   */
+  static async requestEmailChange(userId: number, newEmail: string): Promise<string> {
+    const [existingUser] = await db.select({ id: users.id }).from(users).where(eq(users.email, newEmail)).limit(1);
+    if (existingUser) {
+      throw new Error('Email already in use');
+    }
+
+    const emailChangeToken = crypto.randomBytes(32).toString('hex');
+    const expiryTime = new Date(Date.now() + 24 * 3600000); // 24 hours from now
+
+    await db.update(users)
+      .set({
+        pendingEmail: newEmail,
+        emailChangeToken,
+        emailChangeTokenExpiry: expiryTime
+      })
+      .where(eq(users.id, userId));
+
+    return emailChangeToken;
+  }
+
+  static async confirmEmailChange(token: string): Promise<User | null> {
+    const [user] = await db.select()
+      .from(users)
+      .where(eq(users.emailChangeToken, token))
+      .limit(1);
+
+    if (!user || !user.pendingEmail || !user.emailChangeTokenExpiry || new Date() > user.emailChangeTokenExpiry) {
+      return null;
+    }
+
+    // The address may have been registered by someone else since the change was requested
+    const [existingUser] = await db.select({ id: users.id }).from(users).where(eq(users.email, user.pendingEmail)).limit(1);
+    if (existingUser) {
+      throw new Error('Email already in use');
+    }
+
+    const [updatedUser] = await db.update(users)
+      .set({
+        email: user.pendingEmail,
+        emailVerified: true,
+        emailVerificationToken: null,
+        emailVerificationTokenExpiry: null,
+        pendingEmail: null,
+        emailChangeToken: null,
+        emailChangeTokenExpiry: null,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return this.toPublicUser(updatedUser);
+  }
+
+  /**
+   * Issues a fresh 24 hour verification token for the account's current email, replacing any earlier one
+   */
+  static async createEmailVerificationToken(userId: number): Promise<string> {
+    const emailVerificationToken = crypto.randomBytes(32).toString('hex');
+    const expiryTime = new Date(Date.now() + 24 * 3600000); // 24 hours from now
+
+    await db.update(users)
+      .set({
+        emailVerificationToken,
+        emailVerificationTokenExpiry: expiryTime
+      })
+      .where(eq(users.id, userId));
+
+    return emailVerificationToken;
+  }
+
+  static async verifyEmail(token: string): Promise<User | null> {
+    const [user] = await db.select()
+      .from(users)
+      .where(eq(users.emailVerificationToken, token))
+      .limit(1);
+
+    if (!user || !user.emailVerificationTokenExpiry || new Date() > user.emailVerificationTokenExpiry) {
+      return null;
+    }
+
+    const [updatedUser] = await db.update(users)
+      .set({
+        emailVerified: true,
+        emailVerificationToken: null,
+        emailVerificationTokenExpiry: null,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return this.toPublicUser(updatedUser);
+  }
+
   static async getUserByEmail(email: string): Promise<User | null> {
     const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
     if (!user) return null;
 
-    const { passwordHash: _, ...userWithoutPassword } = user;
-    return userWithoutPassword as User;
+    return this.toPublicUser(user);
   }
 }
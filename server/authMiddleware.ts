@@ -0,0 +1,161 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthService } from './auth';
+import { storage } from './storage';
+import { TwoFactorService } from './twoFactor';
+import type { User, UserRole, Assessment } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authSessionId?: number;
+    }
+    interface Locals {
+      assessment?: Assessment;
+    }
+  }
+}
+
+/**
+ * Resolves the bearer token to a user and attaches it as req.user (and its session as req.authSessionId).
+ * Responds 401 when the token is missing, invalid, expired, signed out or belongs to a deleted user.
+ */
+export const requireAuth: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const decoded = AuthService.verifyToken(authHeader.substring(7));
+  if (!decoded) {
+    return res.status(401).json({ message: 'Invalid or expired token' });
+  }
+
+  try {
+    if (!(await AuthService.isSessionActive(decoded.sessionId))) {
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+
+    const user = await AuthService.getUserById(decoded.userId);
+    if (!user || user.deletedAt) {
+      return res.status(401).json({ message: 'Account no longer exists' });
+    }
+    // While two-factor authentication is enforced, admins without it can only reach /api/auth/* to enroll
+    if (!user.totpEnabled && !req.originalUrl.startsWith('/api/auth/') && (await TwoFactorService.isRequiredFor(user))) {
+      return res.status(403).json({ message: 'Set up two-factor authentication to continue', code: 'TWO_FACTOR_REQUIRED' });
+    }
+
+    req.user = user;
+    req.authSessionId = decoded.sessionId;
+    next();
+  } catch (error: any) {
+    console.error('Authentication error:', error);
+    res.status(500).json({ message: 'Failed to authenticate request', error: error.message });
+  }
+};
+
+/**
+ * Authenticates the request and rejects it with 403 unless the user has one of the given roles
+ */
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireAuth(req, res, (err?: unknown) => {
+      if (err) return next(err);
+      if (!roles.includes(req.user!.role)) {
+        return res.status(403).json({ message: 'You do not have permission to perform this action' });
+      }
+      next();
+    });
+}
+
+/**
+ * Rejects users who have not verified their email address when REQUIRE_EMAIL_VERIFICATION is "true".
+ * Runs after requireAuth or requireRole.
+ */
+export const requireVerifiedEmail: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !req.user?.emailVerified) {
+    return res.status(403).json({ message: 'Please verify your email address to continue', code: 'EMAIL_NOT_VERIFIED' });
+  }
+  next();
+};
+
+export class AccessPolicy {
+  /**
+   * Admins see everything, coaches see the sessions they ran, coachees see sessions about them
+   */
+  static canViewAssessment(user: User, assessment: Assessment): boolean {
+    if (user.role === 'admin') return true;
+    if (user.role === 'coach') return assessment.userId === user.id;
+    return assessment.assesseeUserId === user.id;
+  }
+
+  /**
+   * Only the coach who ran a session (or an admin) may change it
+   */
+  static canEditAssessment(user: User, assessment: Assessment): boolean {
+    if (user.role === 'admin') return true;
+    return user.role === 'coach' && assessment.userId === user.id;
+  }
+
+  /**
+   * Only the coachee a session was about may fill in a self-assessment for it
+   */
+  static canSelfAssess(user: User, assessment: Assessment): boolean {
+    return assessment.assesseeUserId === user.id;
+  }
+
+  /**
+   * The coachee only sees the coach's ratings once their own self-assessment is submitted,
+   * so they rate the call without anchoring on the coach's answers
+   */
+  static async canViewCoachScores(user: User, assessment: Assessment): Promise<boolean> {
+    if (!this.canSelfAssess(user, assessment)) return true;
+    const selfAssessment = await storage.getSelfAssessment(assessment.id);
+    return selfAssessment?.status === 'submitted';
+  }
+
+  /**
+   * Admins see every account, users see their own, and coaches see coachees they have run a session with
+   */
+  static async canViewUser(user: User, userId: number): Promise<boolean> {
+    if (user.role === 'admin' || user.id === userId) return true;
+    if (user.role !== 'coach') return false;
+    const assessments = await storage.getAssessmentsForCoachee(userId);
+    return assessments.some(assessment => assessment.userId === user.id);
+  }
+
+  static filterAssessments(user: User, assessments: Assessment[]): Assessment[] {
+    return assessments.filter(assessment => this.canViewAssessment(user, assessment));
+  }
+}
+
+/**
+ * Authenticates the request, loads the assessment named by the route parameter into
+ * res.locals.assessment and checks the caller may view or edit it
+ */
+export function requireAssessmentAccess(access: 'view' | 'edit', param = 'id'): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireAuth(req, res, async (err?: unknown) => {
+      if (err) return next(err);
+      try {
+        const assessmentId = parseInt(req.params[param]);
+        const assessment = await storage.getAssessment(assessmentId);
+        if (!assessment) {
+          return res.status(404).json({ message: 'Assessment not found' });
+        }
+
+        const allowed = access === 'edit'
+          ? AccessPolicy.canEditAssessment(req.user!, assessment)
+          : AccessPolicy.canViewAssessment(req.user!, assessment);
+        if (!allowed) {
+          return res.status(403).json({ message: 'You do not have access to this assessment' });
+        }
+
+        res.locals.assessment = assessment;
+        next();
+      } catch (error: any) {
+        console.error('Assessment access check failed:', error);
+        res.status(500).json({ message: 'Failed to check assessment access', error: error.message });
+      }
+    });
+}
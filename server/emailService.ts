@@ -1,10 +1,6 @@
-import sgMail from '@sendgrid/mail';
-
-if (!process.env.SENDGRID_API_KEY) {
-  throw new Error("SENDGRID_API_KEY environment variable must be set");
-}
-
-sgMail.setApiKey(process.env.SENDGRID_API_KEY);
+import { createEmailTransport, OutboxTransport, type EmailTransport, type EmailAttachment } from './emailTransport';
+import { EmailTemplates, type EmailTemplateId, type EmailVariables } from './emailTemplates';
+import { getAppBaseUrl } from './appUrl';
 
 interface EmailParams {
   to: string;
@@ -15,136 +11,178 @@ interface EmailParams {
   html?: string;
 }
 
+interface AssessmentReportParams {
+  to: string;
+  cc?: string[];
+  coacheeName: string;
+  coachName: string;
+  coachEmail: string;
+  assessmentTitle: string;
+  report: EmailAttachment;
+  language?: string | null; // The coachee's email language
+}
+
 export class EmailService {
   private static fromEmail = process.env.SENDGRID_FROM_EMAIL || 'salescoach@akticon.net';
-  
-  // Enhanced email delivery with better authentication
-  private static getOptimalSenderConfig(recipientEmail: string): {
-    from: string | { email: string; name: string };
-    headers: { [key: string]: string };
-  } {
-    const domain = recipientEmail.split('@')[1]?.toLowerCase();
-    
-    const baseHeaders: { [key: string]: string } = {
-      'X-Priority': 'Normal',
-      'X-MSMail-Priority': 'Normal'
-    };
-    
-    // Special handling for problematic domains
-    if (domain === 'outlook.com' || domain === 'hotmail.com' || domain?.includes('outlook')) {
-      return {
-        from: {
-          email: this.fromEmail,
-          name: 'SalesCoach Password Reset'
-        },
-        headers: {
-          ...baseHeaders,
-          'List-Unsubscribe': `<mailto:${this.fromEmail}?subject=unsubscribe>`,
-          'X-Entity-ID': `password-reset-${Date.now()}`
-        }
-      };
+  private static transport: EmailTransport | null = null;
+
+  private static getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createEmailTransport();
     }
-    
-    // Default configuration for other providers
-    return {
-      from: this.fromEmail,
-      headers: {
-        'X-Priority': '1',
-        'X-MSMail-Priority': 'High',
-        'Importance': 'high'
-      }
-    };
+    return this.transport;
+  }
+
+  /**
+   * Builds the transport up front so a missing or broken email configuration stops the server
+   * from starting; called before the server starts
+   */
+  static assertTransportConfigured() {
+    this.getTransport();
+  }
+
+  /**
+   * Replaces the configured transport, e.g. with an OutboxTransport for local testing
+   */
+  static setTransport(transport: EmailTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * The local outbox when emails are being written to disk instead of delivered
+   */
+  static getOutbox(): OutboxTransport | null {
+    const transport = this.getTransport();
+    return transport instanceof OutboxTransport ? transport : null;
+  }
+  
+  /**
+   * Renders a template in the recipient's language and sends it from the SalesCoach address
+   */
+  static async sendTemplate(
+    templateId: EmailTemplateId,
+    to: string,
+    language: string | null | undefined,
+    variables: EmailVariables,
+    options: { cc?: string[]; replyTo?: string; attachments?: EmailAttachment[] } = {}
+  ): Promise<string> {
+    const email = EmailTemplates.render(templateId, language, variables);
+    return this.getTransport().send({
+      to,
+      cc: options.cc,
+      from: { email: this.fromEmail, name: 'SalesCoach' },
+      replyTo: options.replyTo,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      attachments: options.attachments,
+    });
   }
 
   static async sendPasswordResetEmail(
     userEmail: string,
     resetToken: string,
-    userName: string
+    userName: string,
+    language?: string | null
   ): Promise<boolean> {
     try {
-      const baseUrl = process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : 'http://localhost:5000';
-      const resetUrl = `${baseUrl}/reset-password?token=${resetToken}`;
-      
-      // Get optimized sender configuration based on recipient domain
-      const senderConfig = this.getOptimalSenderConfig(userEmail);
-      
-      const emailBody = {
-        text: `Hello ${userName},\n\nYou requested to reset your password for SalesCoach.\n\nClick the link below to reset your password:\n${resetUrl}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.\n\nBest regards,\nThe SalesCoach Team`,
-        html: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <div style="text-align: center; margin-bottom: 30px;">
-              <h1 style="color: #2563eb; margin: 0;">SalesCoach</h1>
-            </div>
-            <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Password Reset Request</h2>
-            <p style="font-size: 16px; line-height: 1.5;">Hello ${userName},</p>
-            <p style="font-size: 16px; line-height: 1.5;">We received a request to reset your password for your SalesCoach account.</p>
-            <div style="text-align: center; margin: 40px 0;">
-              <a href="${resetUrl}" style="background-color: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">Reset Your Password</a>
-            </div>
-            <p style="font-size: 14px; color: #666; border: 1px solid #e5e7eb; padding: 15px; border-radius: 6px; background-color: #f9fafb;">
-              <strong>Security Note:</strong> This link will expire in 1 hour for your security. If you didn't request this reset, you can safely ignore this email.
-            </p>
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; font-size: 14px; color: #6b7280;">
-              <p>Best regards,<br>The SalesCoach Team</p>
-            </div>
-          </div>
-        `
-      };
-
-      const result = await sgMail.send({
-        to: userEmail,
-        from: senderConfig.from,
-        subject: 'SalesCoach - Password Reset Request',
-        text: emailBody.text,
-        html: emailBody.html,
-        headers: senderConfig.headers,
-        trackingSettings: {
-          clickTracking: { enable: false },
-          openTracking: { enable: false },
-          subscriptionTracking: { enable: false }
-        },
-        mailSettings: {
-          sandboxMode: { enable: false }
-        }
-      });
-      
-      const messageId = result[0]?.headers?.['x-message-id'] || 'unknown';
+      const resetUrl = `${getAppBaseUrl()}/reset-password?token=${resetToken}`;
+      const messageId = await this.sendTemplate('password-reset', userEmail, language, { fullName: userName, resetUrl });
+
       console.log(`Password reset email sent to ${userEmail} - Message ID: ${messageId}`);
-      console.log('SendGrid status code:', result[0]?.statusCode);
-      console.log('Email details:', {
-        to: userEmail,
-        from: this.fromEmail,
-        subject: 'Reset Your SalesCoach Password',
-        messageId: messageId,
-        timestamp: new Date().toISOString()
-      });
-      
       return true;
     } catch (error: any) {
-      console.error('SendGrid email error:', error);
-      if (error.response && error.response.body && error.response.body.errors) {
-        console.error('SendGrid error details:', JSON.stringify(error.response.body.errors, null, 2));
-      }
-      if (error.code) {
-        console.error('SendGrid error code:', error.code);
-      }
+      console.error('Password reset email error:', error);
       return false;
     }
   }
 
   static async sendEmail(params: EmailParams): Promise<boolean> {
     try {
-      await sgMail.send({
+      await this.getTransport().send({
         to: params.to,
         from: params.from || this.fromEmail,
+        replyTo: params.replyTo,
         subject: params.subject,
         text: params.text || '',
         html: params.html || '',
       });
       return true;
     } catch (error) {
-      console.error('SendGrid email error:', error);
+      console.error('Email delivery error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends the link that verifies a newly registered email address
+   */
+  static async sendVerificationEmail(userEmail: string, token: string, userName: string, language?: string | null): Promise<boolean> {
+    try {
+      const verifyUrl = `${getAppBaseUrl()}/verify-email?token=${token}`;
+      const messageId = await this.sendTemplate('email-verification', userEmail, language, { fullName: userName, verifyUrl });
+
+      console.log(`Verification email sent to ${userEmail} - Message ID: ${messageId}`);
+      return true;
+    } catch (error) {
+      console.error('Verification email error:', error);
       return false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Sends an invitation with the link where the invitee sets their password
+   */
+  static async sendInvitationEmail(email: string, token: string, fullName: string, inviterName: string, language?: string | null): Promise<boolean> {
+    try {
+      const actionUrl = `${getAppBaseUrl()}/accept-invite?token=${token}`;
+      const messageId = await this.sendTemplate('welcome', email, language, { fullName, inviterName, actionUrl });
+
+      console.log(`Invitation email sent to ${email} - Message ID: ${messageId}`);
+      return true;
+    } catch (error) {
+      console.error('Invitation email error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends the confirmation link for an email change to the new address
+   */
+  static async sendEmailChangeConfirmation(newEmail: string, token: string, userName: string, language?: string | null): Promise<boolean> {
+    try {
+      const confirmUrl = `${getAppBaseUrl()}/confirm-email?token=${token}`;
+      const messageId = await this.sendTemplate('email-change', newEmail, language, { fullName: userName, confirmUrl });
+
+      console.log(`Email change confirmation sent to ${newEmail} - Message ID: ${messageId}`);
+      return true;
+    } catch (error) {
+      console.error('Email change confirmation error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends a submitted coaching report to the coachee with the PDF attached.
+   * Replies go to the coach who ran the session.
+   */
+  static async sendAssessmentReport(params: AssessmentReportParams): Promise<boolean> {
+    try {
+      const messageId = await this.sendTemplate('assessment-shared', params.to, params.language, {
+        coacheeName: params.coacheeName,
+        coachName: params.coachName,
+        assessmentTitle: params.assessmentTitle,
+      }, {
+        cc: params.cc,
+        replyTo: params.coachEmail,
+        attachments: [params.report],
+      });
+
+      console.log(`Coaching report for assessment "${params.assessmentTitle}" sent to ${params.to} - Message ID: ${messageId}`);
+      return true;
+    } catch (error) {
+      console.error('Coaching report email error:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { emailLanguages, type EmailLanguage, type EmailTemplateSummary, type RenderedEmail } from '@shared/schema';
+
+export type EmailTemplateId = 'password-reset' | 'email-verification' | 'email-change' | 'assessment-shared' | 'coaching-reminder' | 'welcome';
+
+export type EmailVariables = Record<string, string>;
+
+interface LocalizedTemplate {
+  subject: string;
+  text: string;
+  html: string; // Body only; wrapped in the shared layout when rendered
+}
+
+interface EmailTemplate {
+  id: EmailTemplateId;
+  name: string;
+  description: string;
+  sampleVariables: EmailVariables; // Used by the admin preview
+  translations: Record<EmailLanguage, LocalizedTemplate>;
+}
+
+const DEFAULT_LANGUAGE: EmailLanguage = 'en';
+
+// Placeholders look like {{name}}; values are HTML-escaped in the HTML variant
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+const paragraph = (content: string) => `<p style="font-size: 16px; line-height: 1.5;">${content}</p>`;
+
+const button = (url: string, label: string) => `
+  <div style="text-align: center; margin: 40px 0;">
+    <a href="${url}" style="background-color: #2563eb; color: white; padding: 14px 32px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">${label}</a>
+  </div>`;
+
+const note = (content: string) =>
+  `<p style="font-size: 14px; color: #666; border: 1px solid #e5e7eb; padding: 15px; border-radius: 6px; background-color: #f9fafb;">${content}</p>`;
+
+const layouts: Record<EmailLanguage, { textSignature: string; htmlSignature: string }> = {
+  en: {
+    textSignature: 'Best regards,\nThe SalesCoach Team',
+    htmlSignature: 'Best regards,<br>The SalesCoach Team',
+  },
+  de: {
+    textSignature: 'Viele Grüße\nIhr SalesCoach-Team',
+    htmlSignature: 'Viele Grüße<br>Ihr SalesCoach-Team',
+  },
+};
+
+const templates: Record<EmailTemplateId, EmailTemplate> = {
+  'password-reset': {
+    id: 'password-reset',
+    name: 'Password reset',
+    description: 'Sent when a user asks to reset a forgotten password',
+    sampleVariables: { fullName: 'Alex Example', resetUrl: 'https://salescoach.example/reset-password?token=sample' },
+    translations: {
+      en: {
+        subject: 'SalesCoach - Password Reset Request',
+        text: 'Hello {{fullName}},\n\nYou requested to reset your password for SalesCoach.\n\nClick the link below to reset your password:\n{{resetUrl}}\n\nThis link will expire in 1 hour.\n\nIf you didn\'t request this, please ignore this email.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Password Reset Request</h2>
+          ${paragraph('Hello {{fullName}},')}
+          ${paragraph('We received a request to reset your password for your SalesCoach account.')}
+          ${button('{{resetUrl}}', 'Reset Your Password')}
+          ${note('<strong>Security Note:</strong> This link will expire in 1 hour for your security. If you didn\'t request this reset, you can safely ignore this email.')}`,
+      },
+      de: {
+        subject: 'SalesCoach - Passwort zurücksetzen',
+        text: 'Hallo {{fullName}},\n\nSie haben angefordert, Ihr SalesCoach-Passwort zurückzusetzen.\n\nÜber den folgenden Link können Sie ein neues Passwort festlegen:\n{{resetUrl}}\n\nDer Link ist 1 Stunde gültig.\n\nFalls Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Passwort zurücksetzen</h2>
+          ${paragraph('Hallo {{fullName}},')}
+          ${paragraph('wir haben eine Anfrage erhalten, das Passwort Ihres SalesCoach-Kontos zurückzusetzen.')}
+          ${button('{{resetUrl}}', 'Passwort zurücksetzen')}
+          ${note('<strong>Sicherheitshinweis:</strong> Der Link ist aus Sicherheitsgründen 1 Stunde gültig. Falls Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren.')}`,
+      },
+    },
+  },
+
+  'email-verification': {
+    id: 'email-verification',
+    name: 'Email verification',
+    description: 'Sent after registration to confirm the user owns their email address',
+    sampleVariables: { fullName: 'Alex Example', verifyUrl: 'https://salescoach.example/verify-email?token=sample' },
+    translations: {
+      en: {
+        subject: 'SalesCoach - Verify Your Email Address',
+        text: 'Hello {{fullName}},\n\nThanks for signing up for SalesCoach.\n\nPlease verify your email address by opening the link below:\n{{verifyUrl}}\n\nThis link will expire in 24 hours. You can request a new one from your profile.\n\nIf you didn\'t create an account, please ignore this email.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Verify Your Email Address</h2>
+          ${paragraph('Hello {{fullName}},')}
+          ${paragraph('Thanks for signing up for SalesCoach. Please confirm that this is your email address.')}
+          ${button('{{verifyUrl}}', 'Verify Email Address')}
+          ${note('This link will expire in 24 hours. You can request a new one from your profile. If you didn\'t create an account, you can safely ignore this email.')}`,
+      },
+      de: {
+        subject: 'SalesCoach - E-Mail-Adresse bestätigen',
+        text: 'Hallo {{fullName}},\n\nvielen Dank für Ihre Registrierung bei SalesCoach.\n\nBitte bestätigen Sie Ihre E-Mail-Adresse über den folgenden Link:\n{{verifyUrl}}\n\nDer Link ist 24 Stunden gültig. Einen neuen Link können Sie in Ihrem Profil anfordern.\n\nFalls Sie kein Konto angelegt haben, können Sie diese E-Mail ignorieren.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">E-Mail-Adresse bestätigen</h2>
+          ${paragraph('Hallo {{fullName}},')}
+          ${paragraph('vielen Dank für Ihre Registrierung bei SalesCoach. Bitte bestätigen Sie, dass dies Ihre E-Mail-Adresse ist.')}
+          ${button('{{verifyUrl}}', 'E-Mail-Adresse bestätigen')}
+          ${note('Der Link ist 24 Stunden gültig. Einen neuen Link können Sie in Ihrem Profil anfordern. Falls Sie kein Konto angelegt haben, können Sie diese E-Mail ignorieren.')}`,
+      },
+    },
+  },
+
+  'email-change': {
+    id: 'email-change',
+    name: 'Email change confirmation',
+    description: 'Sent to the new address when a user changes their email',
+    sampleVariables: { fullName: 'Alex Example', confirmUrl: 'https://salescoach.example/confirm-email?token=sample' },
+    translations: {
+      en: {
+        subject: 'SalesCoach - Confirm Your New Email Address',
+        text: 'Hello {{fullName}},\n\nYou asked to change the email address of your SalesCoach account to this address.\n\nConfirm the change by opening the link below:\n{{confirmUrl}}\n\nThis link will expire in 24 hours. Until then you keep signing in with your current address.\n\nIf you didn\'t request this, please ignore this email.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Confirm Your New Email Address</h2>
+          ${paragraph('Hello {{fullName}},')}
+          ${paragraph('You asked to change the email address of your SalesCoach account to this address.')}
+          ${button('{{confirmUrl}}', 'Confirm Email Address')}
+          ${note('This link will expire in 24 hours. Until then you keep signing in with your current address. If you didn\'t request this, you can safely ignore this email.')}`,
+      },
+      de: {
+        subject: 'SalesCoach - Neue E-Mail-Adresse bestätigen',
+        text: 'Hallo {{fullName}},\n\nSie möchten die E-Mail-Adresse Ihres SalesCoach-Kontos auf diese Adresse ändern.\n\nBestätigen Sie die Änderung über den folgenden Link:\n{{confirmUrl}}\n\nDer Link ist 24 Stunden gültig. Bis dahin melden Sie sich weiter mit Ihrer bisherigen Adresse an.\n\nFalls Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Neue E-Mail-Adresse bestätigen</h2>
+          ${paragraph('Hallo {{fullName}},')}
+          ${paragraph('Sie möchten die E-Mail-Adresse Ihres SalesCoach-Kontos auf diese Adresse ändern.')}
+          ${button('{{confirmUrl}}', 'E-Mail-Adresse bestätigen')}
+          ${note('Der Link ist 24 Stunden gültig. Bis dahin melden Sie sich weiter mit Ihrer bisherigen Adresse an. Falls Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren.')}`,
+      },
+    },
+  },
+
+  'assessment-shared': {
+    id: 'assessment-shared',
+    name: 'Coaching report shared',
+    description: 'Sent to a coachee with the PDF report of a submitted session',
+    sampleVariables: { coacheeName: 'Alex Example', coachName: 'Sam Coach', assessmentTitle: 'Quarterly ride-along' },
+    translations: {
+      en: {
+        subject: 'SalesCoach - Coaching Report: {{assessmentTitle}}',
+        text: 'Hello {{coacheeName}},\n\n{{coachName}} has shared the report of your coaching session "{{assessmentTitle}}" with you. The report is attached as a PDF.\n\nReply to this email to get in touch with {{coachName}}.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Your Coaching Report</h2>
+          ${paragraph('Hello {{coacheeName}},')}
+          ${paragraph('{{coachName}} has shared the report of your coaching session <strong>{{assessmentTitle}}</strong> with you. The report is attached as a PDF.')}
+          ${paragraph('Reply to this email to get in touch with {{coachName}}.')}`,
+      },
+      de: {
+        subject: 'SalesCoach - Coaching-Bericht: {{assessmentTitle}}',
+        text: 'Hallo {{coacheeName}},\n\n{{coachName}} hat den Bericht Ihrer Coaching-Session "{{assessmentTitle}}" mit Ihnen geteilt. Der Bericht ist als PDF angehängt.\n\nAntworten Sie auf diese E-Mail, um {{coachName}} zu erreichen.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Ihr Coaching-Bericht</h2>
+          ${paragraph('Hallo {{coacheeName}},')}
+          ${paragraph('{{coachName}} hat den Bericht Ihrer Coaching-Session <strong>{{assessmentTitle}}</strong> mit Ihnen geteilt. Der Bericht ist als PDF angehängt.')}
+          ${paragraph('Antworten Sie auf diese E-Mail, um {{coachName}} zu erreichen.')}`,
+      },
+    },
+  },
+
+  'coaching-reminder': {
+    id: 'coaching-reminder',
+    name: 'Coaching reminder',
+    description: 'Reminds a coachee of an upcoming coaching session',
+    sampleVariables: { coacheeName: 'Alex Example', coachName: 'Sam Coach', sessionDate: 'Monday, 2 March', appUrl: 'https://salescoach.example' },
+    translations: {
+      en: {
+        subject: 'SalesCoach - Upcoming coaching session with {{coachName}}',
+        text: 'Hello {{coacheeName}},\n\nThis is a reminder of your coaching session with {{coachName}} on {{sessionDate}}.\n\nYou can review your previous sessions and progress in SalesCoach:\n{{appUrl}}',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Upcoming Coaching Session</h2>
+          ${paragraph('Hello {{coacheeName}},')}
+          ${paragraph('This is a reminder of your coaching session with {{coachName}} on <strong>{{sessionDate}}</strong>.')}
+          ${paragraph('You can review your previous sessions and progress in SalesCoach before you meet.')}
+          ${button('{{appUrl}}', 'Open SalesCoach')}`,
+      },
+      de: {
+        subject: 'SalesCoach - Anstehende Coaching-Session mit {{coachName}}',
+        text: 'Hallo {{coacheeName}},\n\ndies ist eine Erinnerung an Ihre Coaching-Session mit {{coachName}} am {{sessionDate}}.\n\nIhre bisherigen Sessions und Ihren Fortschritt finden Sie in SalesCoach:\n{{appUrl}}',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Anstehende Coaching-Session</h2>
+          ${paragraph('Hallo {{coacheeName}},')}
+          ${paragraph('dies ist eine Erinnerung an Ihre Coaching-Session mit {{coachName}} am <strong>{{sessionDate}}</strong>.')}
+          ${paragraph('Vorab können Sie Ihre bisherigen Sessions und Ihren Fortschritt in SalesCoach ansehen.')}
+          ${button('{{appUrl}}', 'SalesCoach öffnen')}`,
+      },
+    },
+  },
+
+  'welcome': {
+    id: 'welcome',
+    name: 'Welcome / invitation',
+    description: 'Invites someone to SalesCoach with a link to set their password',
+    sampleVariables: { fullName: 'Alex Example', inviterName: 'Sam Coach', actionUrl: 'https://salescoach.example/accept-invite?token=sample' },
+    translations: {
+      en: {
+        subject: 'Welcome to SalesCoach',
+        text: 'Hello {{fullName}},\n\n{{inviterName}} has invited you to SalesCoach, where your coaching sessions and progress are recorded.\n\nOpen the link below to choose your password and set up your account:\n{{actionUrl}}\n\nThis invitation expires in 7 days.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Welcome to SalesCoach</h2>
+          ${paragraph('Hello {{fullName}},')}
+          ${paragraph('{{inviterName}} has invited you to SalesCoach, where your coaching sessions and progress are recorded.')}
+          ${button('{{actionUrl}}', 'Set Up Your Account')}
+          ${note('This invitation expires in 7 days. If you weren\'t expecting it, you can safely ignore this email.')}`,
+      },
+      de: {
+        subject: 'Willkommen bei SalesCoach',
+        text: 'Hallo {{fullName}},\n\n{{inviterName}} hat Sie zu SalesCoach eingeladen, wo Ihre Coaching-Sessions und Ihr Fortschritt festgehalten werden.\n\nÜber den folgenden Link wählen Sie Ihr Passwort und richten Ihr Konto ein:\n{{actionUrl}}\n\nDie Einladung ist 7 Tage gültig.',
+        html: `
+          <h2 style="color: #333; border-bottom: 2px solid #e5e7eb; padding-bottom: 10px;">Willkommen bei SalesCoach</h2>
+          ${paragraph('Hallo {{fullName}},')}
+          ${paragraph('{{inviterName}} hat Sie zu SalesCoach eingeladen, wo Ihre Coaching-Sessions und Ihr Fortschritt festgehalten werden.')}
+          ${button('{{actionUrl}}', 'Konto einrichten')}
+          ${note('Die Einladung ist 7 Tage gültig. Falls Sie keine Einladung erwartet haben, können Sie diese E-Mail ignorieren.')}`,
+      },
+    },
+  },
+};
+
+export class EmailTemplates {
+  static list(): EmailTemplateSummary[] {
+    return Object.values(templates).map(template => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      variables: Object.keys(template.sampleVariables),
+      languages: emailLanguages,
+    }));
+  }
+
+  static isTemplateId(id: string): id is EmailTemplateId {
+    return Object.prototype.hasOwnProperty.call(templates, id);
+  }
+
+  /**
+   * Renders a template in the given language (falling back to English) with the variables substituted.
+   * Throws when a placeholder has no value so a broken email is never sent.
+   */
+  static render(id: EmailTemplateId, language: string | null | undefined, variables: EmailVariables): RenderedEmail {
+    const template = templates[id];
+    const lang = emailLanguages.includes(language as EmailLanguage) ? language as EmailLanguage : DEFAULT_LANGUAGE;
+    const localized = template.translations[lang];
+    const layout = layouts[lang];
+
+    const substitute = (source: string, escape: (value: string) => string) =>
+      source.replace(PLACEHOLDER, (_, name: string) => {
+        if (variables[name] === undefined) {
+          throw new Error(`Missing variable "${name}" for email template "${id}"`);
+        }
+        return escape(variables[name]);
+      });
+
+    const body = substitute(localized.html, value => this.escapeHtml(value));
+    return {
+      subject: substitute(localized.subject, value => value),
+      text: `${substitute(localized.text, value => value)}\n\n${layout.textSignature}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #2563eb; margin: 0;">SalesCoach</h1>
+          </div>
+          ${body}
+          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; font-size: 14px; color: #6b7280;">
+            <p>${layout.htmlSignature}</p>
+          </div>
+        </div>
+      `,
+    };
+  }
+
+  /**
+   * Renders a template with its sample variables for the admin preview
+   */
+  static preview(id: EmailTemplateId, language: string | null | undefined): RenderedEmail {
+    return this.render(id, language, templates[id].sampleVariables);
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  cc?: string[];
+  from: string | { email: string; name: string };
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  headers?: { [key: string]: string };
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  /**
+   * Delivers the message and resolves with a provider message id; rejects when delivery fails
+   */
+  send(message: EmailMessage): Promise<string>;
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    try {
+      const [response] = await sgMail.send({
+        to: message.to,
+        cc: message.cc && message.cc.length > 0 ? message.cc : undefined,
+        from: message.from,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text || '',
+        html: message.html || '',
+        headers: message.headers,
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content.toString('base64'),
+          type: attachment.contentType,
+          disposition: 'attachment',
+        })),
+        trackingSettings: {
+          clickTracking: { enable: false },
+          openTracking: { enable: false },
+          subscriptionTracking: { enable: false }
+        },
+        mailSettings: {
+          sandboxMode: { enable: false }
+        }
+      });
+      console.log('SendGrid status code:', response?.statusCode);
+      return response?.headers?.['x-message-id'] || 'unknown';
+    } catch (error: any) {
+      if (error.response?.body?.errors) {
+        console.error('SendGrid error details:', JSON.stringify(error.response.body.errors, null, 2));
+      }
+      throw error;
+    }
+  }
+}
+
+// nodemailer options shared by the SMTP and outbox transports
+function toMailOptions(message: EmailMessage): Mail.Options {
+  return {
+    to: message.to,
+    cc: message.cc,
+    from: typeof message.from === 'string' ? message.from : { address: message.from.email, name: message.from.name },
+    replyTo: message.replyTo,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    headers: message.headers,
+    attachments: message.attachments?.map(attachment => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.contentType,
+    })),
+  };
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const info = await this.transporter.sendMail(toMailOptions(message));
+    return info.messageId;
+  }
+}
+
+export interface OutboxEntry {
+  id: string;
+  to: string;
+  cc?: string[];
+  subject: string;
+  sentAt: string;
+  attachments: string[];
+}
+
+/**
+ * Writes every message to a local directory as an .eml file (openable in any mail client)
+ * plus a JSON summary, so nothing is delivered in development
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox';
+  private readonly composer: Transporter;
+
+  constructor(readonly directory: string) {
+    this.composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const info = await this.composer.sendMail(toMailOptions(message));
+
+    const entry: OutboxEntry & { text?: string; html?: string } = {
+      id,
+      to: message.to,
+      cc: message.cc,
+      subject: message.subject,
+      sentAt: new Date().toISOString(),
+      attachments: (message.attachments || []).map(attachment => attachment.filename),
+      text: message.text,
+      html: message.html,
+    };
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(path.join(this.directory, `${id}.eml`), info.message as Buffer);
+    await fs.promises.writeFile(path.join(this.directory, `${id}.json`), JSON.stringify(entry, null, 2));
+
+    console.log(`OutboxTransport: wrote email "${message.subject}" for ${message.to} to ${path.join(this.directory, `${id}.eml`)}`);
+    return id;
+  }
+
+  /**
+   * Messages in the outbox, newest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    const files = await fs.promises.readdir(this.directory).catch(() => [] as string[]);
+    const entries = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          const { text: _, html: __, ...entry } = JSON.parse(await fs.promises.readFile(path.join(this.directory, file), 'utf8'));
+          return entry as OutboxEntry;
+        })
+    );
+    return entries.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+  }
+
+  /**
+   * The rendered body (HTML, falling back to text) and raw .eml of one message
+   */
+  async read(id: string): Promise<{ entry: OutboxEntry; body: string; isHtml: boolean; eml: Buffer } | null> {
+    // Ids are generated here; anything else could point outside the outbox
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    try {
+      const { text, html, ...entry } = JSON.parse(await fs.promises.readFile(path.join(this.directory, `${id}.json`), 'utf8'));
+      const eml = await fs.promises.readFile(path.join(this.directory, `${id}.eml`));
+      return { entry, body: html || text || '', isHtml: !!html, eml };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT ("sendgrid", "smtp" or "outbox"). Without it, SendGrid is used
+ * when SENDGRID_API_KEY is set and emails go to the local outbox (EMAIL_OUTBOX_DIR, default uploads/outbox) otherwise.
+ * In production the outbox has to be chosen explicitly, so a missing key can't silently swallow every email.
+ * SMTP reads SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE, SMTP_USER and SMTP_PASS.
+ */
+export function createEmailTransport(): EmailTransport {
+  if (!process.env.EMAIL_TRANSPORT && !process.env.SENDGRID_API_KEY && process.env.NODE_ENV === 'production') {
+    throw new Error('No email transport configured: set SENDGRID_API_KEY, or EMAIL_TRANSPORT to "smtp" (or "outbox" to keep emails on disk)');
+  }
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SENDGRID_API_KEY ? 'sendgrid' : 'outbox');
+
+  switch (kind) {
+    case 'sendgrid':
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY environment variable must be set to use the sendgrid email transport');
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY);
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable must be set to use the smtp email transport');
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASS,
+      });
+    case 'outbox':
+      return new OutboxTransport(process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'uploads', 'outbox'));
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
@@ -0,0 +1,357 @@
+import { z } from 'zod';
+import {
+  frameworkDocumentSchema,
+  type Framework,
+  type StepWithSubsteps,
+  type FrameworkDocument,
+  type FrameworkImportError,
+  type ThresholdRule,
+} from '@shared/schema';
+
+// Flat CSV layout: one row per behavior. Rows without behavior text keep empty steps/substeps.
+// Weight and threshold columns were added later and are optional on import. Thresholds are a
+// step's or substep's threshold rule as "qualified/experienced/master" percentages, or points when
+// followed by "points". The framework-wide scoring policy has no place in the rows and only
+// travels in JSON.
+const CSV_COLUMNS = [
+  'step', 'step_description', 'target_score', 'substep', 'level', 'behavior', 'order', 'step_weight', 'weight',
+  'step_thresholds', 'substep_thresholds',
+] as const;
+const REQUIRED_CSV_COLUMNS = ['step', 'substep', 'level', 'behavior', 'order'];
+
+const optionalInt = (min: number, max?: number) =>
+  z.preprocess(
+    value => (value === undefined || value === '' ? undefined : Number(value)),
+    max === undefined ? z.number().int().min(min).optional() : z.number().int().min(min).max(max).optional()
+  );
+
+const optionalWeight = z.preprocess(
+  value => (value === undefined || value === '' ? undefined : Number(value)),
+  z.number().positive('Weight must be greater than 0').max(10).optional()
+);
+
+const POINTS_SUFFIX = /\s*points$/i;
+const csvThresholdsSchema = z.object({ qualified: z.number(), experienced: z.number(), master: z.number() });
+
+const optionalThresholds = z.preprocess(
+  value => {
+    if (value === undefined || value === '') return undefined;
+    const text = String(value).trim();
+    const parts = text.replace(POINTS_SUFFIX, '').split('/').map(part => Number(part.trim()));
+    if (parts.length !== 3) return value;
+    const thresholds = { qualified: parts[0], experienced: parts[1], master: parts[2] };
+    return POINTS_SUFFIX.test(text) ? { behaviorPoints: thresholds } : { behaviorPercentages: thresholds };
+  },
+  z.object(
+    { behaviorPercentages: csvThresholdsSchema.optional(), behaviorPoints: csvThresholdsSchema.optional() },
+    { invalid_type_error: 'Thresholds must be Qualified/Experienced/Master percentages, e.g. 50/70/90, or points, e.g. 2/3/4 points' }
+  ).optional()
+);
+
+const csvRowSchema = z.object({
+  step: z.string().trim().min(1, 'Step is required'),
+  step_description: z.string().default(''),
+  target_score: optionalInt(1, 4),
+  substep: z.string().trim().default(''),
+  level: optionalInt(1, 4),
+  behavior: z.string().trim().default(''),
+  order: optionalInt(1),
+  step_weight: optionalWeight,
+  weight: optionalWeight,
+  step_thresholds: optionalThresholds,
+  substep_thresholds: optionalThresholds,
+}).superRefine((row, ctx) => {
+  if (!row.behavior) return;
+  if (!row.substep) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['substep'], message: 'Substep is required for a behavior' });
+  if (row.level === undefined) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['level'], message: 'Level (1-4) is required for a behavior' });
+});
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+export interface ParsedFramework {
+  document?: FrameworkDocument;
+  errors: FrameworkImportError[];
+}
+
+export class FrameworkTransfer {
+  static toDocument(framework: Framework, steps: StepWithSubsteps[]): FrameworkDocument {
+    // Ids don't survive an import, so threshold rules are written onto their step or substep
+    const policy = framework.scoringPolicy;
+    const findRule = (targetType: ThresholdRule['targetType'], targetId: number) => {
+      const rule = policy?.thresholdRules?.find(candidate => candidate.targetType === targetType && candidate.targetId === targetId);
+      if (!rule) return {};
+      return 'behaviorPoints' in rule ? { behaviorPoints: rule.behaviorPoints } : { behaviorPercentages: rule.behaviorPercentages };
+    };
+
+    return {
+      name: framework.name,
+      description: framework.description,
+      scoringPolicy: policy && { behaviorPercentages: policy.behaviorPercentages, overallAverages: policy.overallAverages },
+      steps: steps.map(step => ({
+        title: step.title,
+        description: step.description,
+        targetScore: step.targetScore,
+        order: step.order,
+        weight: step.weight ?? 1,
+        ...findRule('step', step.id),
+        substeps: step.substeps.map(substep => ({
+          title: substep.title,
+          order: substep.order,
+          ...findRule('substep', substep.id),
+          behaviors: substep.behaviors.map(behavior => ({
+            description: behavior.description,
+            proficiencyLevel: behavior.proficiencyLevel,
+            order: behavior.order,
+            weight: behavior.weight ?? 1,
+          })),
+        })),
+      })),
+    };
+  }
+
+  static toJSON(document: FrameworkDocument): string {
+    return JSON.stringify(document, null, 2);
+  }
+
+  static toCSV(document: FrameworkDocument): string {
+    const rows: string[][] = [[...CSV_COLUMNS]];
+
+    for (const step of document.steps) {
+      const stepCells = [step.title, step.description, step.targetScore.toString()];
+      const stepWeight = step.weight.toString();
+      const stepThresholds = this.formatThresholds(step);
+      if (step.substeps.length === 0) {
+        rows.push([...stepCells, '', '', '', '', stepWeight, '', stepThresholds, '']);
+      }
+      for (const substep of step.substeps) {
+        const substepThresholds = this.formatThresholds(substep);
+        if (substep.behaviors.length === 0) {
+          rows.push([...stepCells, substep.title, '', '', '', stepWeight, '', stepThresholds, substepThresholds]);
+        }
+        for (const behavior of substep.behaviors) {
+          rows.push([
+            ...stepCells,
+            substep.title,
+            behavior.proficiencyLevel.toString(),
+            behavior.description,
+            behavior.order.toString(),
+            stepWeight,
+            behavior.weight.toString(),
+            stepThresholds,
+            substepThresholds,
+          ]);
+        }
+      }
+    }
+
+    return rows.map(row => row.map(this.escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  static fromJSON(content: string, nameOverride?: string): ParsedFramework {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error: any) {
+      return { errors: [{ message: `Invalid JSON: ${error.message}` }] };
+    }
+
+    if (nameOverride && raw && typeof raw === 'object') {
+      raw = { ...(raw as object), name: nameOverride };
+    }
+
+    const result = frameworkDocumentSchema.safeParse(raw);
+    if (!result.success) {
+      return {
+        errors: result.error.issues.map(issue => ({
+          path: this.formatPath(issue.path),
+          message: issue.message,
+        })),
+      };
+    }
+    return { document: result.data, errors: [] };
+  }
+
+  static fromCSV(content: string, name?: string): ParsedFramework {
+    const errors: FrameworkImportError[] = [];
+    if (!name) {
+      errors.push({ message: 'A framework name is required when importing CSV' });
+    }
+
+    let records: CsvRecord[];
+    try {
+      records = this.parseCsv(content);
+    } catch (error: any) {
+      return { errors: [...errors, { message: error.message }] };
+    }
+
+    if (records.length === 0) {
+      return { errors: [...errors, { message: 'CSV file is empty' }] };
+    }
+
+    const [header, ...dataRecords] = records;
+    const columns = header.cells.map(cell => cell.trim().toLowerCase());
+    const missingColumns = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column));
+    if (missingColumns.length > 0) {
+      return { errors: [...errors, { line: header.line, message: `Missing column(s): ${missingColumns.join(', ')}` }] };
+    }
+
+    const document: FrameworkDocument = { name: name || '', description: null, steps: [] };
+
+    for (const record of dataRecords) {
+      // Skip blank lines, typically a trailing newline from spreadsheet exports
+      if (record.cells.every(cell => cell.trim() === '')) continue;
+
+      const rawRow: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        rawRow[column] = record.cells[index] ?? '';
+      });
+
+      const parsed = csvRowSchema.safeParse(rawRow);
+      if (!parsed.success) {
+        parsed.error.issues.forEach(issue => {
+          errors.push({ line: record.line, message: `${issue.path.join('.') || 'row'}: ${issue.message}` });
+        });
+        continue;
+      }
+
+      const row = parsed.data;
+      let step = document.steps.find(existing => existing.title === row.step);
+      if (!step) {
+        step = {
+          title: row.step,
+          description: row.step_description,
+          targetScore: row.target_score ?? 3,
+          order: document.steps.length + 1,
+          weight: row.step_weight ?? 1,
+          ...row.step_thresholds,
+          substeps: [],
+        };
+        document.steps.push(step);
+      } else {
+        if (!step.description && row.step_description) step.description = row.step_description;
+        if (!step.behaviorPercentages && !step.behaviorPoints && row.step_thresholds) Object.assign(step, row.step_thresholds);
+      }
+
+      if (!row.substep) continue;
+      let substep = step.substeps.find(existing => existing.title === row.substep);
+      if (!substep) {
+        substep = { title: row.substep, order: step.substeps.length + 1, ...row.substep_thresholds, behaviors: [] };
+        step.substeps.push(substep);
+      } else if (!substep.behaviorPercentages && !substep.behaviorPoints && row.substep_thresholds) {
+        Object.assign(substep, row.substep_thresholds);
+      }
+
+      if (!row.behavior) continue;
+      substep.behaviors.push({
+        description: row.behavior,
+        proficiencyLevel: row.level!,
+        order: row.order ?? substep.behaviors.length + 1,
+        weight: row.weight ?? 1,
+      });
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    // Run the assembled document through the same schema as JSON imports
+    const result = frameworkDocumentSchema.safeParse(document);
+    if (!result.success) {
+      return {
+        errors: result.error.issues.map(issue => ({ path: this.formatPath(issue.path), message: issue.message })),
+      };
+    }
+    return { document: result.data, errors: [] };
+  }
+
+  static countHierarchy(document?: FrameworkDocument): { steps: number; substeps: number; behaviors: number } {
+    const steps = document?.steps ?? [];
+    const substeps = steps.flatMap(step => step.substeps);
+    return {
+      steps: steps.length,
+      substeps: substeps.length,
+      behaviors: substeps.reduce((count, substep) => count + substep.behaviors.length, 0),
+    };
+  }
+
+  static getFilename(framework: Framework, format: 'json' | 'csv'): string {
+    const slug = framework.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'framework';
+    return `${slug}.${format}`;
+  }
+
+  private static formatThresholds(target: Pick<FrameworkDocument['steps'][number], 'behaviorPercentages' | 'behaviorPoints'>): string {
+    const thresholds = target.behaviorPoints ?? target.behaviorPercentages;
+    const formatted = thresholds ? `${thresholds.qualified}/${thresholds.experienced}/${thresholds.master}` : '';
+    return target.behaviorPoints ? `${formatted} points` : formatted;
+  }
+
+  private static escapeCsvCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static formatPath(path: (string | number)[]): string {
+    return path.reduce<string>((result, segment) =>
+      typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, '');
+  }
+
+  /**
+   * RFC 4180 parser: quoted cells may contain commas, doubled quotes and line breaks.
+   * Each record remembers the line it started on for error reporting.
+   */
+  private static parseCsv(content: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    const text = content.replace(/^\uFEFF/, '');
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') line++;
+          cell += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        cells.push(cell);
+        records.push({ line: recordLine, cells });
+        cells = [];
+        cell = '';
+        line++;
+        recordLine = line;
+      } else {
+        cell += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error(`Unterminated quoted cell starting on line ${recordLine}`);
+    }
+    if (cell !== '' || cells.length > 0) {
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+    }
+
+    return records;
+  }
+}
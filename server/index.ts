@@ -1,9 +1,32 @@
 import express, { type Request, Response, NextFunction } from "express";
+import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { AuthService } from "./auth";
+import { EmailService } from "./emailService";
+
+// Tokens signed with a missing or well-known secret could be forged by anyone, and without an
+// email transport invitations and password resets would never arrive
+try {
+  AuthService.assertJwtSecretConfigured();
+  EmailService.assertTransportConfigured();
+} catch (error: any) {
+  console.error(`Refusing to start: ${error.message}`);
+  process.exit(1);
+}
 
 const app = express();
 
+// req.ip must be the client's address for per-IP rate limits. TRUST_PROXY is the number of reverse
+// proxies in front of the app, "false" when it is reached directly, or a comma-separated list of
+// proxy addresses/subnets. Defaults to the single proxy of the hosted deployment.
+function getTrustProxy(value = process.env.TRUST_PROXY): boolean | number | string {
+  if (value === undefined || value.trim() === "") return 1;
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value.trim()) ? Number(value) : value;
+}
+app.set("trust proxy", getTrustProxy());
+
 // Enable HTTP keep-alive and optimize connection handling
 app.use((req, res, next) => {
   res.setHeader('Connection', 'keep-alive');
@@ -13,6 +36,10 @@ app.use((req, res, next) => {
 
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
+app.use(cookieParser());
+
+// Secrets that may appear in a response body outside /api/auth
+const REDACTED_LOG_KEYS = new Set(["token", "secret", "otpauthUrl", "recoveryCodes", "accessToken", "refreshToken", "challengeToken"]);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -29,8 +56,9 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      // Auth responses carry tokens and 2FA secrets, so their bodies are never logged
+      if (capturedJsonResponse && !path.startsWith("/api/auth/")) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, (key, value) => REDACTED_LOG_KEYS.has(key) ? "[redacted]" : value)}`;
       }
 
       if (logLine.length > 80) {
@@ -0,0 +1,161 @@
+import { db } from './db';
+import { and, eq, gt, ne, or, isNull, count, min, type SQL } from 'drizzle-orm';
+import { users, loginAttempts, type LoginAttemptKind, type User } from '@shared/schema';
+
+// Per account: consecutive failures before the account is locked, and the first lockout
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 3600000;
+
+// Per IP address, counted from the audit trail
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_LOGINS_PER_IP = 20;
+const PASSWORD_RESET_WINDOW_MS = 3600000;
+const MAX_PASSWORD_RESETS_PER_IP = 10;
+const MAX_PASSWORD_RESETS_PER_EMAIL = 3;
+
+// Refused attempts are audited but don't count: otherwise retrying while blocked would keep
+// extending the block
+const notRateLimited = or(isNull(loginAttempts.reason), ne(loginAttempts.reason, 'rate-limited'))!;
+
+/**
+ * Brute-force protection for sign-in and password reset requests. Every attempt is audited in
+ * login_attempts; account backoff is kept on the user row so it survives restarts.
+ */
+export class LoginThrottle {
+  /**
+   * Wait imposed after the given number of consecutive failures: 1s, 2s, 4s, 8s, then a
+   * 15 minute lockout that doubles with every further failure (capped at a day)
+   */
+  static getBackoffMs(failures: number): number {
+    if (failures <= 0) return 0;
+    if (failures < MAX_FAILED_LOGINS) return 1000 * 2 ** (failures - 1);
+    return Math.min(LOCKOUT_MS * 2 ** (failures - MAX_FAILED_LOGINS), MAX_LOCKOUT_MS);
+  }
+
+  static describeRetryAfter(retryAfterMs: number): string {
+    const minutes = Math.ceil(retryAfterMs / 60000);
+    const wait = retryAfterMs < 60000
+      ? `${Math.ceil(retryAfterMs / 1000)} seconds`
+      : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    return `Too many attempts. Please try again in ${wait}.`;
+  }
+
+  /**
+   * Milliseconds until this email and IP address may attempt to sign in again; 0 when allowed
+   */
+  static async getLoginRetryAfter(email: string, ipAddress?: string): Promise<number> {
+    const [user] = await db.select({ lockedUntil: users.lockedUntil }).from(users).where(eq(users.email, email)).limit(1);
+    const accountRetryAfter = user?.lockedUntil ? user.lockedUntil.getTime() - Date.now() : 0;
+
+    const ipRetryAfter = ipAddress
+      ? await this.getWindowRetryAfter(
+          [eq(loginAttempts.kind, 'login'), eq(loginAttempts.ipAddress, ipAddress), eq(loginAttempts.success, false), notRateLimited],
+          LOGIN_WINDOW_MS,
+          MAX_FAILED_LOGINS_PER_IP
+        )
+      : 0;
+
+    return Math.max(accountRetryAfter, ipRetryAfter, 0);
+  }
+
+  /**
+   * Audits a failed sign-in. Wrong passwords also push back the account's next allowed attempt.
+   */
+  static async recordLoginFailure(email: string, ipAddress: string | undefined, reason: 'invalid-credentials' | 'rate-limited'): Promise<void> {
+    const [user] = await db.select({ id: users.id, failedLoginCount: users.failedLoginCount })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    await this.recordAttempt('login', email, ipAddress, false, reason, user?.id);
+
+    if (user && reason === 'invalid-credentials') {
+      const failedLoginCount = user.failedLoginCount + 1;
+      await db.update(users)
+        .set({
+          failedLoginCount,
+          lockedUntil: new Date(Date.now() + this.getBackoffMs(failedLoginCount))
+        })
+        .where(eq(users.id, user.id));
+
+      if (failedLoginCount === MAX_FAILED_LOGINS) {
+        console.warn(`LoginThrottle: account ${user.id} locked after ${failedLoginCount} failed logins`);
+      }
+    }
+  }
+
+  static async recordLoginSuccess(userId: number, email: string, ipAddress?: string): Promise<void> {
+    await this.recordAttempt('login', email, ipAddress, true, null, userId);
+    await db.update(users)
+      .set({ failedLoginCount: 0, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Limits reset requests per IP address (ipRetryAfter, refused outright) and per email address
+   * (emailAllowed; callers skip sending but answer as usual so addresses can't be probed)
+   */
+  static async checkPasswordReset(email: string, ipAddress?: string): Promise<{ ipRetryAfter: number; emailAllowed: boolean }> {
+    const ipRetryAfter = ipAddress
+      ? await this.getWindowRetryAfter(
+          [eq(loginAttempts.kind, 'password-reset'), eq(loginAttempts.ipAddress, ipAddress), notRateLimited],
+          PASSWORD_RESET_WINDOW_MS,
+          MAX_PASSWORD_RESETS_PER_IP
+        )
+      : 0;
+
+    const emailRetryAfter = await this.getWindowRetryAfter(
+      [eq(loginAttempts.kind, 'password-reset'), eq(loginAttempts.email, email), eq(loginAttempts.success, true)],
+      PASSWORD_RESET_WINDOW_MS,
+      MAX_PASSWORD_RESETS_PER_EMAIL
+    );
+
+    return { ipRetryAfter, emailAllowed: emailRetryAfter === 0 };
+  }
+
+  static async recordPasswordReset(email: string, ipAddress: string | undefined, accepted: boolean): Promise<void> {
+    await this.recordAttempt('password-reset', email, ipAddress, accepted, accepted ? null : 'rate-limited');
+  }
+
+  /**
+   * Clears an account's lockout and failure count (admin action)
+   */
+  static async unlockAccount(userId: number): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ failedLoginCount: 0, lockedUntil: null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  private static async recordAttempt(
+    kind: LoginAttemptKind,
+    email: string,
+    ipAddress: string | undefined,
+    success: boolean,
+    reason: string | null,
+    userId?: number
+  ): Promise<void> {
+    await db.insert(loginAttempts).values({
+      kind,
+      email,
+      userId: userId ?? null,
+      ipAddress: ipAddress ?? null,
+      success,
+      reason
+    });
+  }
+
+  // Once max attempts fall inside the window, the next is allowed when the oldest one leaves it
+  private static async getWindowRetryAfter(conditions: SQL[], windowMs: number, max: number): Promise<number> {
+    const [window] = await db.select({ attempts: count(), oldest: min(loginAttempts.createdAt) })
+      .from(loginAttempts)
+      .where(and(...conditions, gt(loginAttempts.createdAt, new Date(Date.now() - windowMs))));
+
+    if (!window || window.attempts < max || !window.oldest) {
+      return 0;
+    }
+    return Math.max(new Date(window.oldest).getTime() + windowMs - Date.now(), 1000);
+  }
+}
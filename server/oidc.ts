@@ -0,0 +1,197 @@
+import * as client from 'openid-client';
+import { oauthProviders, type OAuthProvider, type AuthProviderInfo } from '@shared/schema';
+import { getAppBaseUrl } from './appUrl';
+
+interface ProviderConfig {
+  id: OAuthProvider;
+  name: string;
+  issuer: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope: string;
+  responseMode?: 'form_post';
+}
+
+/**
+ * A sign-in that was started but has not come back from the provider yet. It travels in a
+ * signed cookie, so only the browser that started the sign-in can complete it.
+ */
+export interface PendingLogin {
+  provider: OAuthProvider;
+  state: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+/**
+ * Identity asserted by a provider after a successful sign-in
+ */
+export interface ProviderProfile {
+  provider: OAuthProvider;
+  providerId: string;
+  email: string;
+  emailVerified: boolean;
+  fullName: string;
+}
+
+/**
+ * Issuers can be pointed at a local mock OIDC provider (GOOGLE_ISSUER, APPLE_ISSUER) for testing.
+ * Apple's client secret is the signed JWT generated from the Sign in with Apple key.
+ */
+function getProviderConfig(provider: OAuthProvider): ProviderConfig {
+  switch (provider) {
+    case 'google':
+      return {
+        id: 'google',
+        name: 'Google',
+        issuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        scope: 'openid email profile',
+      };
+    case 'apple':
+      return {
+        id: 'apple',
+        name: 'Apple',
+        issuer: process.env.APPLE_ISSUER || 'https://appleid.apple.com',
+        clientId: process.env.APPLE_CLIENT_ID,
+        clientSecret: process.env.APPLE_CLIENT_SECRET,
+        // Apple only returns the email and name scopes with a form POST back to the callback
+        scope: 'openid email name',
+        responseMode: 'form_post',
+      };
+  }
+}
+
+export class OidcService {
+  private static configurations = new Map<OAuthProvider, Promise<client.Configuration>>();
+
+  static isProvider(value: string): value is OAuthProvider {
+    return (oauthProviders as readonly string[]).includes(value);
+  }
+
+  /**
+   * Providers with a client id and secret configured
+   */
+  static getEnabledProviders(): AuthProviderInfo[] {
+    return oauthProviders
+      .map(getProviderConfig)
+      .filter(config => config.clientId && config.clientSecret)
+      .map(config => ({ id: config.id, name: config.name }));
+  }
+
+  /**
+   * Apple posts the response back cross-site, so its pending-login cookie can't be SameSite=Lax
+   */
+  static usesFormPost(provider: OAuthProvider): boolean {
+    return getProviderConfig(provider).responseMode === 'form_post';
+  }
+
+  static getCallbackUrl(provider: OAuthProvider): string {
+    return `${getAppBaseUrl()}/api/auth/oidc/${provider}/callback`;
+  }
+
+  /**
+   * Starts a sign-in: returns the provider URL to send the browser to, and the PKCE verifier,
+   * nonce and state the browser has to bring back to the callback
+   */
+  static async getAuthorizationUrl(provider: OAuthProvider): Promise<{ url: URL; pendingLogin: PendingLogin }> {
+    const config = await this.getConfiguration(provider);
+    const providerConfig = getProviderConfig(provider);
+
+    const codeVerifier = client.randomPKCECodeVerifier();
+    const state = client.randomState();
+    const nonce = client.randomNonce();
+
+    const parameters: Record<string, string> = {
+      redirect_uri: this.getCallbackUrl(provider),
+      scope: providerConfig.scope,
+      code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+      state,
+      nonce,
+    };
+    if (providerConfig.responseMode) {
+      parameters.response_mode = providerConfig.responseMode;
+    }
+
+    return {
+      url: client.buildAuthorizationUrl(config, parameters),
+      pendingLogin: { provider, state, codeVerifier, nonce },
+    };
+  }
+
+  /**
+   * Completes a sign-in from the callback parameters (query string, or form body for Apple)
+   * and returns the verified identity from the ID token. The pending login comes from the
+   * cookie set when the sign-in started; a callback without it was not started by this browser.
+   */
+  static async handleCallback(
+    provider: OAuthProvider,
+    params: URLSearchParams,
+    pending: PendingLogin | null
+  ): Promise<ProviderProfile> {
+    const state = params.get('state');
+    if (!state || !pending || pending.provider !== provider || pending.state !== state) {
+      throw new Error('Sign-in session expired');
+    }
+
+    const config = await this.getConfiguration(provider);
+    const currentUrl = new URL(this.getCallbackUrl(provider));
+    params.forEach((value, key) => currentUrl.searchParams.set(key, value));
+
+    const tokens = await client.authorizationCodeGrant(config, currentUrl, {
+      pkceCodeVerifier: pending.codeVerifier,
+      expectedState: state,
+      expectedNonce: pending.nonce,
+      idTokenExpected: true,
+    });
+
+    const claims = tokens.claims();
+    if (!claims) {
+      throw new Error('Provider did not return an ID token');
+    }
+    if (typeof claims.email !== 'string' || !claims.email) {
+      throw new Error('Provider did not share an email address');
+    }
+
+    return {
+      provider,
+      providerId: claims.sub,
+      email: claims.email,
+      // Apple sends the flag as the string "true"
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      fullName: (typeof claims.name === 'string' && claims.name) || this.getAppleName(params) || claims.email,
+    };
+  }
+
+  // Apple only sends the user's name once, as a JSON form field on the first sign-in
+  private static getAppleName(params: URLSearchParams): string | null {
+    try {
+      const name = JSON.parse(params.get('user') || '{}').name;
+      return [name?.firstName, name?.lastName].filter(Boolean).join(' ') || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static getConfiguration(provider: OAuthProvider): Promise<client.Configuration> {
+    let configuration = this.configurations.get(provider);
+    if (!configuration) {
+      const providerConfig = getProviderConfig(provider);
+      if (!providerConfig.clientId || !providerConfig.clientSecret) {
+        return Promise.reject(new Error(`${providerConfig.name} sign-in is not configured`));
+      }
+
+      const issuer = new URL(providerConfig.issuer);
+      configuration = client.discovery(issuer, providerConfig.clientId, providerConfig.clientSecret, undefined, {
+        // Plain HTTP is only accepted for local mock providers
+        execute: issuer.protocol === 'http:' ? [client.allowInsecureRequests] : [],
+      });
+      // Retry discovery on the next sign-in if the provider was unreachable
+      configuration.catch(() => this.configurations.delete(provider));
+      this.configurations.set(provider, configuration);
+    }
+    return configuration;
+  }
+}
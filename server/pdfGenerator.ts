@@ -1,7 +1,7 @@
 import { jsPDF } from 'jspdf';
 import fs from 'fs';
 import path from 'path';
-import { Assessment, User, Step, Substep, Behavior, AssessmentScore, StepScore } from '@shared/schema';
+import { Assessment, User, Step, Substep, Behavior, AssessmentScore, StepScore, ScoringPolicy, SelfAssessmentScore, BehaviorObservation } from '@shared/schema';
 import { StepLevelCalculator } from '@shared/stepLevelCalculator';
 
 type StepWithSubsteps = Step & {
@@ -13,11 +13,19 @@ type StepWithSubsteps = Step & {
 interface CoachingReportData {
   assessment: Assessment;
   coach: User;
-  steps: StepWithSubsteps[];
+  steps: StepWithSubsteps[]; // Framework version pinned by the assessment, not the live framework
+  scoringPolicy?: ScoringPolicy;
   assessmentScores: AssessmentScore[];
   stepScores: StepScore[];
+  selfAssessmentScores?: SelfAssessmentScore[] | null; // The coachee's submitted self-assessment, if any
 }
 
+const OBSERVATION_LABELS: Record<BehaviorObservation, string> = {
+  observed: 'Observed',
+  not_observed: 'Not observed',
+  not_applicable: 'N/A',
+};
+
 export class PDFGenerator {
   private static ensureUploadsDirectory() {
     const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -38,7 +46,9 @@ export class PDFGenerator {
   }
 
   static async generateCoachingReport(data: CoachingReportData): Promise<string> {
-    const { assessment, coach, steps, assessmentScores, stepScores } = data;
+    const { assessment, coach, scoringPolicy, assessmentScores, stepScores, selfAssessmentScores } = data;
+    // A focused session reports only the steps it covered
+    const steps = StepLevelCalculator.getFocusSteps(data.steps, assessment.focusStepIds);
     
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
@@ -46,8 +56,8 @@ export class PDFGenerator {
     let yPosition = 20;
     let currentPage = 1;
 
-    // Create checked behaviors set
-    const checkedBehaviorIds = new Set(assessmentScores.filter(score => score.checked).map(score => score.behaviorId));
+    // Behavior id -> observed / not observed / not applicable
+    const observations = StepLevelCalculator.getObservations(assessmentScores);
     
     // Create step scores map
     const stepScoresMap: { [key: number]: number } = {};
@@ -55,15 +65,20 @@ export class PDFGenerator {
       stepScoresMap[score.stepId] = score.level;
     });
 
+    // Evidence notes printed under their behavior and step
+    const behaviorNotes = new Map(assessmentScores.filter(score => score.note).map(score => [score.behaviorId, score.note!]));
+    const stepNotes = new Map(stepScores.filter(score => score.note).map(score => [score.stepId, score.note!]));
+
     // Get unified step levels
     const unifiedStepLevels = StepLevelCalculator.getUnifiedStepLevels(
       steps,
       assessmentScores,
-      stepScores
+      stepScores,
+      scoringPolicy
     );
 
     // Calculate overall proficiency
-    const overallProficiency = StepLevelCalculator.getOverallProficiencyLevel(unifiedStepLevels);
+    const overallProficiency = StepLevelCalculator.getOverallProficiencyLevel(unifiedStepLevels, scoringPolicy);
 
     // Blue header box with reduced height (30% smaller)
     doc.setFillColor(59, 130, 246); // Blue color
@@ -137,8 +152,9 @@ export class PDFGenerator {
     const graphCenterY = yPosition + 10 + contextHeight / 2;
     const graphRadius = Math.min(columnWidth * 0.6, contextHeight * 0.6); // Increased by 30%
     
-    const stepCount = 7;
-    const stepLabels = ['Preparation', 'Opening', 'Need Dialog', 'Solution', 'Objection', 'Commitment', 'Follow-up'];
+    // Axes follow the steps of the pinned framework version, which may differ from today's framework
+    const stepCount = steps.length;
+    const stepLabels = steps.map(step => step.title);
     
     // Draw proper grid/net structure
     // 1. Draw concentric circles with level labels
@@ -208,7 +224,8 @@ export class PDFGenerator {
     for (let i = 0; i < stepCount && i < steps.length; i++) {
       const step = steps[i];
       const stepLevel = unifiedStepLevels.find(ul => ul.stepId === step.id);
-      const level = stepLevel ? stepLevel.level : 1;
+      // Unassessed steps sit at the centre rather than at Learner
+      const level = stepLevel && StepLevelCalculator.isAssessed(stepLevel) ? stepLevel.level : 0;
       const angle = (i * 2 * Math.PI) / stepCount - Math.PI / 2;
       const radius = (graphRadius * level) / 4;
       performancePoints.push([
@@ -326,7 +343,7 @@ export class PDFGenerator {
       doc.text(stepTitle, 25, yPosition + 6); // Adjusted centering
       
       // Level text on the right side of the colored box
-      const levelText = unifiedLevel ? StepLevelCalculator.getLevelText(unifiedLevel.level) : '';
+      const levelText = unifiedLevel ? StepLevelCalculator.getStepLevelText(unifiedLevel) : '';
       if (levelText) {
         doc.text(levelText, pageWidth - 25 - doc.getTextWidth(levelText), yPosition + 6);
       }
@@ -361,7 +378,8 @@ export class PDFGenerator {
           }
 
           doc.setFontSize(9);
-          const isChecked = checkedBehaviorIds.has(behavior.id);
+          const isChecked = observations[behavior.id] === 'observed';
+          const isNotApplicable = observations[behavior.id] === 'not_applicable';
           
           // Draw checkbox aligned with first letter of step title (around position 28)
           doc.setDrawColor(0, 0, 0);
@@ -374,13 +392,13 @@ export class PDFGenerator {
             doc.rect(28, yPosition - 3, 3, 3, 'F');
           }
           
-          // Format behavior text with level prefix
-          const levelPrefix = `L${behavior.proficiencyLevel || 1}: `;
+          // Format behavior text with level prefix; not applicable behaviors are greyed and marked
+          const levelPrefix = `${isNotApplicable ? 'N/A ' : ''}L${behavior.proficiencyLevel || 1}: `;
           const behaviorDescription = behavior.description;
           
           // Draw level prefix aligned with checkbox
           doc.setFont('helvetica', 'normal');
-          doc.setTextColor(0, 0, 0);
+          doc.setTextColor(isNotApplicable ? 150 : 0, isNotApplicable ? 150 : 0, isNotApplicable ? 150 : 0);
           doc.text(levelPrefix, 35, yPosition); // Start text after checkbox
           
           // Draw behavior description with proper wrapping
@@ -396,14 +414,133 @@ export class PDFGenerator {
             yPosition += 4;
             doc.text(lines[i], 35 + prefixWidth, yPosition);
           }
+          doc.setTextColor(0, 0, 0);
           
           yPosition += 4; // Reduced space between behaviors from 5 to 4
+
+          // Behavior note in grey italics, indented with the description
+          const behaviorNote = behaviorNotes.get(behavior.id);
+          if (behaviorNote) {
+            doc.setFont('helvetica', 'italic');
+            doc.setTextColor(100, 100, 100);
+            doc.splitTextToSize(behaviorNote, maxWidth).forEach((line: string) => {
+              if (yPosition > pageHeight - 20) {
+                doc.addPage();
+                currentPage++;
+                this.addPageNumber(doc, currentPage);
+                yPosition = 20;
+                doc.setFontSize(9);
+                doc.setFont('helvetica', 'italic');
+                doc.setTextColor(100, 100, 100);
+              }
+              doc.text(line, 35 + prefixWidth, yPosition);
+              yPosition += 4;
+            });
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(0, 0, 0);
+          }
         });
         yPosition += 6; // Reduced space between substeps from 8 to 6
       });
+
+      // Step notes below the step's substeps
+      const stepNote = stepNotes.get(step.id);
+      if (stepNote) {
+        const noteLines = doc.splitTextToSize(stepNote, pageWidth - 55);
+        if (yPosition + noteLines.length * 4 + 5 > pageHeight - 20) {
+          doc.addPage();
+          currentPage++;
+          this.addPageNumber(doc, currentPage);
+          yPosition = 20;
+        }
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Step Notes:', 25, yPosition);
+        yPosition += 5;
+        doc.setFont('helvetica', 'italic');
+        doc.setTextColor(100, 100, 100);
+        doc.text(noteLines, 28, yPosition);
+        yPosition += noteLines.length * 4;
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(0, 0, 0);
+      }
       yPosition += 10; // Reduced space between steps from 15 to 10
     }
 
+    // Self-assessment comparison: divergent steps in red, then the behaviors rated differently
+    if (selfAssessmentScores) {
+      const gaps = StepLevelCalculator.getSelfAssessmentGaps(steps, assessmentScores, stepScores, selfAssessmentScores, scoringPolicy);
+      const behaviorsById = new Map(
+        steps.flatMap(step => step.substeps.flatMap(substep => substep.behaviors)).map(behavior => [behavior.id, behavior])
+      );
+
+      if (yPosition > pageHeight - 60) {
+        doc.addPage();
+        currentPage++;
+        this.addPageNumber(doc, currentPage);
+        yPosition = 20;
+      }
+
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(0, 0, 0);
+      doc.text('Self-Assessment Comparison:', 20, yPosition);
+      yPosition += 7;
+
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      gaps.steps.forEach((gap, index) => {
+        if (yPosition > pageHeight - 20) {
+          doc.addPage();
+          currentPage++;
+          this.addPageNumber(doc, currentPage);
+          yPosition = 20;
+          doc.setFontSize(9);
+          doc.setFont('helvetica', 'normal');
+        }
+
+        const difference = gap.difference ? ` (${gap.difference > 0 ? '+' : ''}${gap.difference})` : '';
+        const levelsText = `Coach: ${StepLevelCalculator.getStepLevelText(gap.coach)}   Self: ${StepLevelCalculator.getStepLevelText(gap.self)}${difference}`;
+        if (gap.difference !== 0) {
+          doc.setTextColor(220, 38, 38); // Red for diverging steps
+        }
+        doc.text(doc.splitTextToSize(`${index + 1}. ${steps[index].title}`, pageWidth / 2 - 25)[0], 25, yPosition);
+        doc.text(levelsText, pageWidth - 25 - doc.getTextWidth(levelsText), yPosition);
+        doc.setTextColor(0, 0, 0);
+        yPosition += 5;
+      });
+
+      yPosition += 3;
+      doc.setFont('helvetica', 'bold');
+      doc.text('Behaviors rated differently:', 25, yPosition);
+      yPosition += 5;
+      doc.setFont('helvetica', 'normal');
+
+      if (gaps.behaviors.length === 0) {
+        doc.text('None - the self-assessment matches the coach on every behavior.', 28, yPosition);
+        yPosition += 5;
+      }
+      gaps.behaviors.forEach(gap => {
+        const description = behaviorsById.get(gap.behaviorId)?.description ?? '';
+        const lines = doc.splitTextToSize(
+          `Coach: ${OBSERVATION_LABELS[gap.coach]} / Self: ${OBSERVATION_LABELS[gap.self]} - ${description}`,
+          pageWidth - 55
+        );
+        if (yPosition + lines.length * 4 > pageHeight - 20) {
+          doc.addPage();
+          currentPage++;
+          this.addPageNumber(doc, currentPage);
+          yPosition = 20;
+          doc.setFontSize(9);
+          doc.setFont('helvetica', 'normal');
+        }
+        doc.text(lines, 28, yPosition);
+        yPosition += lines.length * 4 + 1;
+      });
+
+      yPosition += 10;
+    }
+
     // Coaching notes sections with light colored backgrounds and grey outlines
     const sections = [
       { title: 'Key Observations', content: assessment.keyObservations, color: [249, 250, 251] }, // Light gray
@@ -1,32 +1,403 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertAssessmentSchema, insertAssessmentScoreSchema } from "@shared/schema";
+import { 
+  createUserSchema, updateUserSchema, insertAssessmentSchema, updateAssessmentSchema, insertAssessmentScoreSchema,
+  insertFrameworkSchema, updateFrameworkSchema, frameworkImportSchema, insertStepSchema, insertSubstepSchema, insertBehaviorSchema,
+  updateStepSchema, updateSubstepSchema, updateBehaviorSchema, reorderSchema, shareAssessmentSchema,
+  changePasswordSchema, changeEmailSchema, deleteAccountSchema, updatePreferencesSchema, createInvitationSchema, acceptInvitationSchema,
+  twoFactorCodeSchema, twoFactorLoginSchema, updateAppSettingsSchema, updateAssessmentScoreSchema, updateScoreNoteSchema,
+  updateSelfAssessmentScoreSchema
+} from "@shared/schema";
 import { AuthService } from "./auth";
+import { requireAuth, requireRole, requireAssessmentAccess, requireVerifiedEmail, AccessPolicy } from "./authMiddleware";
 import { PDFGenerator } from "./pdfGenerator";
+import { FrameworkTransfer } from "./frameworkTransfer";
+import { EmailService } from "./emailService";
+import { EmailTemplates } from "./emailTemplates";
+import { OidcService } from "./oidc";
+import { LoginThrottle } from "./loginThrottle";
+import { TwoFactorService } from "./twoFactor";
+import { StepLevelCalculator } from "@shared/stepLevelCalculator";
 import path from "path";
-import type { User, Assessment, AssessmentScore, UserRegistration, UserLogin } from "@shared/schema";
+import crypto from "crypto";
+import type {
+  User, Assessment, AssessmentScore, UserRegistration, UserLogin, FrameworkImportResult, CoacheeProgress, CoacheeProgressEntry,
+  InvitationWithTeams, PendingInvitation, InvitationDetails, SelfAssessment, SelfAssessmentDetail, OAuthProvider, CurrentUser
+} from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize default data
   await storage.initializeDefaultData();
 
-  // Get all steps with substeps and behaviors
-  app.get("/api/steps", async (req, res) => {
+  // Coaching frameworks - each framework owns its own steps, substeps and behaviors
+  app.get("/api/frameworks", requireAuth, async (req, res) => {
     try {
-      const steps = await storage.getAllSteps();
+      const frameworks = await storage.getAllFrameworks();
+      res.json(frameworks);
+    } catch (error: any) {
+      console.error("Error fetching frameworks:", error);
+      res.status(500).json({ message: "Failed to fetch frameworks", error: error.message });
+    }
+  });
+
+  app.post("/api/frameworks", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertFrameworkSchema.parse(req.body);
+      const framework = await storage.createFramework(validatedData);
+      res.json(framework);
+    } catch (error: any) {
+      console.error("Framework creation error:", error);
+      res.status(400).json({ message: "Invalid framework data", error: error.message });
+    }
+  });
+
+  app.put("/api/frameworks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const frameworkId = parseInt(req.params.id);
+      const validatedData = updateFrameworkSchema.parse(req.body);
+
+      // Threshold rules may only point at this framework's own steps and substeps (archived ones included)
+      for (const rule of validatedData.scoringPolicy?.thresholdRules ?? []) {
+        const stepId = rule.targetType === "step" ? rule.targetId : (await storage.getSubstep(rule.targetId))?.stepId;
+        const step = stepId !== undefined ? await storage.getStep(stepId) : undefined;
+        if (step?.frameworkId !== frameworkId) {
+          return res.status(400).json({
+            message: "Invalid framework data",
+            error: `Threshold rule targets ${rule.targetType} ${rule.targetId}, which is not part of this framework`
+          });
+        }
+      }
+
+      const framework = await storage.updateFramework(frameworkId, validatedData);
+      if (!framework) {
+        return res.status(404).json({ message: "Framework not found" });
+      }
+      res.json(framework);
+    } catch (error: any) {
+      console.error("Framework update error:", error);
+      res.status(400).json({ message: "Invalid framework data", error: error.message });
+    }
+  });
+
+  // Export a framework's live hierarchy as JSON or flat CSV (?format=json|csv)
+  app.get("/api/frameworks/:id/export", requireRole("admin"), async (req, res) => {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "json";
+      const framework = await storage.getFramework(parseInt(req.params.id));
+      if (!framework) {
+        return res.status(404).json({ message: "Framework not found" });
+      }
+
+      const steps = await storage.getAllSteps(framework.id);
+      const document = FrameworkTransfer.toDocument(framework, steps);
+
+      res.setHeader('Content-Type', format === "csv" ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${FrameworkTransfer.getFilename(framework, format)}"`);
+      res.send(format === "csv" ? FrameworkTransfer.toCSV(document) : FrameworkTransfer.toJSON(document));
+    } catch (error: any) {
+      console.error("Framework export error:", error);
+      res.status(500).json({ message: "Failed to export framework", error: error.message });
+    }
+  });
+
+  // Import a framework from JSON or CSV. With dryRun the parsed hierarchy is returned without saving.
+  app.post("/api/frameworks/import", requireRole("admin"), async (req, res) => {
+    try {
+      const { format, content, name, dryRun } = frameworkImportSchema.parse(req.body);
+      const parsed = format === "csv"
+        ? FrameworkTransfer.fromCSV(content, name)
+        : FrameworkTransfer.fromJSON(content, name);
+
+      if (parsed.document && await storage.getFrameworkByName(parsed.document.name)) {
+        parsed.errors.push({ message: `A framework named "${parsed.document.name}" already exists` });
+      }
+
+      const result: FrameworkImportResult = {
+        valid: parsed.errors.length === 0,
+        dryRun,
+        errors: parsed.errors,
+        summary: FrameworkTransfer.countHierarchy(parsed.document),
+        document: parsed.document,
+      };
+
+      if (!result.valid) {
+        return res.status(400).json({ message: "Framework import failed validation", ...result });
+      }
+      if (!dryRun) {
+        result.framework = await storage.importFramework(parsed.document!);
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("Framework import error:", error);
+      res.status(400).json({ message: "Invalid import request", error: error.message });
+    }
+  });
+
+  // Archived frameworks can no longer be chosen, but their assessments keep their pinned versions
+  app.delete("/api/frameworks/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const frameworkId = parseInt(req.params.id);
+      const framework = await storage.getFramework(frameworkId);
+      if (!framework) {
+        return res.status(404).json({ message: "Framework not found" });
+      }
+      await storage.archiveFramework(frameworkId);
+      res.json({ message: "Framework archived successfully" });
+    } catch (error: any) {
+      console.error("Framework deletion error:", error);
+      res.status(500).json({ message: "Failed to archive framework", error: error.message });
+    }
+  });
+
+  // Get all steps with substeps and behaviors.
+  // ?version=<framework version id> returns the snapshot an assessment was scored against,
+  // ?frameworkId=<id> the live steps of that framework (default framework otherwise).
+  app.get("/api/steps", requireAuth, async (req, res) => {
+    try {
+      if (req.query.version) {
+        const version = await storage.getFrameworkVersion(parseInt(req.query.version as string));
+        if (!version) {
+          return res.status(404).json({ message: "Framework version not found" });
+        }
+        return res.json(version.snapshot.steps);
+      }
+
+      const frameworkId = req.query.frameworkId ? parseInt(req.query.frameworkId as string) : undefined;
+      const steps = await storage.getAllSteps(frameworkId);
       res.json(steps);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch steps" });
     }
   });
 
+  // List framework versions without their snapshots
+  app.get("/api/framework-versions", requireAuth, async (req, res) => {
+    try {
+      const frameworkId = req.query.frameworkId ? parseInt(req.query.frameworkId as string) : undefined;
+      const versions = await storage.getAllFrameworkVersions(frameworkId);
+      res.json(versions.map(({ snapshot, ...version }) => version));
+    } catch (error: any) {
+      console.error("Error fetching framework versions:", error);
+      res.status(500).json({ message: "Failed to fetch framework versions", error: error.message });
+    }
+  });
+
+  app.get("/api/framework-versions/:id", requireAuth, async (req, res) => {
+    try {
+      const version = await storage.getFrameworkVersion(parseInt(req.params.id));
+      if (!version) {
+        return res.status(404).json({ message: "Framework version not found" });
+      }
+      res.json(version);
+    } catch (error: any) {
+      console.error("Error fetching framework version:", error);
+      res.status(500).json({ message: "Failed to fetch framework version", error: error.message });
+    }
+  });
+
+  // Framework administration - steps, substeps and behaviors.
+  // Deletes archive rows instead of removing them so historic scores keep resolving.
+  app.post("/api/steps", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertStepSchema.parse(req.body);
+      const framework = await storage.getFramework(validatedData.frameworkId);
+      if (!framework || framework.archived) {
+        return res.status(404).json({ message: "Framework not found" });
+      }
+      const step = await storage.createStep(validatedData);
+      res.json(step);
+    } catch (error: any) {
+      console.error("Step creation error:", error);
+      res.status(400).json({ message: "Invalid step data", error: error.message });
+    }
+  });
+
+  // Reorder routes are registered before the :id routes so "reorder" is not parsed as an id
+  app.put("/api/steps/reorder", requireRole("admin"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      await storage.reorderSteps(ids);
+      res.json({ message: "Steps reordered successfully" });
+    } catch (error: any) {
+      console.error("Step reorder error:", error);
+      res.status(400).json({ message: "Invalid reorder data", error: error.message });
+    }
+  });
+
+  app.put("/api/steps/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const stepId = parseInt(req.params.id);
+      const validatedData = updateStepSchema.parse(req.body);
+      const step = await storage.updateStep(stepId, validatedData);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      res.json(step);
+    } catch (error: any) {
+      console.error("Step update error:", error);
+      res.status(400).json({ message: "Invalid step data", error: error.message });
+    }
+  });
+
+  app.delete("/api/steps/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const stepId = parseInt(req.params.id);
+      const step = await storage.getStep(stepId);
+      if (!step) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      await storage.archiveStep(stepId);
+      res.json({ message: "Step archived successfully" });
+    } catch (error) {
+      console.error("Step deletion error:", error);
+      res.status(500).json({ message: "Failed to delete step" });
+    }
+  });
+
+  app.post("/api/substeps", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertSubstepSchema.parse(req.body);
+      const step = await storage.getStep(validatedData.stepId);
+      if (!step || step.archived) {
+        return res.status(404).json({ message: "Step not found" });
+      }
+      const substep = await storage.createSubstep(validatedData);
+      res.json(substep);
+    } catch (error: any) {
+      console.error("Substep creation error:", error);
+      res.status(400).json({ message: "Invalid substep data", error: error.message });
+    }
+  });
+
+  app.put("/api/substeps/reorder", requireRole("admin"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      await storage.reorderSubsteps(ids);
+      res.json({ message: "Substeps reordered successfully" });
+    } catch (error: any) {
+      console.error("Substep reorder error:", error);
+      res.status(400).json({ message: "Invalid reorder data", error: error.message });
+    }
+  });
+
+  app.put("/api/substeps/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const substepId = parseInt(req.params.id);
+      const validatedData = updateSubstepSchema.parse(req.body);
+      const substep = await storage.updateSubstep(substepId, validatedData);
+      if (!substep) {
+        return res.status(404).json({ message: "Substep not found" });
+      }
+      res.json(substep);
+    } catch (error: any) {
+      console.error("Substep update error:", error);
+      res.status(400).json({ message: "Invalid substep data", error: error.message });
+    }
+  });
+
+  app.delete("/api/substeps/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const substepId = parseInt(req.params.id);
+      const substep = await storage.getSubstep(substepId);
+      if (!substep) {
+        return res.status(404).json({ message: "Substep not found" });
+      }
+      await storage.archiveSubstep(substepId);
+      res.json({ message: "Substep archived successfully" });
+    } catch (error) {
+      console.error("Substep deletion error:", error);
+      res.status(500).json({ message: "Failed to delete substep" });
+    }
+  });
+
+  app.post("/api/behaviors", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertBehaviorSchema.parse(req.body);
+      const substep = await storage.getSubstep(validatedData.substepId);
+      if (!substep || substep.archived) {
+        return res.status(404).json({ message: "Substep not found" });
+      }
+      const behavior = await storage.createBehavior(validatedData);
+      res.json(behavior);
+    } catch (error: any) {
+      console.error("Behavior creation error:", error);
+      res.status(400).json({ message: "Invalid behavior data", error: error.message });
+    }
+  });
+
+  app.put("/api/behaviors/reorder", requireRole("admin"), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      await storage.reorderBehaviors(ids);
+      res.json({ message: "Behaviors reordered successfully" });
+    } catch (error: any) {
+      console.error("Behavior reorder error:", error);
+      res.status(400).json({ message: "Invalid reorder data", error: error.message });
+    }
+  });
+
+  app.put("/api/behaviors/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const behaviorId = parseInt(req.params.id);
+      const validatedData = updateBehaviorSchema.parse(req.body);
+      const behavior = await storage.updateBehavior(behaviorId, validatedData);
+      if (!behavior) {
+        return res.status(404).json({ message: "Behavior not found" });
+      }
+      res.json(behavior);
+    } catch (error: any) {
+      console.error("Behavior update error:", error);
+      res.status(400).json({ message: "Invalid behavior data", error: error.message });
+    }
+  });
+
+  app.delete("/api/behaviors/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const behaviorId = parseInt(req.params.id);
+      await storage.archiveBehavior(behaviorId);
+      res.json({ message: "Behavior archived successfully" });
+    } catch (error) {
+      console.error("Behavior deletion error:", error);
+      res.status(500).json({ message: "Failed to delete behavior" });
+    }
+  });
+
   // Create a new assessment
-  app.post("/api/assessments", async (req, res) => {
+  app.post("/api/assessments", requireRole("admin", "coach"), requireVerifiedEmail, async (req, res) => {
     try {
       console.log("Assessment creation request body:", req.body);
-      const validatedData = insertAssessmentSchema.parse(req.body);
+      // Coaches always record sessions under their own account; admins may record on behalf of a coach
+      const coachId = req.user!.role === "admin" && req.body.userId ? req.body.userId : req.user!.id;
+      // The coachee is linked by id; their current name is stored alongside for display
+      const assesseeUserId = Number(req.body.assesseeUserId);
+      const coachee = Number.isInteger(assesseeUserId) ? await storage.getUserById(assesseeUserId) : undefined;
+      if (!coachee) {
+        return res.status(400).json({ message: "Coachee not found" });
+      }
+      const validatedData = insertAssessmentSchema.parse({
+        ...req.body,
+        userId: coachId,
+        assesseeUserId: coachee.id,
+        assesseeName: coachee.fullName,
+      });
       console.log("Validated data:", validatedData);
+      if (validatedData.frameworkId) {
+        const framework = await storage.getFramework(validatedData.frameworkId);
+        if (!framework || framework.archived) {
+          return res.status(404).json({ message: "Framework not found" });
+        }
+      }
+      // Focus steps must be live steps of the framework the session is pinned to
+      if (validatedData.focusStepIds) {
+        const frameworkSteps = await storage.getAllSteps(validatedData.frameworkId ?? undefined);
+        const frameworkStepIds = new Set(frameworkSteps.map(step => step.id));
+        const unknownStepId = validatedData.focusStepIds.find(stepId => !frameworkStepIds.has(stepId));
+        if (unknownStepId !== undefined) {
+          return res.status(400).json({ message: "Invalid assessment data", error: `Step ${unknownStepId} is not part of this framework` });
+        }
+        validatedData.focusStepIds = Array.from(new Set(validatedData.focusStepIds));
+      }
       const assessment = await storage.createAssessment(validatedData);
       res.json(assessment);
     } catch (error: any) {
@@ -35,9 +406,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The coachee's answer while their own self-assessment is still outstanding
+  const coachScoresWithheld = {
+    message: "Submit your self-assessment to see your coach's ratings",
+    selfAssessmentRequired: true,
+  };
+
   // Get assessment scores
-  app.get("/api/assessments/:id/scores", async (req, res) => {
+  app.get("/api/assessments/:id/scores", requireAssessmentAccess("view"), async (req, res) => {
     try {
+      if (!await AccessPolicy.canViewCoachScores(req.user!, res.locals.assessment!)) {
+        return res.status(403).json(coachScoresWithheld);
+      }
       const assessmentId = parseInt(req.params.id);
       const scores = await storage.getAssessmentScores(assessmentId);
       res.json(scores);
@@ -47,15 +427,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update assessment score
-  app.put("/api/assessments/:assessmentId/scores/:behaviorId", async (req, res) => {
+  app.put("/api/assessments/:assessmentId/scores/:behaviorId", requireAssessmentAccess("edit", "assessmentId"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.assessmentId);
       const behaviorId = parseInt(req.params.behaviorId);
-      const { checked } = req.body;
+      const parsed = updateAssessmentScoreSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid score data", error: parsed.error.message });
+      }
+      const { observation } = parsed.data;
 
-      console.log(`Updating score for assessment ${assessmentId}, behavior ${behaviorId}, checked: ${checked}`);
+      console.log(`Updating score for assessment ${assessmentId}, behavior ${behaviorId}, observation: ${observation}`);
 
-      const score = await storage.updateAssessmentScore(assessmentId, behaviorId, checked);
+      const score = await storage.updateAssessmentScore(assessmentId, behaviorId, observation);
       res.json(score);
     } catch (error: any) {
       console.error("Score update error:", error);
@@ -64,7 +448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User routes
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", requireRole("admin", "coach"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       
@@ -89,7 +473,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get unique teams for dropdown suggestions
-  app.get("/api/teams", async (req, res) => {
+  app.get("/api/teams", requireAuth, async (req, res) => {
     try {
       console.log("Teams GET request received");
       const startTime = Date.now();
@@ -105,7 +489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all teams with full details (including IDs)
-  app.get("/api/teams/all", async (req, res) => {
+  app.get("/api/teams/all", requireAuth, async (req, res) => {
     try {
       const teams = await storage.getAllTeams();
       res.json(teams);
@@ -115,9 +499,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  // Coaches bring in coachees through invitations
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
     try {
-      const validatedData = insertUserSchema.parse(req.body);
+      const validatedData = createUserSchema.parse(req.body);
       
       // Check if email already exists
       const existingUser = await storage.getUserByEmail(validatedData.email);
@@ -136,21 +521,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  // Invitations: the invitee sets their own password from the emailed link (see /api/auth/accept-invitation)
+  const INVITATION_LIFETIME_MS = 7 * 24 * 3600000; // The invitation email promises 7 days
+
+  const isInvitationExpired = (invitation: InvitationWithTeams) => new Date() > invitation.expiresAt;
+
+  // Coaches manage the invitations they sent; admins manage all of them
+  const canManageInvitation = (user: User, invitation: InvitationWithTeams) =>
+    user.role === "admin" || invitation.invitedBy === user.id;
+
+  const toPendingInvitation = async ({ token, ...invitation }: InvitationWithTeams): Promise<PendingInvitation> => {
+    const inviter = invitation.invitedBy ? await storage.getUserById(invitation.invitedBy) : undefined;
+    return { ...invitation, inviterName: inviter?.fullName ?? null };
+  };
+
+  app.get("/api/invitations", requireRole("admin", "coach"), async (req, res) => {
+    try {
+      const invitations = await storage.getPendingInvitations();
+      res.json(await Promise.all(invitations.map(toPendingInvitation)));
+    } catch (error: any) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations", error: error.message });
+    }
+  });
+
+  app.post("/api/invitations", requireRole("admin", "coach"), async (req, res) => {
+    try {
+      const parsed = createInvitationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invitation", error: parsed.error.issues[0]?.message });
+      }
+      const { email, fullName, teamIds } = parsed.data;
+      // Coaches can invite coachees; only admins can invite coaches or admins
+      const role = req.user!.role === "admin" ? parsed.data.role : "coachee";
+
+      // Passwordless coachee records can still be invited; they claim the record on acceptance
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser && (existingUser.passwordHash || existingUser.deletedAt)) {
+        return res.status(409).json({ message: "Email address is already registered in the system", field: "email" });
+      }
+
+      const pending = await storage.getPendingInvitations();
+      if (pending.some(invitation => invitation.email === email && !isInvitationExpired(invitation))) {
+        return res.status(409).json({ message: "An invitation for this email address is already pending", field: "email" });
+      }
+
+      const knownTeamIds = new Set((await storage.getAllTeams()).map(team => team.id));
+      if (teamIds.some(teamId => !knownTeamIds.has(teamId))) {
+        return res.status(400).json({ message: "Invalid invitation", error: "Unknown team" });
+      }
+
+      const invitation = await storage.createInvitation({
+        email,
+        fullName,
+        role,
+        language: req.user!.language,
+        token: crypto.randomBytes(32).toString("hex"),
+        invitedBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITATION_LIFETIME_MS),
+      }, teamIds);
+
+      const emailSent = await EmailService.sendInvitationEmail(email, invitation.token, fullName, req.user!.fullName, invitation.language);
+      if (!emailSent) {
+        // An invitation nobody received would only block inviting the address again
+        await storage.revokeInvitation(invitation.id);
+        return res.status(500).json({ message: "Failed to send the invitation email" });
+      }
+
+      res.json(await toPendingInvitation(invitation));
+    } catch (error: any) {
+      console.error("Invitation creation error:", error);
+      res.status(500).json({ message: "Failed to create invitation", error: error.message });
+    }
+  });
+
+  // Sends a fresh link, e.g. after the previous one expired
+  app.post("/api/invitations/:id/resend", requireRole("admin", "coach"), async (req, res) => {
+    try {
+      const invitation = await storage.getInvitation(parseInt(req.params.id));
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (!canManageInvitation(req.user!, invitation)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+
+      const token = crypto.randomBytes(32).toString("hex");
+      const renewed = await storage.renewInvitation(invitation.id, token, new Date(Date.now() + INVITATION_LIFETIME_MS));
+
+      const emailSent = await EmailService.sendInvitationEmail(renewed.email, token, renewed.fullName, req.user!.fullName, renewed.language);
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send the invitation email" });
+      }
+
+      res.json(await toPendingInvitation({ ...renewed, teams: invitation.teams }));
+    } catch (error: any) {
+      console.error("Invitation resend error:", error);
+      res.status(500).json({ message: "Failed to resend invitation", error: error.message });
+    }
+  });
+
+  app.delete("/api/invitations/:id", requireRole("admin", "coach"), async (req, res) => {
+    try {
+      const invitation = await storage.getInvitation(parseInt(req.params.id));
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (!canManageInvitation(req.user!, invitation)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+
+      await storage.revokeInvitation(invitation.id);
+      res.json({ message: "Invitation revoked" });
+    } catch (error: any) {
+      console.error("Invitation revoke error:", error);
+      res.status(500).json({ message: "Failed to revoke invitation", error: error.message });
+    }
+  });
+
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
+      if (!(await AccessPolicy.canViewUser(req.user!, userId))) {
+        return res.status(403).json({ message: "You do not have access to this user" });
+      }
       const user = await storage.getUserById(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(AuthService.toPublicUser(user));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
   // Get assessment with user details
-  app.get("/api/assessments/:id", async (req, res) => {
+  app.get("/api/assessments/:id", requireAssessmentAccess("view"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
       const assessment = await storage.getAssessmentWithUser(assessmentId);
@@ -164,7 +670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all users
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", requireRole("admin", "coach"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -178,9 +684,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const userUpdateQueue = new Map<number, Promise<any>>();
 
   // Update user
-  app.put("/api/users/:id", async (req, res) => {
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
     const userId = parseInt(req.params.id);
-    const userData = req.body;
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid user data", error: parsed.error.message });
+    }
+    const userData = parsed.data;
     
     try {
       console.log(`\n=== USER UPDATE REQUEST ===`);
@@ -213,7 +723,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`✅ Total request completed in ${Date.now() - startTime}ms`);
       console.log(`=== END USER UPDATE ===\n`);
-      res.json(updatedUser);
+      res.json(AuthService.toPublicUser(updatedUser));
     } catch (error) {
       console.error("❌ Error updating user:", error);
       userUpdateQueue.delete(userId);
@@ -222,7 +732,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete user
-  app.delete("/api/users/:id", async (req, res) => {
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       await storage.deleteUser(userId);
@@ -233,40 +743,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create assessment
-  app.post("/api/assessments", async (req, res) => {
+  // Lift a lockout caused by failed sign-ins
+  app.post("/api/users/:id/unlock", requireRole("admin"), async (req, res) => {
     try {
-      const { title, userId, assesseeName } = req.body;
-      console.log("Assessment creation request body:", req.body);
-      
-      if (!title || !userId) {
-        return res.status(400).json({ message: "Title and userId are required" });
+      const userId = parseInt(req.params.id);
+      const user = await LoginThrottle.unlockAccount(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-
-      const validatedData = {
-        title,
-        userId,
-        assesseeName: assesseeName || "Unknown",
-        context: req.body.context || null,
-        keyObservations: req.body.keyObservations || null,
-        whatWorkedWell: req.body.whatWorkedWell || null,
-        whatCanBeImproved: req.body.whatCanBeImproved || null,
-        nextSteps: req.body.nextSteps || null
-      };
-      
-      console.log("Validated data:", validatedData);
-
-      const assessment = await storage.createAssessment(validatedData);
-      
-      res.json(assessment);
-    } catch (error) {
-      console.error("Error creating assessment:", error);
-      res.status(500).json({ message: "Failed to create assessment" });
+      res.json({ message: "Account unlocked successfully" });
+    } catch (error: any) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user", error: error.message });
     }
   });
 
   // Update assessment with coaching session data
-  app.put("/api/assessments/:id", async (req, res) => {
+  app.put("/api/assessments/:id", requireAssessmentAccess("edit"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
       const { context, keyObservations, whatWorkedWell, whatCanBeImproved, nextSteps } = req.body;
@@ -295,10 +788,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PATCH endpoint for assessment updates (including status changes)
-  app.patch("/api/assessments/:id", async (req, res) => {
+  app.patch("/api/assessments/:id", requireAssessmentAccess("edit"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
-      const updateData = req.body;
+      const parsed = updateAssessmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assessment data", error: parsed.error.message });
+      }
+      const updateData = parsed.data;
       
       console.log("PATCH - Updating assessment", assessmentId, "with data:", updateData);
 
@@ -310,21 +807,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Writes the PDF report of an assessment to uploads/ and returns its filename
+  const generateCoachingReport = async (assessment: Assessment, requester: User): Promise<string> => {
+    const [assessmentScores, stepScores, snapshot, selfAssessment] = await Promise.all([
+      storage.getAssessmentScores(assessment.id),
+      storage.getStepScores(assessment.id),
+      // Render against the framework version (and scoring policy) the assessment was scored with
+      storage.getSnapshotForAssessment(assessment),
+      storage.getSelfAssessment(assessment.id)
+    ]);
+    // Only a submitted self-assessment is compared in the report
+    const selfAssessmentScores = selfAssessment?.status === "submitted"
+      ? await storage.getSelfAssessmentScores(selfAssessment.id)
+      : null;
+
+    // assessments.userId is the coach who ran the session
+    const coach = await storage.getUserById(assessment.userId) ?? requester;
+
+    return PDFGenerator.generateCoachingReport({
+      assessment,
+      coach,
+      steps: snapshot.steps,
+      scoringPolicy: snapshot.scoringPolicy,
+      assessmentScores,
+      stepScores,
+      selfAssessmentScores
+    });
+  };
+
   // Generate and serve PDF on demand
-  app.get("/api/assessments/:id/pdf", async (req, res) => {
+  app.get("/api/assessments/:id/pdf", requireAssessmentAccess("view"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
-      
-      // Get all required data for PDF generation
-      const [assessment, steps, assessmentScores, stepScores] = await Promise.all([
-        storage.getAssessment(assessmentId),
-        storage.getAllSteps(),
-        storage.getAssessmentScores(assessmentId),
-        storage.getStepScores(assessmentId)
-      ]);
-
-      if (!assessment) {
-        return res.status(404).json({ message: "Assessment not found" });
+      const assessment = res.locals.assessment!;
+      if (!await AccessPolicy.canViewCoachScores(req.user!, assessment)) {
+        return res.status(403).json(coachScoresWithheld);
       }
 
       // Check if assessment has been saved (has coaching notes)
@@ -336,49 +853,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get coachee data (the person being assessed)
-      const coachee = await storage.getUserById(assessment.userId);
-      if (!coachee) {
-        return res.status(404).json({ message: "Coachee not found" });
-      }
-
-      // Get the authenticated coach from the request headers
-      const authHeader = req.headers.authorization;
-      let coach = null;
-      
-      console.log("PDF Generation - Auth header:", authHeader ? "Present" : "Missing");
-      
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        try {
-          const decoded = AuthService.verifyToken(token);
-          console.log("PDF Generation - Token decoded:", decoded ? "Success" : "Failed");
-          if (decoded) {
-            coach = await AuthService.getUserById(decoded.userId);
-            console.log("PDF Generation - Coach found:", coach ? coach.fullName : "Not found");
-          }
-        } catch (error) {
-          console.log('PDF Generation - Token verification failed:', error);
-        }
-      }
-      
-      // If no authenticated coach found, get default user (first user in system)
-      if (!coach) {
-        const users = await storage.getAllUsers();
-        coach = users.length > 0 ? users[0] : coachee;
-        console.log("PDF Generation - Using fallback coach:", coach.fullName);
-      }
-
       console.log("Generating PDF for assessment", assessmentId);
-      
-      // Generate PDF
-      const pdfFilename = await PDFGenerator.generateCoachingReport({
-        assessment,
-        coach,
-        steps,
-        assessmentScores,
-        stepScores
-      });
+      const pdfFilename = await generateCoachingReport(assessment, req.user!);
 
       const filePath = PDFGenerator.getFilePath(pdfFilename);
       
@@ -411,11 +887,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Email a submitted assessment's PDF report to the coachee, optionally copying their manager
+  app.post("/api/share-assessment", requireRole("admin", "coach"), async (req, res) => {
+    try {
+      const parsed = shareAssessmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid share request", error: parsed.error.issues[0]?.message });
+      }
+      const { assessmentId, managerEmail } = parsed.data;
+
+      const assessment = await storage.getAssessment(assessmentId);
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      if (!AccessPolicy.canEditAssessment(req.user!, assessment)) {
+        return res.status(403).json({ message: "You do not have access to this assessment" });
+      }
+      if (assessment.status !== "submitted") {
+        return res.status(400).json({ message: "Only submitted assessments can be shared" });
+      }
+
+      const coachee = assessment.assesseeUserId ? await storage.getUserById(assessment.assesseeUserId) : undefined;
+      if (!coachee) {
+        return res.status(400).json({ message: "This assessment is not linked to a coachee account" });
+      }
+
+      const pdfFilename = await generateCoachingReport(assessment, req.user!);
+      const filePath = PDFGenerator.getFilePath(pdfFilename);
+      const fs = await import('fs');
+      const content = await fs.promises.readFile(filePath);
+      await fs.promises.unlink(filePath).catch(cleanupError => console.error('Error cleaning up PDF file:', cleanupError));
+
+      const coach = await storage.getUserById(assessment.userId) ?? req.user!;
+      const emailSent = await EmailService.sendAssessmentReport({
+        to: coachee.email,
+        cc: managerEmail ? [managerEmail] : undefined,
+        coacheeName: coachee.fullName,
+        coachName: coach.fullName,
+        coachEmail: coach.email,
+        assessmentTitle: assessment.title,
+        report: { filename: pdfFilename, content, contentType: "application/pdf" },
+        language: coachee.language,
+      });
+
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send the assessment email" });
+      }
+
+      res.json({ message: `Assessment shared with ${coachee.email}${managerEmail ? ` and ${managerEmail}` : ""}` });
+    } catch (error: any) {
+      console.error("Error sharing assessment:", error);
+      res.status(500).json({ message: "Failed to share assessment", error: error.message });
+    }
+  });
+
   // Get all assessments
-  app.get("/api/assessments", async (req, res) => {
+  app.get("/api/assessments", requireAuth, async (req, res) => {
     try {
       const assessments = await storage.getAllAssessments();
-      res.json(assessments);
+      res.json(AccessPolicy.filterAssessments(req.user!, assessments));
     } catch (error) {
       console.error("Error fetching assessments:", error);
       res.status(500).json({ message: "Failed to fetch assessments" });
@@ -423,7 +953,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get assessment by ID
-  app.get("/api/assessments/:id", async (req, res) => {
+  app.get("/api/assessments/:id", requireAssessmentAccess("view"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
       const assessment = await storage.getAssessment(assessmentId);
@@ -440,9 +970,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get latest assessment for a user
-  app.get("/api/users/:userId/latest-assessment", async (req, res) => {
+  app.get("/api/users/:userId/latest-assessment", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      if (req.user!.role !== "admin" && req.user!.id !== userId) {
+        return res.status(403).json({ message: "You do not have access to this user's assessments" });
+      }
       const latestAssessment = await storage.getLatestAssessmentForUser(userId);
       
       if (!latestAssessment) {
@@ -456,13 +989,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get latest assessment for a coachee by name
-  app.get("/api/coachees/:coacheeName/latest-assessment", async (req, res) => {
+  // Get latest assessment for a coachee
+  app.get("/api/coachees/:coacheeId/latest-assessment", requireAuth, async (req, res) => {
     try {
-      const coacheeName = decodeURIComponent(req.params.coacheeName);
-      const latestAssessment = await storage.getLatestAssessmentForCoachee(coacheeName);
+      const coacheeId = parseInt(req.params.coacheeId);
+      const latestAssessment = await storage.getLatestAssessmentForCoachee(coacheeId);
       
-      if (!latestAssessment) {
+      if (!latestAssessment || !AccessPolicy.canViewAssessment(req.user!, latestAssessment)) {
         return res.status(404).json({ message: "No previous assessment found for this coachee" });
       }
       
@@ -474,13 +1007,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get previous assessment for a coachee (excluding specified assessment ID)
-  app.get("/api/coachees/:coacheeName/previous-assessment/:excludeId", async (req, res) => {
+  app.get("/api/coachees/:coacheeId/previous-assessment/:excludeId", requireAuth, async (req, res) => {
     try {
-      const coacheeName = decodeURIComponent(req.params.coacheeName);
+      const coacheeId = parseInt(req.params.coacheeId);
       const excludeId = parseInt(req.params.excludeId);
-      const previousAssessment = await storage.getPreviousAssessmentForCoachee(coacheeName, excludeId);
+      // Only sessions from the same framework can serve as a baseline
+      const excludedAssessment = await storage.getAssessment(excludeId);
+      const previousAssessment = await storage.getPreviousAssessmentForCoachee(coacheeId, excludeId, excludedAssessment?.frameworkId);
       
-      if (!previousAssessment) {
+      if (!previousAssessment || !AccessPolicy.canViewAssessment(req.user!, previousAssessment)) {
         return res.status(404).json({ message: "No previous assessment found for this coachee" });
       }
       
@@ -491,26 +1026,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get assessment scores
-  app.get("/api/assessments/:id/scores", async (req, res) => {
+  // Unified step levels of every assessment of a coachee the caller can see, oldest first
+  app.get("/api/coachees/:id/progress", requireAuth, async (req, res) => {
     try {
-      const assessmentId = parseInt(req.params.id);
-      const scores = await storage.getAssessmentScores(assessmentId);
-      res.json(scores);
-    } catch (error) {
-      console.error("Error fetching assessment scores:", error);
-      res.status(500).json({ message: "Failed to fetch assessment scores" });
-    }
+      const coacheeId = parseInt(req.params.id);
+      if (!(await AccessPolicy.canViewUser(req.user!, coacheeId))) {
+        return res.status(403).json({ message: "You do not have access to this coachee" });
+      }
+      const coachee = await storage.getUserById(coacheeId);
+      if (!coachee) {
+        return res.status(404).json({ message: "Coachee not found" });
+      }
+
+      // Sessions whose ratings are withheld until the coachee's self-assessment is in are left out
+      const accessibleAssessments = AccessPolicy.filterAssessments(req.user!, await storage.getAssessmentsForCoachee(coacheeId));
+      const scoresVisible = await Promise.all(
+        accessibleAssessments.map(assessment => AccessPolicy.canViewCoachScores(req.user!, assessment))
+      );
+      const visibleAssessments = accessibleAssessments.filter((_, index) => scoresVisible[index]);
+
+      const entries = await Promise.all(visibleAssessments.map(async (assessment): Promise<CoacheeProgressEntry> => {
+        // Each session is scored against the framework version it pinned
+        const [snapshot, assessmentScores, stepScores] = await Promise.all([
+          storage.getSnapshotForAssessment(assessment),
+          storage.getAssessmentScores(assessment.id),
+          storage.getStepScores(assessment.id)
+        ]);
+        const steps = StepLevelCalculator.getFocusSteps(snapshot.steps, assessment.focusStepIds);
+        const stepLevels = StepLevelCalculator.getUnifiedStepLevels(steps, assessmentScores, stepScores, snapshot.scoringPolicy);
+
+        return {
+          assessmentId: assessment.id,
+          title: assessment.title,
+          status: assessment.status,
+          createdAt: assessment.createdAt,
+          frameworkId: assessment.frameworkId,
+          overallLevel: StepLevelCalculator.getOverallProficiencyLevel(stepLevels, snapshot.scoringPolicy).level,
+          steps: steps.map((step, index) => ({
+            stepId: step.id,
+            title: step.title,
+            level: stepLevels[index].level,
+            source: stepLevels[index].source,
+            assessed: StepLevelCalculator.isAssessed(stepLevels[index]),
+          })),
+        };
+      }));
+
+      const progress: CoacheeProgress = {
+        coachee: { id: coachee.id, fullName: coachee.fullName, email: coachee.email, team: coachee.team },
+        assessments: entries,
+      };
+      res.json(progress);
+    } catch (error: any) {
+      console.error("Error fetching coachee progress:", error);
+      res.status(500).json({ message: "Failed to fetch coachee progress", error: error.message });
+    }
+  });
+
+  // Get assessment scores
+  app.get("/api/assessments/:id/scores", requireAssessmentAccess("view"), async (req, res) => {
+    try {
+      if (!await AccessPolicy.canViewCoachScores(req.user!, res.locals.assessment!)) {
+        return res.status(403).json(coachScoresWithheld);
+      }
+      const assessmentId = parseInt(req.params.id);
+      const scores = await storage.getAssessmentScores(assessmentId);
+      res.json(scores);
+    } catch (error) {
+      console.error("Error fetching assessment scores:", error);
+      res.status(500).json({ message: "Failed to fetch assessment scores" });
+    }
   });
 
-  // Update assessment score (behavior checkbox)
-  app.put("/api/assessments/:id/scores/:behaviorId", async (req, res) => {
+  // Update assessment score (behavior observation)
+  app.put("/api/assessments/:id/scores/:behaviorId", requireAssessmentAccess("edit"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
       const behaviorId = parseInt(req.params.behaviorId);
-      const { checked } = req.body;
+      const parsed = updateAssessmentScoreSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid score data", error: parsed.error.message });
+      }
       
-      const score = await storage.updateAssessmentScore(assessmentId, behaviorId, checked);
+      const score = await storage.updateAssessmentScore(assessmentId, behaviorId, parsed.data.observation);
       res.json(score);
     } catch (error) {
       console.error("Error updating assessment score:", error);
@@ -518,9 +1116,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update the evidence note on a behavior
+  app.put("/api/assessments/:id/scores/:behaviorId/note", requireAssessmentAccess("edit"), async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      const behaviorId = parseInt(req.params.behaviorId);
+      const parsed = updateScoreNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid note", error: parsed.error.message });
+      }
+
+      const score = await storage.updateAssessmentScoreNote(assessmentId, behaviorId, parsed.data.note);
+      res.json(score);
+    } catch (error) {
+      console.error("Error updating behavior note:", error);
+      res.status(500).json({ message: "Failed to update behavior note" });
+    }
+  });
+
   // Get step scores
-  app.get("/api/assessments/:id/step-scores", async (req, res) => {
+  app.get("/api/assessments/:id/step-scores", requireAssessmentAccess("view"), async (req, res) => {
     try {
+      if (!await AccessPolicy.canViewCoachScores(req.user!, res.locals.assessment!)) {
+        return res.status(403).json(coachScoresWithheld);
+      }
       const assessmentId = parseInt(req.params.id);
       const stepScores = await storage.getStepScores(assessmentId);
       res.json(stepScores);
@@ -531,7 +1150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update step score (manual step level)
-  app.put("/api/assessments/:id/step-scores/:stepId", async (req, res) => {
+  app.put("/api/assessments/:id/step-scores/:stepId", requireAssessmentAccess("edit"), async (req, res) => {
     try {
       const assessmentId = parseInt(req.params.id);
       const stepId = parseInt(req.params.stepId);
@@ -547,7 +1166,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Authentication routes
+  // Update the evidence note on a step
+  app.put("/api/assessments/:id/step-scores/:stepId/note", requireAssessmentAccess("edit"), async (req, res) => {
+    try {
+      const assessmentId = parseInt(req.params.id);
+      const stepId = parseInt(req.params.stepId);
+      const parsed = updateScoreNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid note", error: parsed.error.message });
+      }
+
+      const stepScore = await storage.updateStepScoreNote(assessmentId, stepId, parsed.data.note);
+      res.json(stepScore);
+    } catch (error) {
+      console.error("Error updating step note:", error);
+      res.status(500).json({ message: "Failed to update step note" });
+    }
+  });
+
+  // Coachee self-assessment of a session, scored against the same steps as the coach's assessment.
+  // Drafts are private to the coachee; the coach's ratings are included once it is submitted.
+  app.get("/api/assessments/:id/self-assessment", requireAssessmentAccess("view"), async (req, res) => {
+    try {
+      const assessment = res.locals.assessment!;
+      const found = await storage.getSelfAssessment(assessment.id);
+      const selfAssessment = found && (found.status === "submitted" || AccessPolicy.canSelfAssess(req.user!, assessment))
+        ? found
+        : null;
+      const submitted = selfAssessment?.status === "submitted";
+
+      const [snapshot, selfScores, coachScores, coachStepScores] = await Promise.all([
+        storage.getSnapshotForAssessment(assessment),
+        selfAssessment ? storage.getSelfAssessmentScores(selfAssessment.id) : [],
+        submitted ? storage.getAssessmentScores(assessment.id) : null,
+        submitted ? storage.getStepScores(assessment.id) : null
+      ]);
+
+      const detail: SelfAssessmentDetail = {
+        assessment,
+        selfAssessment,
+        selfScores,
+        steps: StepLevelCalculator.getFocusSteps(snapshot.steps, assessment.focusStepIds),
+        scoringPolicy: snapshot.scoringPolicy,
+        coachScores,
+        coachStepScores,
+      };
+      res.json(detail);
+    } catch (error: any) {
+      console.error("Error fetching self-assessment:", error);
+      res.status(500).json({ message: "Failed to fetch self-assessment", error: error.message });
+    }
+  });
+
+  // Start the self-assessment; starting again returns the existing one
+  app.post("/api/assessments/:id/self-assessment", requireAssessmentAccess("view"), async (req, res) => {
+    try {
+      const assessment = res.locals.assessment!;
+      if (!AccessPolicy.canSelfAssess(req.user!, assessment)) {
+        return res.status(403).json({ message: "Only the coachee can fill in a self-assessment" });
+      }
+
+      const selfAssessment = await storage.createSelfAssessment(assessment.id, req.user!.id);
+      res.status(201).json(selfAssessment);
+    } catch (error: any) {
+      console.error("Error starting self-assessment:", error);
+      res.status(500).json({ message: "Failed to start self-assessment", error: error.message });
+    }
+  });
+
+  // The caller's own draft self-assessment, or undefined once a 403/404/409 has been sent
+  const getEditableSelfAssessment = async (req: Request, res: Response): Promise<SelfAssessment | undefined> => {
+    const assessment = res.locals.assessment!;
+    if (!AccessPolicy.canSelfAssess(req.user!, assessment)) {
+      res.status(403).json({ message: "Only the coachee can fill in a self-assessment" });
+      return undefined;
+    }
+    const selfAssessment = await storage.getSelfAssessment(assessment.id);
+    if (!selfAssessment) {
+      res.status(404).json({ message: "Self-assessment not found" });
+      return undefined;
+    }
+    if (selfAssessment.status === "submitted") {
+      res.status(409).json({ message: "Self-assessment has already been submitted" });
+      return undefined;
+    }
+    return selfAssessment;
+  };
+
+  app.put("/api/assessments/:id/self-assessment/scores/:behaviorId", requireAssessmentAccess("view"), async (req, res) => {
+    try {
+      const parsed = updateSelfAssessmentScoreSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid score data", error: parsed.error.message });
+      }
+      const selfAssessment = await getEditableSelfAssessment(req, res);
+      if (!selfAssessment) return;
+
+      // Only behaviors of the session's pinned framework version and focus steps can be rated
+      const assessment = res.locals.assessment!;
+      const behaviorId = parseInt(req.params.behaviorId);
+      const snapshot = await storage.getSnapshotForAssessment(assessment);
+      const inSession = StepLevelCalculator.getFocusSteps(snapshot.steps, assessment.focusStepIds)
+        .some(step => step.substeps.some(substep => substep.behaviors.some(behavior => behavior.id === behaviorId)));
+      if (!inSession) {
+        return res.status(404).json({ message: "Behavior is not part of this session" });
+      }
+
+      const score = await storage.updateSelfAssessmentScore(selfAssessment.id, behaviorId, parsed.data.observation);
+      res.json(score);
+    } catch (error: any) {
+      console.error("Error updating self-assessment score:", error);
+      res.status(500).json({ message: "Failed to update self-assessment score", error: error.message });
+    }
+  });
+
+  // Submitting shares the self-assessment with the coach and locks it
+  app.post("/api/assessments/:id/self-assessment/submit", requireAssessmentAccess("view"), async (req, res) => {
+    try {
+      const selfAssessment = await getEditableSelfAssessment(req, res);
+      if (!selfAssessment) return;
+
+      const submitted = await storage.submitSelfAssessment(selfAssessment.id);
+      res.json(submitted);
+    } catch (error: any) {
+      console.error("Error submitting self-assessment:", error);
+      res.status(500).json({ message: "Failed to submit self-assessment", error: error.message });
+    }
+  });
+
+  // Authentication routes. The short-lived access token is returned in the body; the refresh token
+  // lives in an httpOnly cookie that is only sent to /api/auth.
+  const REFRESH_COOKIE = "refresh_token";
+  const refreshCookieOptions = {
+    httpOnly: true,
+    secure: app.get("env") === "production",
+    sameSite: "strict" as const,
+    path: "/api/auth",
+  };
+
+  const startSession = async (req: Request, res: Response, userId: number): Promise<string> => {
+    const session = await AuthService.createSession(userId, req.get("user-agent"));
+    res.cookie(REFRESH_COOKIE, session.refreshToken, { ...refreshCookieOptions, expires: session.expiresAt });
+    return session.accessToken;
+  };
+
   app.post("/api/auth/register", async (req, res) => {
     try {
       const userData: UserRegistration = req.body;
@@ -562,7 +1324,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await AuthService.register(userData);
-      const token = AuthService.generateToken(user.id);
+      const token = await startSession(req, res, user.id);
+
+      // The account is usable straight away; a failed email can be resent from the profile
+      const verificationToken = await AuthService.createEmailVerificationToken(user.id);
+      const emailSent = await EmailService.sendVerificationEmail(user.email, verificationToken, user.fullName, user.language);
+      if (!emailSent) {
+        console.error("Failed to send verification email to:", user.email);
+      }
 
       res.json({ user, token });
     } catch (error: any) {
@@ -582,18 +1351,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Email and password are required" });
       }
 
+      // Locked accounts and noisy IP addresses are refused before the password is checked
+      const retryAfter = await LoginThrottle.getLoginRetryAfter(loginData.email, req.ip);
+      if (retryAfter > 0) {
+        await LoginThrottle.recordLoginFailure(loginData.email, req.ip, "rate-limited");
+        res.set("Retry-After", String(Math.ceil(retryAfter / 1000)));
+        return res.status(429).json({ error: LoginThrottle.describeRetryAfter(retryAfter) });
+      }
+
       const user = await AuthService.login(loginData);
       if (!user) {
+        await LoginThrottle.recordLoginFailure(loginData.email, req.ip, "invalid-credentials");
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      const token = AuthService.generateToken(user.id);
+      // Failures are only reset once the second step succeeds, so codes can't be guessed between password logins
+      if (user.totpEnabled) {
+        return res.json({ twoFactorRequired: true, challengeToken: AuthService.generateTwoFactorChallenge(user.id) });
+      }
+      await LoginThrottle.recordLoginSuccess(user.id, loginData.email, req.ip);
+
+      const token = await startSession(req, res, user.id);
       res.json({ user, token });
     } catch (error) {
       res.status(500).json({ error: "Failed to login" });
     }
   });
 
+  // Second sign-in step for accounts with two-factor authentication
+  app.post("/api/auth/login/2fa", async (req, res) => {
+    try {
+      const parsed = twoFactorLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+
+      const challenge = AuthService.verifyTwoFactorChallenge(parsed.data.challengeToken);
+      const user = challenge ? await AuthService.getUserById(challenge.userId) : null;
+      if (!user || user.deletedAt) {
+        return res.status(401).json({ error: "Sign-in has expired, please start again" });
+      }
+
+      const retryAfter = await LoginThrottle.getLoginRetryAfter(user.email, req.ip);
+      if (retryAfter > 0) {
+        await LoginThrottle.recordLoginFailure(user.email, req.ip, "rate-limited");
+        res.set("Retry-After", String(Math.ceil(retryAfter / 1000)));
+        return res.status(429).json({ error: LoginThrottle.describeRetryAfter(retryAfter) });
+      }
+
+      if (!(await TwoFactorService.verify(user.id, parsed.data.code))) {
+        await LoginThrottle.recordLoginFailure(user.email, req.ip, "invalid-credentials");
+        return res.status(401).json({ error: "Invalid verification code" });
+      }
+      await LoginThrottle.recordLoginSuccess(user.id, user.email, req.ip);
+
+      const token = await startSession(req, res, user.id);
+      res.json({ user, token });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ error: "Failed to login" });
+    }
+  });
+
+  // Google and Apple sign-in (OpenID Connect). The state, nonce and PKCE verifier ride in a signed
+  // cookie so a callback only completes in the browser that started the sign-in.
+  const PENDING_LOGIN_COOKIE = "oidc_login";
+  const getPendingLoginCookieOptions = (provider: OAuthProvider) => {
+    // Apple's form POST is a cross-site request, which never carries SameSite=Lax cookies
+    const formPost = OidcService.usesFormPost(provider);
+    return {
+      httpOnly: true,
+      secure: formPost || app.get("env") === "production",
+      sameSite: formPost ? "none" as const : "lax" as const,
+      path: "/api/auth/oidc",
+    };
+  };
+
+  app.get("/api/auth/providers", (req, res) => {
+    res.json(OidcService.getEnabledProviders());
+  });
+
+  app.get("/api/auth/oidc/:provider", async (req, res) => {
+    const { provider } = req.params;
+    if (!OidcService.isProvider(provider)) {
+      return res.status(404).json({ error: "Unknown sign-in provider" });
+    }
+
+    try {
+      const { url, pendingLogin } = await OidcService.getAuthorizationUrl(provider);
+      res.cookie(PENDING_LOGIN_COOKIE, AuthService.signPendingLogin(pendingLogin), {
+        ...getPendingLoginCookieOptions(provider),
+        maxAge: 10 * 60 * 1000,
+      });
+      res.redirect(url.href);
+    } catch (error) {
+      console.error(`Failed to start ${provider} sign-in:`, error);
+      res.redirect(`/login?error=${encodeURIComponent("Sign-in is currently unavailable. Please try again later.")}`);
+    }
+  });
+
+  // Messages that are safe to show on the login page; anything else is reported generically
+  const providerSignInErrors = new Set([
+    "Sign-in session expired",
+    "Provider did not share an email address",
+    "Email address is not verified with the provider",
+    "Account is linked to a different sign-in provider",
+    "Account has been deleted",
+  ]);
+
+  // Google returns with a query string, Apple posts the response as a form
+  const handleProviderCallback = async (req: Request, res: Response) => {
+    const { provider } = req.params;
+    if (!OidcService.isProvider(provider)) {
+      return res.status(404).json({ error: "Unknown sign-in provider" });
+    }
+
+    const pendingLoginToken = req.cookies?.[PENDING_LOGIN_COOKIE];
+    const pendingLogin = pendingLoginToken ? AuthService.verifyPendingLogin(pendingLoginToken) : null;
+    res.clearCookie(PENDING_LOGIN_COOKIE, getPendingLoginCookieOptions(provider));
+
+    const params = new URLSearchParams(req.method === "POST" ? req.body : req.query as Record<string, string>);
+    if (params.get("error")) {
+      return res.redirect(`/login?error=${encodeURIComponent("Sign-in was cancelled.")}`);
+    }
+
+    try {
+      const profile = await OidcService.handleCallback(provider, params, pendingLogin);
+      const user = await AuthService.loginWithProvider(profile);
+      if (user.totpEnabled) {
+        // The login page asks for the code and finishes through /api/auth/login/2fa
+        const challengeToken = AuthService.generateTwoFactorChallenge(user.id);
+        return res.redirect(`/login#twoFactor=${encodeURIComponent(challengeToken)}`);
+      }
+      await startSession(req, res, user.id);
+
+      // The page exchanges the refresh cookie for an access token
+      res.redirect("/oauth-callback");
+    } catch (error: any) {
+      console.error(`Failed to complete ${provider} sign-in:`, error);
+      const message = providerSignInErrors.has(error?.message) ? error.message : "Sign-in failed. Please try again.";
+      res.redirect(`/login?error=${encodeURIComponent(message)}`);
+    }
+  };
+
+  app.get("/api/auth/oidc/:provider/callback", handleProviderCallback);
+  app.post("/api/auth/oidc/:provider/callback", handleProviderCallback);
+
   app.post("/api/auth/forgot-password", async (req, res) => {
     try {
       const { email } = req.body;
@@ -602,6 +1505,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Email is required" });
       }
 
+      const { ipRetryAfter, emailAllowed } = await LoginThrottle.checkPasswordReset(email, req.ip);
+      if (ipRetryAfter > 0) {
+        await LoginThrottle.recordPasswordReset(email, req.ip, false);
+        res.set("Retry-After", String(Math.ceil(ipRetryAfter / 1000)));
+        return res.status(429).json({ error: LoginThrottle.describeRetryAfter(ipRetryAfter) });
+      }
+      await LoginThrottle.recordPasswordReset(email, req.ip, emailAllowed);
+      if (!emailAllowed) {
+        // Same answer as a sent email so the limit can't be used to probe addresses
+        return res.json({ message: "If an account with that email exists, we've sent a reset link." });
+      }
+
       // Generate reset token
       const resetToken = await AuthService.generateResetToken(email);
       
@@ -616,9 +1531,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ message: "If an account with that email exists, we've sent a reset link." });
       }
 
-      // Import and send email
-      const { EmailService } = await import('./emailService');
-      const emailSent = await EmailService.sendPasswordResetEmail(email, resetToken, user.fullName);
+      const emailSent = await EmailService.sendPasswordResetEmail(email, resetToken, user.fullName, user.language);
 
       if (!emailSent) {
         console.error("Failed to send password reset email to:", email);
@@ -657,29 +1570,401 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/auth/me", async (req, res) => {
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
     try {
-      // For simplicity, return the first available user from database
-      const users = await storage.getAllUsers();
-      if (users.length > 0) {
-        return res.json(users[0]);
+      const currentUser: CurrentUser = { ...req.user!, hasPassword: await AuthService.hasPassword(req.user!.id) };
+      res.json(currentUser);
+    } catch (error) {
+      console.error("Get current user error:", error);
+      res.status(500).json({ error: "Failed to load account" });
+    }
+  });
+
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const refreshToken = req.cookies?.[REFRESH_COOKIE];
+      const session = refreshToken ? await AuthService.refreshSession(refreshToken) : null;
+      if (!session) {
+        res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+        return res.status(401).json({ error: "Session has ended. Please sign in again." });
       }
-      
-      // If no users exist, return a basic user structure
-      return res.json({
-        id: 1,
-        fullName: "Default User",
-        email: "user@example.com",
-        team: null,
-        createdAt: new Date()
-      });
+
+      if (session.refreshToken) {
+        res.cookie(REFRESH_COOKIE, session.refreshToken, { ...refreshCookieOptions, expires: session.expiresAt });
+      }
+      res.json({ user: session.user, token: session.accessToken });
+    } catch (error) {
+      console.error("Refresh session error:", error);
+      res.status(500).json({ error: "Failed to refresh session" });
+    }
+  });
+
+  // Works with an expired access token: the refresh cookie identifies the session
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const refreshToken = req.cookies?.[REFRESH_COOKIE];
+      if (refreshToken) {
+        await AuthService.revokeSessionByRefreshToken(refreshToken);
+      }
+
+      const authHeader = req.headers.authorization;
+      const decoded = authHeader?.startsWith("Bearer ") ? AuthService.verifyToken(authHeader.substring(7)) : null;
+      if (decoded) {
+        await AuthService.revokeSession(decoded.sessionId);
+      }
+
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ error: "Failed to log out" });
+    }
+  });
+
+  app.post("/api/auth/logout-all", requireAuth, async (req, res) => {
+    try {
+      await AuthService.revokeAllSessions(req.user!.id);
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.json({ message: "Logged out of all devices" });
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({ error: "Failed to log out of all devices" });
+    }
+  });
+
+  // Two-factor authentication (TOTP) management
+  app.get("/api/auth/2fa", requireAuth, async (req, res) => {
+    try {
+      res.json(await TwoFactorService.getStatus(req.user!.id));
     } catch (error) {
-      res.status(500).json({ error: "Failed to get user info" });
+      console.error("Two-factor status error:", error);
+      res.status(500).json({ error: "Failed to load two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      if (req.user!.totpEnabled) {
+        return res.status(400).json({ error: "Two-factor authentication is already enabled" });
+      }
+      res.json(await TwoFactorService.createSetup(req.user!));
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", requireAuth, async (req, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+
+      const recoveryCodes = await TwoFactorService.enable(req.user!.id, parsed.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "Invalid verification code" });
+      }
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes });
+    } catch (error) {
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+      if (!(await TwoFactorService.verify(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ error: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!.id);
+      res.json({ message: "New recovery codes generated", recoveryCodes });
+    } catch (error) {
+      console.error("Recovery codes error:", error);
+      res.status(500).json({ error: "Failed to generate recovery codes" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireAuth, async (req, res) => {
+    try {
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+      if (await TwoFactorService.isRequiredFor(req.user!)) {
+        return res.status(400).json({ error: "Two-factor authentication is required for administrators" });
+      }
+      if (!(await TwoFactorService.verify(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ error: "Invalid verification code" });
+      }
+
+      await TwoFactorService.disable(req.user!.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Instance settings
+  app.get("/api/settings", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getAppSettings());
+    } catch (error: any) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings", error: error.message });
+    }
+  });
+
+  app.put("/api/settings", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = updateAppSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message });
+      }
+
+      // Otherwise the admin making the change would lock themselves out
+      if (parsed.data.requireAdminTwoFactor && !req.user!.totpEnabled) {
+        return res.status(400).json({ message: "Set up two-factor authentication on your own account first" });
+      }
+
+      res.json(await storage.updateAppSettings(parsed.data));
+    } catch (error: any) {
+      console.error("Error updating settings:", error);
+      res.status(500).json({ message: "Failed to update settings", error: error.message });
+    }
+  });
+
+  app.put("/api/auth/change-password", requireAuth, async (req, res) => {
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+
+      const changed = await AuthService.changePassword(req.user!.id, parsed.data.currentPassword, parsed.data.newPassword, req.authSessionId);
+      if (!changed) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+
+      res.json({ message: "Password changed successfully" });
+    } catch (error) {
+      console.error("Change password error:", error);
+      res.status(500).json({ error: "Failed to change password" });
+    }
+  });
+
+  app.put("/api/auth/preferences", requireAuth, async (req, res) => {
+    try {
+      const parsed = updatePreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+
+      const user = await storage.updateUser(req.user!.id, { language: parsed.data.language, updatedAt: new Date() });
+      res.json({ language: user.language });
+    } catch (error) {
+      console.error("Update preferences error:", error);
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+
+  // Starts an email change; the new address must be confirmed from the link sent to it
+  app.post("/api/auth/change-email", requireAuth, async (req, res) => {
+    try {
+      const parsed = changeEmailSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+      const { newEmail, password } = parsed.data;
+
+      if (newEmail === req.user!.email) {
+        return res.status(400).json({ error: "This is already your email address" });
+      }
+      if (!(await AuthService.verifyPassword(req.user!.id, password))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+
+      const token = await AuthService.requestEmailChange(req.user!.id, newEmail);
+      const emailSent = await EmailService.sendEmailChangeConfirmation(newEmail, token, req.user!.fullName, req.user!.language);
+      if (!emailSent) {
+        return res.status(500).json({ error: "Failed to send confirmation email" });
+      }
+
+      res.json({ message: `We've sent a confirmation link to ${newEmail}`, pendingEmail: newEmail });
+    } catch (error: any) {
+      if (error.message === 'Email already in use') {
+        return res.status(409).json({ error: "An account with this email already exists" });
+      }
+      console.error("Change email error:", error);
+      res.status(500).json({ error: "Failed to change email" });
+    }
+  });
+
+  app.post("/api/auth/confirm-email-change", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token) {
+        return res.status(400).json({ error: "Token is required" });
+      }
+
+      const user = await AuthService.confirmEmailChange(token);
+      if (!user) {
+        return res.status(400).json({ error: "Invalid or expired confirmation link" });
+      }
+
+      res.json({ message: "Email address changed successfully", user });
+    } catch (error: any) {
+      if (error.message === 'Email already in use') {
+        return res.status(409).json({ error: "An account with this email already exists" });
+      }
+      console.error("Confirm email change error:", error);
+      res.status(500).json({ error: "Failed to confirm email change" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token) {
+        return res.status(400).json({ error: "Token is required" });
+      }
+
+      const user = await AuthService.verifyEmail(token);
+      if (!user) {
+        return res.status(400).json({ error: "Invalid or expired verification link" });
+      }
+
+      res.json({ message: "Email address verified successfully", user });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", requireAuth, async (req, res) => {
+    try {
+      if (req.user!.emailVerified) {
+        return res.status(400).json({ error: "Your email address is already verified" });
+      }
+
+      const token = await AuthService.createEmailVerificationToken(req.user!.id);
+      const emailSent = await EmailService.sendVerificationEmail(req.user!.email, token, req.user!.fullName, req.user!.language);
+      if (!emailSent) {
+        return res.status(500).json({ error: "Failed to send verification email" });
+      }
+
+      res.json({ message: `We've sent a verification link to ${req.user!.email}` });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ error: "Failed to resend verification email" });
+    }
+  });
+
+  // Public details of an invitation for the page where the invitee sets their password
+  app.get("/api/auth/invitation", async (req, res) => {
+    try {
+      const token = req.query.token as string | undefined;
+      const invitation = token ? await storage.getInvitationByToken(token) : undefined;
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        return res.status(404).json({ error: "This invitation link is invalid or has been withdrawn" });
+      }
+
+      const inviter = invitation.invitedBy ? await storage.getUserById(invitation.invitedBy) : undefined;
+      const details: InvitationDetails = {
+        email: invitation.email,
+        fullName: invitation.fullName,
+        inviterName: inviter?.fullName ?? null,
+        expired: isInvitationExpired(invitation),
+      };
+      res.json(details);
+    } catch (error) {
+      console.error("Invitation lookup error:", error);
+      res.status(500).json({ error: "Failed to load invitation" });
+    }
+  });
+
+  app.post("/api/auth/accept-invitation", async (req, res) => {
+    try {
+      const parsed = acceptInvitationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+
+      const invitation = await storage.getInvitationByToken(parsed.data.token);
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        return res.status(400).json({ error: "This invitation link is invalid or has been withdrawn" });
+      }
+      if (isInvitationExpired(invitation)) {
+        return res.status(400).json({ error: "This invitation has expired. Ask for a new one." });
+      }
+
+      const passwordHash = await AuthService.hashPassword(parsed.data.password);
+      const account = await storage.acceptInvitation(invitation.id, passwordHash);
+
+      // Signs the invitee straight in, as registration does
+      const user = await AuthService.getUserById(account.id);
+      const token = await startSession(req, res, account.id);
+      res.json({ user, token });
+    } catch (error: any) {
+      if (error.message === 'User already exists') {
+        return res.status(409).json({ error: "An account with this email already exists. Please sign in instead." });
+      }
+      if (error.message === 'Invitation is no longer valid') {
+        return res.status(400).json({ error: "This invitation link is invalid or has been withdrawn" });
+      }
+      console.error("Accept invitation error:", error);
+      res.status(500).json({ error: "Failed to accept invitation" });
+    }
+  });
+
+  // Self-service account deletion; coaching records are retained (see storage.deleteAccount)
+  app.delete("/api/auth/account", requireAuth, async (req, res) => {
+    try {
+      const parsed = deleteAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0]?.message });
+      }
+      const { password, email, code } = parsed.data;
+      if (await AuthService.hasPassword(req.user!.id)) {
+        if (!password || !(await AuthService.verifyPassword(req.user!.id, password))) {
+          return res.status(400).json({ error: "Password is incorrect" });
+        }
+      } else {
+        // A stolen access token alone must not be enough to delete a passwordless account
+        if (email?.toLowerCase() !== req.user!.email.toLowerCase()) {
+          return res.status(400).json({ error: "Type your email address to confirm" });
+        }
+        if (req.user!.totpEnabled && !(code && await TwoFactorService.verify(req.user!.id, code))) {
+          return res.status(400).json({ error: "Invalid verification code" });
+        }
+      }
+
+      // The app must keep an administrator
+      if (req.user!.role === "admin") {
+        const admins = (await storage.getAllUsers()).filter(user => user.role === "admin");
+        if (admins.length <= 1) {
+          return res.status(400).json({ error: "You are the only administrator. Make someone else an admin before deleting your account." });
+        }
+      }
+
+      const result = await storage.deleteAccount(req.user!.id);
+      await AuthService.revokeAllSessions(req.user!.id);
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.json({ message: "Your account has been deleted", result });
+    } catch (error) {
+      console.error("Delete account error:", error);
+      res.status(500).json({ error: "Failed to delete account" });
     }
   });
 
   // Bulk team management endpoint
-  app.post("/api/teams/bulk-update", async (req, res) => {
+  app.post("/api/teams/bulk-update", requireRole("admin"), async (req, res) => {
     try {
       console.log("=== BULK TEAM UPDATE REQUEST ===");
       const startTime = Date.now();
@@ -744,7 +2029,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete team endpoint
-  app.delete("/api/teams/:teamId", async (req, res) => {
+  app.delete("/api/teams/:teamId", requireRole("admin"), async (req, res) => {
     try {
       const teamId = parseInt(req.params.teamId);
       if (isNaN(teamId)) {
@@ -760,7 +2045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legacy team creation endpoint (simplified)
-  app.post("/api/teams", async (req, res) => {
+  app.post("/api/teams", requireRole("admin"), async (req, res) => {
     try {
       const { name } = req.body;
       if (!name) {
@@ -780,7 +2065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/teams/:name", async (req, res) => {
+  app.put("/api/teams/:name", requireRole("admin"), async (req, res) => {
     try {
       console.log("=== TEAM RENAME REQUEST ===");
       const startTime = Date.now();
@@ -820,7 +2105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/teams/:name", async (req, res) => {
+  app.delete("/api/teams/:name", requireRole("admin"), async (req, res) => {
     try {
       console.log("=== TEAM DELETE REQUEST ===");
       const startTime = Date.now();
@@ -853,48 +2138,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update user with enhanced logging and performance tracking
-  app.put("/api/users/:id", async (req, res) => {
-    const startTime = Date.now();
-    console.log("=== USER UPDATE REQUEST ===");
-    
+  // Email templates, rendered with sample data so admins can check every language
+  app.get("/api/email-templates", requireRole("admin"), (req, res) => {
+    res.json(EmailTemplates.list());
+  });
+
+  app.get("/api/email-templates/:id/preview", requireRole("admin"), (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const userData = req.body;
-      
-      console.log(`User ID: ${userId}`);
-      console.log(`Request body:`, userData);
-      
-      // Track team assignment operations specifically
-      if (userData.team !== undefined) {
-        console.log(`🔄 TEAM ASSIGNMENT: User ${userId} -> Team "${userData.team}"`);
-      }
-      
-      console.log(`⏱️  Starting storage.updateUser call...`);
-      const storageStartTime = Date.now();
-      
-      const updatedUser = await storage.updateUser(userId, userData);
-      
-      const storageTime = Date.now() - storageStartTime;
-      console.log(`⏱️  storage.updateUser completed in ${storageTime}ms`);
-      
-      const totalTime = Date.now() - startTime;
-      console.log(`✅ Total request completed in ${totalTime}ms`);
-      
-      if (totalTime > 100) {
-        console.warn(`🐌 SLOW REQUEST WARNING: User ${userId} update took ${totalTime}ms`);
+      if (!EmailTemplates.isTemplateId(req.params.id)) {
+        return res.status(404).json({ message: "Email template not found" });
       }
-      
-      console.log("=== END USER UPDATE ===");
-      res.json(updatedUser);
+      res.json(EmailTemplates.preview(req.params.id, req.query.language as string | undefined));
     } catch (error: any) {
-      const totalTime = Date.now() - startTime;
-      console.error(`❌ USER UPDATE FAILED in ${totalTime}ms:`, error);
-      console.log("=== END USER UPDATE ===");
-      res.status(500).json({ message: "Failed to update user" });
+      console.error("Error rendering email template:", error);
+      res.status(500).json({ message: "Failed to render email template", error: error.message });
     }
   });
 
+  // Development-only viewer for emails written to the local outbox
+  if (app.get("env") === "development") {
+    app.get("/api/dev/outbox", async (req, res) => {
+      try {
+        const outbox = EmailService.getOutbox();
+        if (!outbox) {
+          return res.status(404).json({ message: "Emails are not being written to the local outbox" });
+        }
+        res.json(await outbox.list());
+      } catch (error: any) {
+        console.error("Error listing outbox:", error);
+        res.status(500).json({ message: "Failed to list outbox", error: error.message });
+      }
+    });
+
+    app.get("/api/dev/outbox/:id", async (req, res) => {
+      try {
+        const email = await EmailService.getOutbox()?.read(req.params.id);
+        if (!email) {
+          return res.status(404).json({ message: "Email not found" });
+        }
+
+        const body = email.isHtml
+          ? email.body
+          : `<pre style="white-space: pre-wrap;">${email.body.replace(/&/g, "&amp;").replace(/</g, "&lt;")}</pre>`;
+        res.type("html").send(body);
+      } catch (error: any) {
+        console.error("Error reading outbox email:", error);
+        res.status(500).json({ message: "Failed to read email", error: error.message });
+      }
+    });
+
+    app.get("/api/dev/outbox/:id/raw", async (req, res) => {
+      try {
+        const email = await EmailService.getOutbox()?.read(req.params.id);
+        if (!email) {
+          return res.status(404).json({ message: "Email not found" });
+        }
+
+        res.setHeader("Content-Type", "message/rfc822");
+        res.setHeader("Content-Disposition", `attachment; filename="${email.entry.id}.eml"`);
+        res.send(email.eml);
+      } catch (error: any) {
+        console.error("Error reading outbox email:", error);
+        res.status(500).json({ message: "Failed to read email", error: error.message });
+      }
+    });
+  }
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
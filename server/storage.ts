@@ -1,21 +1,97 @@
 import { 
-  type Step, type Substep, type Behavior, type Team, type User, type Assessment, type AssessmentScore, type StepScore, type UserTeam, type UserWithTeams,
-  type InsertStep, type InsertSubstep, type InsertBehavior, type InsertTeam, type InsertUser, type InsertAssessment, type InsertAssessmentScore, type InsertStepScore, type InsertUserTeam,
-  steps, substeps, behaviors, teams, users, assessments, assessmentScores, stepScores, userTeams
+  type Framework, type Step, type Substep, type Behavior, type Team, type User, type Assessment, type AssessmentScore, type StepScore, type UserTeam, type UserWithTeams, type FrameworkVersion, type StepWithSubsteps, type FrameworkDocument, type FrameworkSnapshot, type ThresholdRule, type BehaviorObservation, type SelfAssessment, type SelfAssessmentScore,
+  type InsertFramework, type UpdateFramework, type InsertStep, type InsertSubstep, type InsertBehavior, type UpdateStep, type UpdateSubstep, type UpdateBehavior, type InsertTeam, type InsertUser, type InsertAssessment, type InsertAssessmentScore, type InsertStepScore, type InsertUserTeam,
+  type Invitation, type InvitationWithTeams, type InsertInvitation, type AppSettings, type UpdateAppSettingsRequest,
+  frameworks, steps, substeps, behaviors, teams, users, assessments, assessmentScores, stepScores, selfAssessments, selfAssessmentScores, userTeams, frameworkVersions, invitations, invitationTeams, appSettings,
+  defaultAppSettings
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ne, isNotNull, sql, inArray } from "drizzle-orm";
+import { DEFAULT_SCORING_POLICY, StepLevelCalculator } from "@shared/stepLevelCalculator";
+import { eq, desc, asc, and, ne, isNotNull, sql, inArray } from "drizzle-orm";
+
+/**
+ * Account deletion keeps coaching records: sessions about the user lose the link and name,
+ * and an account that ran sessions is anonymized instead of removed so those sessions keep their coach
+ */
+export type AccountDeletionResult = 'deleted' | 'anonymized';
+
+const DELETED_USER_NAME = 'Deleted user';
+
+function anonymizedUserFields(id: number): Partial<User> {
+  return {
+    fullName: DELETED_USER_NAME,
+    email: `deleted-user-${id}@deleted.invalid`,
+    team: null,
+    passwordHash: null,
+    emailVerified: false,
+    provider: null,
+    providerId: null,
+    resetToken: null,
+    resetTokenExpiry: null,
+    pendingEmail: null,
+    emailChangeToken: null,
+    emailChangeTokenExpiry: null,
+    emailVerificationToken: null,
+    emailVerificationTokenExpiry: null,
+    totpSecret: null,
+    totpEnabled: false,
+    totpRecoveryCodes: null,
+    totpLastUsedStep: null,
+    deletedAt: new Date(),
+  };
+}
+
+// jsonb does not preserve key order, so snapshots are compared with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
 
 export interface IStorage {
-  // Steps
-  getAllSteps(): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]>;
+  // Frameworks
+  getAllFrameworks(): Promise<Framework[]>;
+  getFramework(id: number): Promise<Framework | undefined>;
+  getDefaultFramework(): Promise<Framework | undefined>;
+  getFrameworkByName(name: string): Promise<Framework | undefined>;
+  createFramework(framework: InsertFramework): Promise<Framework>;
+  importFramework(document: FrameworkDocument): Promise<Framework>;
+  updateFramework(id: number, framework: UpdateFramework): Promise<Framework | undefined>;
+  archiveFramework(id: number): Promise<void>;
+
+  // Steps - without a frameworkId the default framework is returned
+  getAllSteps(frameworkId?: number): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]>;
+  getStep(id: number): Promise<Step | undefined>;
   createStep(step: InsertStep): Promise<Step>;
+  updateStep(id: number, step: UpdateStep): Promise<Step | undefined>;
+  archiveStep(id: number): Promise<void>;
+  reorderSteps(ids: number[]): Promise<void>;
 
   // Substeps
+  getSubstep(id: number): Promise<Substep | undefined>;
   createSubstep(substep: InsertSubstep): Promise<Substep>;
+  updateSubstep(id: number, substep: UpdateSubstep): Promise<Substep | undefined>;
+  archiveSubstep(id: number): Promise<void>;
+  reorderSubsteps(ids: number[]): Promise<void>;
 
   // Behaviors
   createBehavior(behavior: InsertBehavior): Promise<Behavior>;
+  updateBehavior(id: number, behavior: UpdateBehavior): Promise<Behavior | undefined>;
+  archiveBehavior(id: number): Promise<void>;
+  reorderBehaviors(ids: number[]): Promise<void>;
+
+  // Framework versions
+  getAllFrameworkVersions(frameworkId?: number): Promise<FrameworkVersion[]>;
+  getFrameworkVersion(id: number): Promise<FrameworkVersion | undefined>;
+  ensureCurrentFrameworkVersion(frameworkId: number): Promise<FrameworkVersion>;
+  getSnapshotForAssessment(assessment: Assessment): Promise<FrameworkSnapshot>;
 
   // Teams
   getAllTeams(): Promise<Team[]>;
@@ -30,6 +106,7 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   updateUser(id: number, user: Partial<User>): Promise<User>;
   deleteUser(id: number): Promise<void>;
+  deleteAccount(id: number): Promise<AccountDeletionResult>;
   bulkUpdateUsersTeam(teamName: string, newTeamName: string | null): Promise<number>;
   bulkUpdateUserTeams(updates: { userId: number; team: string | null }[]): Promise<number>;
 
@@ -40,6 +117,19 @@ export interface IStorage {
   removeUserFromTeam(userId: number, teamId: number): Promise<void>;
   bulkUpdateTeamMembership(teamId: number, userIds: number[]): Promise<void>;
 
+  // Invitations
+  createInvitation(invitation: InsertInvitation, teamIds: number[]): Promise<InvitationWithTeams>;
+  getInvitation(id: number): Promise<InvitationWithTeams | undefined>;
+  getInvitationByToken(token: string): Promise<InvitationWithTeams | undefined>;
+  getPendingInvitations(): Promise<InvitationWithTeams[]>;
+  renewInvitation(id: number, token: string, expiresAt: Date): Promise<Invitation>;
+  revokeInvitation(id: number): Promise<void>;
+  acceptInvitation(id: number, passwordHash: string): Promise<User>;
+
+  // Instance settings
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(settings: UpdateAppSettingsRequest): Promise<AppSettings>;
+
   // Assessments
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
   updateAssessment(id: number, assessment: Partial<Assessment>): Promise<Assessment>;
@@ -47,16 +137,26 @@ export interface IStorage {
   getAssessmentWithUser(id: number): Promise<(Assessment & { user: User }) | undefined>;
   getAllAssessments(): Promise<Assessment[]>;
   getLatestAssessmentForUser(userId: number): Promise<Assessment | undefined>;
-  getLatestAssessmentForCoachee(coacheeName: string): Promise<Assessment | undefined>;
-  getPreviousAssessmentForCoachee(coacheeName: string, excludeId: number): Promise<Assessment | undefined>;
+  getLatestAssessmentForCoachee(coacheeId: number): Promise<Assessment | undefined>;
+  getAssessmentsForCoachee(coacheeId: number): Promise<Assessment[]>;
+  getPreviousAssessmentForCoachee(coacheeId: number, excludeId: number, frameworkId?: number | null): Promise<Assessment | undefined>;
 
   // Assessment Scores
   getAssessmentScores(assessmentId: number): Promise<AssessmentScore[]>;
-  updateAssessmentScore(assessmentId: number, behaviorId: number, checked: boolean): Promise<AssessmentScore>;
+  updateAssessmentScore(assessmentId: number, behaviorId: number, observation: BehaviorObservation | null): Promise<AssessmentScore>;
+  updateAssessmentScoreNote(assessmentId: number, behaviorId: number, note: string | null): Promise<AssessmentScore>;
 
   // Step Scores
   getStepScores(assessmentId: number): Promise<StepScore[]>;
   updateStepScore(assessmentId: number, stepId: number, level: number): Promise<StepScore>;
+  updateStepScoreNote(assessmentId: number, stepId: number, note: string | null): Promise<StepScore>;
+
+  // Coachee self-assessments, one per coach assessment
+  getSelfAssessment(assessmentId: number): Promise<SelfAssessment | undefined>;
+  createSelfAssessment(assessmentId: number, userId: number): Promise<SelfAssessment>;
+  submitSelfAssessment(id: number): Promise<SelfAssessment>;
+  getSelfAssessmentScores(selfAssessmentId: number): Promise<SelfAssessmentScore[]>;
+  updateSelfAssessmentScore(selfAssessmentId: number, behaviorId: number, observation: BehaviorObservation): Promise<SelfAssessmentScore>;
 
   // Initialize default data
   initializeDefaultData(): Promise<void>;
@@ -70,45 +170,266 @@ export class MemStorage implements IStorage {
   private assessments: Map<number, Assessment> = new Map();
   private assessmentScores: Map<string, AssessmentScore> = new Map();
   private stepScores: Map<string, StepScore> = new Map();
+  private selfAssessments: Map<number, SelfAssessment> = new Map();
+  private selfAssessmentScores: Map<string, SelfAssessmentScore> = new Map();
+  private frameworkVersions: Map<number, FrameworkVersion> = new Map();
+  private frameworks: Map<number, Framework> = new Map();
+  private invitations: Map<number, InvitationWithTeams> = new Map();
+  private appSettings: AppSettings = { ...defaultAppSettings };
   private nextId = 1;
 
-  async getAllSteps(): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]> {
-    const stepsArray = Array.from(this.steps.values()).sort((a, b) => a.order - b.order);
+  async getAllFrameworks(): Promise<Framework[]> {
+    return Array.from(this.frameworks.values())
+      .filter(framework => !framework.archived)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getFramework(id: number): Promise<Framework | undefined> {
+    return this.frameworks.get(id);
+  }
+
+  async getDefaultFramework(): Promise<Framework | undefined> {
+    const [framework] = await this.getAllFrameworks();
+    return framework;
+  }
+
+  async getFrameworkByName(name: string): Promise<Framework | undefined> {
+    return Array.from(this.frameworks.values()).find(framework => framework.name === name);
+  }
+
+  async createFramework(framework: InsertFramework): Promise<Framework> {
+    const newFramework: Framework = {
+      id: this.nextId++,
+      name: framework.name,
+      description: framework.description ?? null,
+      scoringPolicy: framework.scoringPolicy ?? null,
+      archived: false,
+      createdAt: new Date(),
+    };
+    this.frameworks.set(newFramework.id, newFramework);
+    return newFramework;
+  }
+
+  async importFramework(document: FrameworkDocument): Promise<Framework> {
+    const framework = await this.createFramework({
+      name: document.name,
+      description: document.description ?? null,
+      scoringPolicy: document.scoringPolicy ?? null,
+    });
+    const thresholdRules: ThresholdRule[] = [];
+    for (const step of document.steps) {
+      const newStep = await this.createStep({
+        frameworkId: framework.id,
+        title: step.title,
+        description: step.description,
+        targetScore: step.targetScore,
+        order: step.order,
+        weight: step.weight,
+      });
+      if (step.behaviorPercentages) {
+        thresholdRules.push({ targetType: 'step', targetId: newStep.id, behaviorPercentages: step.behaviorPercentages });
+      } else if (step.behaviorPoints) {
+        thresholdRules.push({ targetType: 'step', targetId: newStep.id, behaviorPoints: step.behaviorPoints });
+      }
+      for (const substep of step.substeps) {
+        const newSubstep = await this.createSubstep({ stepId: newStep.id, title: substep.title, order: substep.order });
+        if (substep.behaviorPercentages) {
+          thresholdRules.push({ targetType: 'substep', targetId: newSubstep.id, behaviorPercentages: substep.behaviorPercentages });
+        } else if (substep.behaviorPoints) {
+          thresholdRules.push({ targetType: 'substep', targetId: newSubstep.id, behaviorPoints: substep.behaviorPoints });
+        }
+        for (const behavior of substep.behaviors) {
+          await this.createBehavior({ substepId: newSubstep.id, ...behavior });
+        }
+      }
+    }
+    if (thresholdRules.length > 0) {
+      return (await this.updateFramework(framework.id, {
+        scoringPolicy: { ...(document.scoringPolicy ?? DEFAULT_SCORING_POLICY), thresholdRules },
+      }))!;
+    }
+    return framework;
+  }
+
+  async updateFramework(id: number, frameworkUpdate: UpdateFramework): Promise<Framework | undefined> {
+    const existingFramework = this.frameworks.get(id);
+    if (!existingFramework) return undefined;
+
+    const updatedFramework: Framework = { ...existingFramework, ...frameworkUpdate, id };
+    this.frameworks.set(id, updatedFramework);
+    return updatedFramework;
+  }
+
+  async archiveFramework(id: number): Promise<void> {
+    const existingFramework = this.frameworks.get(id);
+    if (existingFramework) {
+      this.frameworks.set(id, { ...existingFramework, archived: true });
+    }
+  }
+
+  async getAllSteps(frameworkId?: number): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]> {
+    const targetFrameworkId = frameworkId ?? (await this.getDefaultFramework())?.id;
+    const stepsArray = Array.from(this.steps.values())
+      .filter(step => step.frameworkId === targetFrameworkId && !step.archived)
+      .sort((a, b) => a.order - b.order);
 
     return stepsArray.map(step => ({
       ...step,
       substeps: Array.from(this.substeps.values())
-        .filter(substep => substep.stepId === step.id)
+        .filter(substep => substep.stepId === step.id && !substep.archived)
         .sort((a, b) => a.order - b.order)
         .map(substep => ({
           ...substep,
           behaviors: Array.from(this.behaviors.values())
-            .filter(behavior => behavior.substepId === substep.id)
+            .filter(behavior => behavior.substepId === substep.id && !behavior.archived)
             .sort((a, b) => a.proficiencyLevel - b.proficiencyLevel || a.order - b.order)
         }))
     }));
   }
 
+  async getStep(id: number): Promise<Step | undefined> {
+    return this.steps.get(id);
+  }
+
   async createStep(step: InsertStep): Promise<Step> {
-    const newStep: Step = { ...step, id: this.nextId++ };
+    const newStep: Step = { ...step, weight: step.weight ?? 1, archived: step.archived ?? false, id: this.nextId++ };
     this.steps.set(newStep.id, newStep);
     return newStep;
   }
 
+  async updateStep(id: number, stepUpdate: UpdateStep): Promise<Step | undefined> {
+    const existingStep = this.steps.get(id);
+    if (!existingStep) return undefined;
+
+    const updatedStep: Step = { ...existingStep, ...stepUpdate, id };
+    this.steps.set(id, updatedStep);
+    return updatedStep;
+  }
+
+  async archiveStep(id: number): Promise<void> {
+    const existingStep = this.steps.get(id);
+    if (existingStep) {
+      this.steps.set(id, { ...existingStep, archived: true });
+    }
+  }
+
+  async reorderSteps(ids: number[]): Promise<void> {
+    ids.forEach((id, index) => {
+      const step = this.steps.get(id);
+      if (step) this.steps.set(id, { ...step, order: index + 1 });
+    });
+  }
+
+  async getSubstep(id: number): Promise<Substep | undefined> {
+    return this.substeps.get(id);
+  }
+
   async createSubstep(substep: InsertSubstep): Promise<Substep> {
-    const newSubstep: Substep = { ...substep, id: this.nextId++ };
+    const newSubstep: Substep = { ...substep, archived: substep.archived ?? false, id: this.nextId++ };
     this.substeps.set(newSubstep.id, newSubstep);
     return newSubstep;
   }
 
+  async updateSubstep(id: number, substepUpdate: UpdateSubstep): Promise<Substep | undefined> {
+    const existingSubstep = this.substeps.get(id);
+    if (!existingSubstep) return undefined;
+
+    const updatedSubstep: Substep = { ...existingSubstep, ...substepUpdate, id };
+    this.substeps.set(id, updatedSubstep);
+    return updatedSubstep;
+  }
+
+  async archiveSubstep(id: number): Promise<void> {
+    const existingSubstep = this.substeps.get(id);
+    if (existingSubstep) {
+      this.substeps.set(id, { ...existingSubstep, archived: true });
+    }
+  }
+
+  async reorderSubsteps(ids: number[]): Promise<void> {
+    ids.forEach((id, index) => {
+      const substep = this.substeps.get(id);
+      if (substep) this.substeps.set(id, { ...substep, order: index + 1 });
+    });
+  }
+
   async createBehavior(behavior: InsertBehavior): Promise<Behavior> {
-    const newBehavior: Behavior = { ...behavior, id: this.nextId++ };
+    const newBehavior: Behavior = { ...behavior, weight: behavior.weight ?? 1, archived: behavior.archived ?? false, id: this.nextId++ };
     this.behaviors.set(newBehavior.id, newBehavior);
     return newBehavior;
   }
 
+  async updateBehavior(id: number, behaviorUpdate: UpdateBehavior): Promise<Behavior | undefined> {
+    const existingBehavior = this.behaviors.get(id);
+    if (!existingBehavior) return undefined;
+
+    const updatedBehavior: Behavior = { ...existingBehavior, ...behaviorUpdate, id };
+    this.behaviors.set(id, updatedBehavior);
+    return updatedBehavior;
+  }
+
+  async archiveBehavior(id: number): Promise<void> {
+    const existingBehavior = this.behaviors.get(id);
+    if (existingBehavior) {
+      this.behaviors.set(id, { ...existingBehavior, archived: true });
+    }
+  }
+
+  async reorderBehaviors(ids: number[]): Promise<void> {
+    ids.forEach((id, index) => {
+      const behavior = this.behaviors.get(id);
+      if (behavior) this.behaviors.set(id, { ...behavior, order: index + 1 });
+    });
+  }
+
+  async getAllFrameworkVersions(frameworkId?: number): Promise<FrameworkVersion[]> {
+    return Array.from(this.frameworkVersions.values())
+      .filter(version => frameworkId === undefined || version.frameworkId === frameworkId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getFrameworkVersion(id: number): Promise<FrameworkVersion | undefined> {
+    return this.frameworkVersions.get(id);
+  }
+
+  async ensureCurrentFrameworkVersion(frameworkId: number): Promise<FrameworkVersion> {
+    const framework = this.frameworks.get(frameworkId);
+    const liveSnapshot: FrameworkSnapshot = {
+      steps: await this.getAllSteps(frameworkId),
+      scoringPolicy: framework?.scoringPolicy ?? DEFAULT_SCORING_POLICY,
+    };
+    const [latest] = await this.getAllFrameworkVersions(frameworkId);
+    if (latest && stableStringify(latest.snapshot) === stableStringify(liveSnapshot)) {
+      return latest;
+    }
+
+    const newVersion: FrameworkVersion = {
+      id: this.nextId++,
+      frameworkId,
+      version: latest ? latest.version + 1 : 1,
+      snapshot: liveSnapshot,
+      createdAt: new Date(),
+    };
+    this.frameworkVersions.set(newVersion.id, newVersion);
+    return newVersion;
+  }
+
+  async getSnapshotForAssessment(assessment: Assessment): Promise<FrameworkSnapshot> {
+    const version = assessment.frameworkVersionId ? this.frameworkVersions.get(assessment.frameworkVersionId) : undefined;
+    if (version) {
+      return { steps: version.snapshot.steps, scoringPolicy: version.snapshot.scoringPolicy ?? DEFAULT_SCORING_POLICY };
+    }
+    const framework = assessment.frameworkId ? this.frameworks.get(assessment.frameworkId) : undefined;
+    return {
+      steps: await this.getAllSteps(assessment.frameworkId ?? undefined),
+      scoringPolicy: framework?.scoringPolicy ?? DEFAULT_SCORING_POLICY,
+    };
+  }
+
   async getAllUsers(): Promise<User[]> {
-    return Array.from(this.users.values()).sort((a, b) => a.fullName.localeCompare(b.fullName));
+    return Array.from(this.users.values())
+      .filter(user => !user.deletedAt)
+      .sort((a, b) => a.fullName.localeCompare(b.fullName));
   }
 
   async createUser(user: InsertUser): Promise<User> {
@@ -117,6 +438,8 @@ export class MemStorage implements IStorage {
       fullName: user.fullName,
       email: user.email,
       team: user.team || null,
+      role: user.role ?? "coachee",
+      language: user.language ?? "en",
       createdAt: new Date() 
     };
     this.users.set(newUser.id, newUser);
@@ -142,7 +465,122 @@ export class MemStorage implements IStorage {
   }
 
   async deleteUser(id: number): Promise<void> {
+    this.deleteSelfAssessmentsOf(id);
+    this.users.delete(id);
+  }
+
+  // Mirrors the ON DELETE CASCADE from users to self_assessments and their scores
+  private deleteSelfAssessmentsOf(userId: number) {
+    Array.from(this.selfAssessments.values())
+      .filter(selfAssessment => selfAssessment.userId === userId)
+      .forEach(selfAssessment => {
+        Array.from(this.selfAssessmentScores.entries())
+          .filter(([, score]) => score.selfAssessmentId === selfAssessment.id)
+          .forEach(([key]) => this.selfAssessmentScores.delete(key));
+        this.selfAssessments.delete(selfAssessment.id);
+      });
+  }
+
+  async deleteAccount(id: number): Promise<AccountDeletionResult> {
+    const userAssessments = Array.from(this.assessments.values());
+    userAssessments
+      .filter(assessment => assessment.assesseeUserId === id)
+      .forEach(assessment => {
+        assessment.assesseeUserId = null;
+        assessment.assesseeName = DELETED_USER_NAME;
+      });
+
+    if (userAssessments.some(assessment => assessment.userId === id)) {
+      const user = this.users.get(id);
+      if (user) {
+        this.users.set(id, { ...user, ...anonymizedUserFields(id) });
+      }
+      return 'anonymized';
+    }
+
+    this.deleteSelfAssessmentsOf(id);
     this.users.delete(id);
+    return 'deleted';
+  }
+
+  // MemStorage keeps no teams, so invitations are stored without them
+  async createInvitation(invitation: InsertInvitation, teamIds: number[]): Promise<InvitationWithTeams> {
+    const newInvitation: InvitationWithTeams = {
+      id: this.nextId++,
+      email: invitation.email,
+      fullName: invitation.fullName,
+      role: invitation.role ?? "coachee",
+      language: invitation.language ?? "en",
+      token: invitation.token,
+      invitedBy: invitation.invitedBy ?? null,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      teams: [],
+    };
+    this.invitations.set(newInvitation.id, newInvitation);
+    return newInvitation;
+  }
+
+  async getInvitation(id: number): Promise<InvitationWithTeams | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async getInvitationByToken(token: string): Promise<InvitationWithTeams | undefined> {
+    return Array.from(this.invitations.values()).find(invitation => invitation.token === token);
+  }
+
+  async getPendingInvitations(): Promise<InvitationWithTeams[]> {
+    return Array.from(this.invitations.values())
+      .filter(invitation => !invitation.acceptedAt && !invitation.revokedAt)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async renewInvitation(id: number, token: string, expiresAt: Date): Promise<Invitation> {
+    const invitation = this.invitations.get(id);
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+    const renewed = { ...invitation, token, expiresAt };
+    this.invitations.set(id, renewed);
+    return renewed;
+  }
+
+  async revokeInvitation(id: number): Promise<void> {
+    const invitation = this.invitations.get(id);
+    if (invitation) {
+      this.invitations.set(id, { ...invitation, revokedAt: new Date() });
+    }
+  }
+
+  async acceptInvitation(id: number, passwordHash: string): Promise<User> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+      throw new Error('Invitation is no longer valid');
+    }
+
+    const existingUser = await this.getUserByEmail(invitation.email);
+    if (existingUser && (existingUser.passwordHash || existingUser.deletedAt)) {
+      throw new Error('User already exists');
+    }
+
+    const account = { passwordHash, emailVerified: true, role: invitation.role, language: invitation.language };
+    const user = existingUser
+      ? await this.updateUser(existingUser.id, account)
+      : await this.updateUser((await this.createUser({ fullName: invitation.fullName, email: invitation.email })).id, account);
+
+    this.invitations.set(id, { ...invitation, acceptedAt: new Date() });
+    return user;
+  }
+
+  async getAppSettings(): Promise<AppSettings> {
+    return { ...this.appSettings };
+  }
+
+  async updateAppSettings(settings: UpdateAppSettingsRequest): Promise<AppSettings> {
+    this.appSettings = { ...this.appSettings, ...settings };
+    return { ...this.appSettings };
   }
 
   async getUniqueTeams(): Promise<string[]> {
@@ -172,11 +610,13 @@ export class MemStorage implements IStorage {
   }
 
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
+    const frameworkId = assessment.frameworkId ?? (await this.getDefaultFramework())?.id ?? null;
     const newAssessment: Assessment = { 
       id: this.nextId++,
       title: assessment.title,
       userId: assessment.userId,
       assesseeName: assessment.assesseeName,
+      assesseeUserId: assessment.assesseeUserId ?? null,
       context: assessment.context ?? null,
       keyObservations: assessment.keyObservations ?? null,
       whatWorkedWell: assessment.whatWorkedWell ?? null,
@@ -184,6 +624,9 @@ export class MemStorage implements IStorage {
       nextSteps: assessment.nextSteps ?? null,
       pdfFilePath: null,
       status: assessment.status ?? 'draft',
+      frameworkId,
+      frameworkVersionId: assessment.frameworkVersionId ?? (frameworkId ? (await this.ensureCurrentFrameworkVersion(frameworkId)).id : null),
+      focusStepIds: assessment.focusStepIds ?? null,
       createdAt: new Date() 
     };
     this.assessments.set(newAssessment.id, newAssessment);
@@ -235,17 +678,24 @@ export class MemStorage implements IStorage {
     return userAssessments[0];
   }
 
-  async getLatestAssessmentForCoachee(coacheeName: string): Promise<Assessment | undefined> {
+  async getLatestAssessmentForCoachee(coacheeId: number): Promise<Assessment | undefined> {
     const coacheeAssessments = Array.from(this.assessments.values())
-      .filter(assessment => assessment.assesseeName === coacheeName)
+      .filter(assessment => assessment.assesseeUserId === coacheeId)
       .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
     
     return coacheeAssessments[0];
   }
 
-  async getPreviousAssessmentForCoachee(coacheeName: string, excludeId: number): Promise<Assessment | undefined> {
+  async getAssessmentsForCoachee(coacheeId: number): Promise<Assessment[]> {
+    return Array.from(this.assessments.values())
+      .filter(assessment => assessment.assesseeUserId === coacheeId)
+      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  }
+
+  async getPreviousAssessmentForCoachee(coacheeId: number, excludeId: number, frameworkId?: number | null): Promise<Assessment | undefined> {
     const coacheeAssessments = Array.from(this.assessments.values())
-      .filter(assessment => assessment.assesseeName === coacheeName && assessment.id !== excludeId)
+      .filter(assessment => assessment.assesseeUserId === coacheeId && assessment.id !== excludeId)
+      .filter(assessment => !frameworkId || assessment.frameworkId === frameworkId)
       .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
     
     return coacheeAssessments[0];
@@ -256,12 +706,13 @@ export class MemStorage implements IStorage {
       .filter(score => score.assessmentId === assessmentId);
   }
 
-  async updateAssessmentScore(assessmentId: number, behaviorId: number, checked: boolean): Promise<AssessmentScore> {
+  async updateAssessmentScore(assessmentId: number, behaviorId: number, observation: BehaviorObservation | null): Promise<AssessmentScore> {
     const key = `${assessmentId}-${behaviorId}`;
     const existing = this.assessmentScores.get(key);
+    const checked = observation === 'observed';
 
     if (existing) {
-      const updated = { ...existing, checked };
+      const updated = { ...existing, observation, checked };
       this.assessmentScores.set(key, updated);
       return updated;
     } else {
@@ -269,13 +720,25 @@ export class MemStorage implements IStorage {
         id: this.nextId++,
         assessmentId,
         behaviorId,
-        checked
+        observation,
+        checked,
+        note: null
       };
       this.assessmentScores.set(key, newScore);
       return newScore;
     }
   }
 
+  async updateAssessmentScoreNote(assessmentId: number, behaviorId: number, note: string | null): Promise<AssessmentScore> {
+    const key = `${assessmentId}-${behaviorId}`;
+    // A note may come before the behavior is marked; the observation stays unset until then
+    const score: AssessmentScore = this.assessmentScores.get(key)
+      ?? { id: this.nextId++, assessmentId, behaviorId, observation: null, checked: false, note: null };
+    const updated = { ...score, note };
+    this.assessmentScores.set(key, updated);
+    return updated;
+  }
+
   async getStepScores(assessmentId: number): Promise<StepScore[]> {
     return Array.from(this.stepScores.values()).filter(score => score.assessmentId === assessmentId);
   }
@@ -293,20 +756,78 @@ export class MemStorage implements IStorage {
         assessmentId,
         stepId,
         level,
+        note: null,
       };
       this.stepScores.set(key, newScore);
       return newScore;
     }
   }
 
+  async updateStepScoreNote(assessmentId: number, stepId: number, note: string | null): Promise<StepScore> {
+    const key = `${assessmentId}-${stepId}`;
+    // Level 0 keeps the step calculated from its behaviors
+    const score: StepScore = this.stepScores.get(key) ?? { id: this.nextId++, assessmentId, stepId, level: 0, note: null };
+    const updated = { ...score, note };
+    this.stepScores.set(key, updated);
+    return updated;
+  }
+
+  async getSelfAssessment(assessmentId: number): Promise<SelfAssessment | undefined> {
+    return Array.from(this.selfAssessments.values()).find(selfAssessment => selfAssessment.assessmentId === assessmentId);
+  }
+
+  async createSelfAssessment(assessmentId: number, userId: number): Promise<SelfAssessment> {
+    const existing = await this.getSelfAssessment(assessmentId);
+    if (existing) return existing;
+
+    const selfAssessment: SelfAssessment = {
+      id: this.nextId++,
+      assessmentId,
+      userId,
+      status: "draft",
+      submittedAt: null,
+      createdAt: new Date()
+    };
+    this.selfAssessments.set(selfAssessment.id, selfAssessment);
+    return selfAssessment;
+  }
+
+  async submitSelfAssessment(id: number): Promise<SelfAssessment> {
+    const selfAssessment = this.selfAssessments.get(id);
+    if (!selfAssessment) throw new Error("Self-assessment not found");
+
+    const updated = { ...selfAssessment, status: "submitted", submittedAt: new Date() };
+    this.selfAssessments.set(id, updated);
+    return updated;
+  }
+
+  async getSelfAssessmentScores(selfAssessmentId: number): Promise<SelfAssessmentScore[]> {
+    return Array.from(this.selfAssessmentScores.values()).filter(score => score.selfAssessmentId === selfAssessmentId);
+  }
+
+  async updateSelfAssessmentScore(selfAssessmentId: number, behaviorId: number, observation: BehaviorObservation): Promise<SelfAssessmentScore> {
+    const key = `${selfAssessmentId}-${behaviorId}`;
+    const score: SelfAssessmentScore = this.selfAssessmentScores.get(key)
+      ?? { id: this.nextId++, selfAssessmentId, behaviorId, observation };
+    const updated = { ...score, observation };
+    this.selfAssessmentScores.set(key, updated);
+    return updated;
+  }
+
   async initializeDefaultData(): Promise<void> {
     // Check if data already exists
     if (this.steps.size > 0) {
       return; // Data already initialized
     }
 
+    const framework = await this.createFramework({
+      name: "Sales Coaching",
+      description: "Seven-step sales call model from preparation to follow up",
+    });
+
     // Step 1: Preparation
     const step1 = await this.createStep({
+      frameworkId: framework.id,
       title: "Preparation",
       description: "Strategic preparation, client understanding, and technical preparation",
       targetScore: 3,
@@ -478,6 +999,7 @@ export class MemStorage implements IStorage {
 
     // Step 2: Opening
     const step2 = await this.createStep({
+      frameworkId: framework.id,
       title: "Opening",
       description: "Greeting & introduction and relating behaviors",
       targetScore: 3,
@@ -631,6 +1153,7 @@ export class MemStorage implements IStorage {
 
     // Step 3: Need Dialog
     const step3 = await this.createStep({
+      frameworkId: framework.id,
       title: "Need Dialog",
       description: "Questioning and active listening behaviors",
       targetScore: 3,
@@ -713,6 +1236,7 @@ export class MemStorage implements IStorage {
 
     // Step 4: Solution Dialog
     const step4 = await this.createStep({
+      frameworkId: framework.id,
       title: "Solution Dialog",
       description: "Structuring, positioning, and checking solution behaviors",
       targetScore: 3,
@@ -853,6 +1377,7 @@ export class MemStorage implements IStorage {
 
     // Step 5: Objection Resolution (no substeps)
     const step5 = await this.createStep({
+      frameworkId: framework.id,
       title: "Objection Resolution",
       description: "Handling objections and maintaining dialogue",
       targetScore: 3,
@@ -907,6 +1432,7 @@ export class MemStorage implements IStorage {
 
     // Step 6: Asking for Commitment
     const step6 = await this.createStep({
+      frameworkId: framework.id,
       title: "Asking for Commitment",
       description: "Summarizing and securing commitment behaviors",
       targetScore: 3,
@@ -1017,6 +1543,7 @@ export class MemStorage implements IStorage {
 
     // Step 7: Follow up
     const step7 = await this.createStep({
+      frameworkId: framework.id,
       title: "Follow up",
       description: "Post-call analysis and planning behaviors",
       targetScore: 3,
@@ -1124,16 +1651,130 @@ export class MemStorage implements IStorage {
       proficiencyLevel: 4,
       order: 1,
     });
+
+    // The hand-tuned thresholds for rapport, commitment, listening and the like, keyed by id
+    await this.updateFramework(framework.id, {
+      scoringPolicy: { ...DEFAULT_SCORING_POLICY, thresholdRules: StepLevelCalculator.getLegacyThresholdRules(await this.getAllSteps(framework.id)) },
+    });
   }
 }
 
 export class DatabaseStorage implements IStorage {
-  async getAllSteps(): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]> {
+  async getAllFrameworks(): Promise<Framework[]> {
+    return await db.select().from(frameworks).where(eq(frameworks.archived, false)).orderBy(asc(frameworks.id));
+  }
+
+  async getFramework(id: number): Promise<Framework | undefined> {
+    const [framework] = await db.select().from(frameworks).where(eq(frameworks.id, id));
+    return framework;
+  }
+
+  // The oldest active framework is used wherever a caller does not choose one
+  async getDefaultFramework(): Promise<Framework | undefined> {
+    const [framework] = await db.select().from(frameworks)
+      .where(eq(frameworks.archived, false))
+      .orderBy(asc(frameworks.id))
+      .limit(1);
+    return framework;
+  }
+
+  async getFrameworkByName(name: string): Promise<Framework | undefined> {
+    const [framework] = await db.select().from(frameworks).where(eq(frameworks.name, name));
+    return framework;
+  }
+
+  async createFramework(framework: InsertFramework): Promise<Framework> {
+    console.log(`DatabaseStorage: Creating framework ${framework.name}`);
+    const [newFramework] = await db.insert(frameworks).values(framework).returning();
+    return newFramework;
+  }
+
+  // Imports the whole hierarchy in one transaction so a failed import leaves no partial framework
+  async importFramework(document: FrameworkDocument): Promise<Framework> {
+    console.log(`DatabaseStorage: Importing framework ${document.name} with ${document.steps.length} steps`);
+    return await db.transaction(async (tx) => {
+      const [framework] = await tx.insert(frameworks)
+        .values({ name: document.name, description: document.description ?? null, scoringPolicy: document.scoringPolicy ?? null })
+        .returning();
+
+      const thresholdRules: ThresholdRule[] = [];
+      for (const step of document.steps) {
+        const [newStep] = await tx.insert(steps).values({
+          frameworkId: framework.id,
+          title: step.title,
+          description: step.description,
+          targetScore: step.targetScore,
+          order: step.order,
+          weight: step.weight,
+        }).returning();
+        if (step.behaviorPercentages) {
+          thresholdRules.push({ targetType: 'step', targetId: newStep.id, behaviorPercentages: step.behaviorPercentages });
+        } else if (step.behaviorPoints) {
+          thresholdRules.push({ targetType: 'step', targetId: newStep.id, behaviorPoints: step.behaviorPoints });
+        }
+
+        for (const substep of step.substeps) {
+          const [newSubstep] = await tx.insert(substeps)
+            .values({ stepId: newStep.id, title: substep.title, order: substep.order })
+            .returning();
+          if (substep.behaviorPercentages) {
+            thresholdRules.push({ targetType: 'substep', targetId: newSubstep.id, behaviorPercentages: substep.behaviorPercentages });
+          } else if (substep.behaviorPoints) {
+            thresholdRules.push({ targetType: 'substep', targetId: newSubstep.id, behaviorPoints: substep.behaviorPoints });
+          }
+
+          if (substep.behaviors.length > 0) {
+            await tx.insert(behaviors).values(
+              substep.behaviors.map(behavior => ({ substepId: newSubstep.id, ...behavior }))
+            );
+          }
+        }
+      }
+
+      // Rules are keyed by the new ids, so they can only be stored once the hierarchy exists
+      if (thresholdRules.length > 0) {
+        const [frameworkWithRules] = await tx.update(frameworks)
+          .set({ scoringPolicy: { ...(document.scoringPolicy ?? DEFAULT_SCORING_POLICY), thresholdRules } })
+          .where(eq(frameworks.id, framework.id))
+          .returning();
+        return frameworkWithRules;
+      }
+
+      return framework;
+    });
+  }
+
+  async updateFramework(id: number, frameworkUpdate: UpdateFramework): Promise<Framework | undefined> {
+    console.log(`DatabaseStorage: Updating framework ${id} with data:`, frameworkUpdate);
+    const [updatedFramework] = await db.update(frameworks)
+      .set(frameworkUpdate)
+      .where(eq(frameworks.id, id))
+      .returning();
+    return updatedFramework;
+  }
+
+  async archiveFramework(id: number): Promise<void> {
+    console.log(`DatabaseStorage: Archiving framework ${id}`);
+    await db.update(frameworks).set({ archived: true }).where(eq(frameworks.id, id));
+  }
+
+  async getAllSteps(frameworkId?: number): Promise<(Step & { substeps: (Substep & { behaviors: Behavior[] })[] })[]> {
+    const targetFrameworkId = frameworkId ?? (await this.getDefaultFramework())?.id;
+    if (targetFrameworkId === undefined) return [];
+
+    // Archived rows are hidden from the live framework but kept for historic scores
     const stepsWithSubsteps = await db.query.steps.findMany({
+      where: and(eq(steps.frameworkId, targetFrameworkId), eq(steps.archived, false)),
+      orderBy: [asc(steps.order)],
       with: {
         substeps: {
+          where: eq(substeps.archived, false),
+          orderBy: [asc(substeps.order)],
           with: {
-            behaviors: true
+            behaviors: {
+              where: eq(behaviors.archived, false),
+              orderBy: [asc(behaviors.proficiencyLevel), asc(behaviors.order)]
+            }
           }
         }
       }
@@ -1141,23 +1782,160 @@ export class DatabaseStorage implements IStorage {
     return stepsWithSubsteps;
   }
 
+  async getStep(id: number): Promise<Step | undefined> {
+    const [step] = await db.select().from(steps).where(eq(steps.id, id));
+    return step;
+  }
+
   async createStep(step: InsertStep): Promise<Step> {
     const [newStep] = await db.insert(steps).values(step).returning();
     return newStep;
   }
 
+  async updateStep(id: number, stepUpdate: UpdateStep): Promise<Step | undefined> {
+    console.log(`DatabaseStorage: Updating step ${id} with data:`, stepUpdate);
+    const [updatedStep] = await db.update(steps)
+      .set(stepUpdate)
+      .where(eq(steps.id, id))
+      .returning();
+    return updatedStep;
+  }
+
+  async archiveStep(id: number): Promise<void> {
+    console.log(`DatabaseStorage: Archiving step ${id}`);
+    await db.update(steps).set({ archived: true }).where(eq(steps.id, id));
+  }
+
+  async reorderSteps(ids: number[]): Promise<void> {
+    console.log(`DatabaseStorage: Reordering ${ids.length} steps`);
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx.update(steps).set({ order: index + 1 }).where(eq(steps.id, ids[index]));
+      }
+    });
+  }
+
+  async getSubstep(id: number): Promise<Substep | undefined> {
+    const [substep] = await db.select().from(substeps).where(eq(substeps.id, id));
+    return substep;
+  }
+
   async createSubstep(substep: InsertSubstep): Promise<Substep> {
     const [newSubstep] = await db.insert(substeps).values(substep).returning();
     return newSubstep;
   }
 
+  async updateSubstep(id: number, substepUpdate: UpdateSubstep): Promise<Substep | undefined> {
+    console.log(`DatabaseStorage: Updating substep ${id} with data:`, substepUpdate);
+    const [updatedSubstep] = await db.update(substeps)
+      .set(substepUpdate)
+      .where(eq(substeps.id, id))
+      .returning();
+    return updatedSubstep;
+  }
+
+  async archiveSubstep(id: number): Promise<void> {
+    console.log(`DatabaseStorage: Archiving substep ${id}`);
+    await db.update(substeps).set({ archived: true }).where(eq(substeps.id, id));
+  }
+
+  async reorderSubsteps(ids: number[]): Promise<void> {
+    console.log(`DatabaseStorage: Reordering ${ids.length} substeps`);
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx.update(substeps).set({ order: index + 1 }).where(eq(substeps.id, ids[index]));
+      }
+    });
+  }
+
   async createBehavior(behavior: InsertBehavior): Promise<Behavior> {
     const [newBehavior] = await db.insert(behaviors).values(behavior).returning();
     return newBehavior;
   }
 
+  async updateBehavior(id: number, behaviorUpdate: UpdateBehavior): Promise<Behavior | undefined> {
+    console.log(`DatabaseStorage: Updating behavior ${id} with data:`, behaviorUpdate);
+    const [updatedBehavior] = await db.update(behaviors)
+      .set(behaviorUpdate)
+      .where(eq(behaviors.id, id))
+      .returning();
+    return updatedBehavior;
+  }
+
+  async archiveBehavior(id: number): Promise<void> {
+    console.log(`DatabaseStorage: Archiving behavior ${id}`);
+    await db.update(behaviors).set({ archived: true }).where(eq(behaviors.id, id));
+  }
+
+  async reorderBehaviors(ids: number[]): Promise<void> {
+    console.log(`DatabaseStorage: Reordering ${ids.length} behaviors`);
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ids.length; index++) {
+        await tx.update(behaviors).set({ order: index + 1 }).where(eq(behaviors.id, ids[index]));
+      }
+    });
+  }
+
+  async getAllFrameworkVersions(frameworkId?: number): Promise<FrameworkVersion[]> {
+    return await db.select().from(frameworkVersions)
+      .where(frameworkId === undefined ? undefined : eq(frameworkVersions.frameworkId, frameworkId))
+      .orderBy(desc(frameworkVersions.version));
+  }
+
+  async getFrameworkVersion(id: number): Promise<FrameworkVersion | undefined> {
+    const [version] = await db.select().from(frameworkVersions).where(eq(frameworkVersions.id, id));
+    return version;
+  }
+
+  /**
+   * Returns the framework's latest version, snapshotting the live framework first
+   * if it has been edited since that version was taken
+   */
+  async ensureCurrentFrameworkVersion(frameworkId: number): Promise<FrameworkVersion> {
+    const framework = await this.getFramework(frameworkId);
+    // The resolved policy is stored so later changes to the default do not rescore old versions
+    const liveSnapshot: FrameworkSnapshot = {
+      steps: await this.getAllSteps(frameworkId),
+      scoringPolicy: framework?.scoringPolicy ?? DEFAULT_SCORING_POLICY,
+    };
+    const [latest] = await db.select().from(frameworkVersions)
+      .where(eq(frameworkVersions.frameworkId, frameworkId))
+      .orderBy(desc(frameworkVersions.version))
+      .limit(1);
+    if (latest && stableStringify(latest.snapshot) === stableStringify(liveSnapshot)) {
+      return latest;
+    }
+
+    const nextVersion = latest ? latest.version + 1 : 1;
+    console.log(`DatabaseStorage: Creating version ${nextVersion} of framework ${frameworkId}`);
+    // A concurrent request may have taken the same version number; fall back to its row
+    await db.insert(frameworkVersions)
+      .values({ frameworkId, version: nextVersion, snapshot: liveSnapshot })
+      .onConflictDoNothing({ target: [frameworkVersions.frameworkId, frameworkVersions.version] });
+    const [created] = await db.select().from(frameworkVersions)
+      .where(and(eq(frameworkVersions.frameworkId, frameworkId), eq(frameworkVersions.version, nextVersion)));
+    return created;
+  }
+
+  async getSnapshotForAssessment(assessment: Assessment): Promise<FrameworkSnapshot> {
+    if (assessment.frameworkVersionId) {
+      const version = await this.getFrameworkVersion(assessment.frameworkVersionId);
+      if (version) {
+        return { steps: version.snapshot.steps, scoringPolicy: version.snapshot.scoringPolicy ?? DEFAULT_SCORING_POLICY };
+      }
+    }
+    // Assessments created before versioning was introduced fall back to the live framework
+    const framework = assessment.frameworkId ? await this.getFramework(assessment.frameworkId) : undefined;
+    return {
+      steps: await this.getAllSteps(assessment.frameworkId ?? undefined),
+      scoringPolicy: framework?.scoringPolicy ?? DEFAULT_SCORING_POLICY,
+    };
+  }
+
   async getAllUsers(): Promise<UserWithTeams[]> {
     const allUsers = await db.query.users.findMany({
+      // Anonymized accounts are gone as far as the app is concerned
+      where: (users, { isNull }) => isNull(users.deletedAt),
       with: {
         userTeams: {
           with: {
@@ -1169,8 +1947,15 @@ export class DatabaseStorage implements IStorage {
     });
     
     // Transform the data to include teams array
+    // Password hashes and one-time tokens never leave the server
     return allUsers.map(user => ({
       ...user,
+      passwordHash: null,
+      resetToken: null,
+      emailChangeToken: null,
+      emailVerificationToken: null,
+      totpSecret: null,
+      totpRecoveryCodes: null,
       teams: user.userTeams.map(ut => ut.team)
     })) as UserWithTeams[];
   }
@@ -1338,6 +2123,152 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
+  async deleteAccount(id: number): Promise<AccountDeletionResult> {
+    console.log(`DatabaseStorage: Deleting account ${id}`);
+    return await db.transaction(async (tx) => {
+      await tx.update(assessments)
+        .set({ assesseeUserId: null, assesseeName: DELETED_USER_NAME })
+        .where(eq(assessments.assesseeUserId, id));
+
+      const [coachedAssessment] = await tx.select({ id: assessments.id })
+        .from(assessments)
+        .where(eq(assessments.userId, id))
+        .limit(1);
+
+      if (coachedAssessment) {
+        await tx.delete(userTeams).where(eq(userTeams.userId, id));
+        await tx.update(users).set(anonymizedUserFields(id)).where(eq(users.id, id));
+        return 'anonymized' as const;
+      }
+
+      await tx.delete(users).where(eq(users.id, id));
+      return 'deleted' as const;
+    });
+  }
+
+  // Invitations
+  async createInvitation(invitation: InsertInvitation, teamIds: number[]): Promise<InvitationWithTeams> {
+    console.log(`DatabaseStorage: Creating invitation for ${invitation.email} into ${teamIds.length} teams`);
+    const invitationId = await db.transaction(async (tx) => {
+      const [newInvitation] = await tx.insert(invitations).values(invitation).returning();
+      if (teamIds.length > 0) {
+        await tx.insert(invitationTeams).values(teamIds.map(teamId => ({ invitationId: newInvitation.id, teamId })));
+      }
+      return newInvitation.id;
+    });
+    return (await this.getInvitation(invitationId))!;
+  }
+
+  async getInvitation(id: number): Promise<InvitationWithTeams | undefined> {
+    const invitation = await db.query.invitations.findFirst({
+      where: (invitations, { eq }) => eq(invitations.id, id),
+      with: { invitationTeams: { with: { team: true } } },
+    });
+    if (!invitation) return undefined;
+
+    const { invitationTeams: teamLinks, ...rest } = invitation;
+    return { ...rest, teams: teamLinks.map(link => link.team) };
+  }
+
+  async getInvitationByToken(token: string): Promise<InvitationWithTeams | undefined> {
+    const [invitation] = await db.select({ id: invitations.id }).from(invitations).where(eq(invitations.token, token));
+    return invitation ? this.getInvitation(invitation.id) : undefined;
+  }
+
+  // Not yet accepted or revoked; expired invitations are included so they can be resent
+  async getPendingInvitations(): Promise<InvitationWithTeams[]> {
+    const pending = await db.query.invitations.findMany({
+      where: (invitations, { and, isNull }) => and(isNull(invitations.acceptedAt), isNull(invitations.revokedAt)),
+      with: { invitationTeams: { with: { team: true } } },
+      orderBy: (invitations, { desc }) => [desc(invitations.createdAt)],
+    });
+    return pending.map(({ invitationTeams: teamLinks, ...invitation }) => ({
+      ...invitation,
+      teams: teamLinks.map(link => link.team),
+    }));
+  }
+
+  async renewInvitation(id: number, token: string, expiresAt: Date): Promise<Invitation> {
+    console.log(`DatabaseStorage: Renewing invitation ${id}`);
+    const [invitation] = await db.update(invitations)
+      .set({ token, expiresAt })
+      .where(eq(invitations.id, id))
+      .returning();
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+    return invitation;
+  }
+
+  async revokeInvitation(id: number): Promise<void> {
+    console.log(`DatabaseStorage: Revoking invitation ${id}`);
+    await db.update(invitations).set({ revokedAt: new Date() }).where(eq(invitations.id, id));
+  }
+
+  /**
+   * Creates the invitee's account (or gives a passwordless coachee record added before invitations
+   * existed its password) and adds it to the invited teams
+   */
+  async acceptInvitation(id: number, passwordHash: string): Promise<User> {
+    console.log(`DatabaseStorage: Accepting invitation ${id}`);
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx.select().from(invitations).where(eq(invitations.id, id));
+      if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+        throw new Error('Invitation is no longer valid');
+      }
+
+      const [existingUser] = await tx.select().from(users).where(eq(users.email, invitation.email)).limit(1);
+      if (existingUser && (existingUser.passwordHash || existingUser.deletedAt)) {
+        throw new Error('User already exists');
+      }
+
+      // The invitation link proves the invitee owns the address
+      const account = {
+        passwordHash,
+        emailVerified: true,
+        provider: 'email' as const,
+        role: invitation.role,
+        language: invitation.language,
+        updatedAt: new Date(),
+      };
+      const [user] = existingUser
+        ? await tx.update(users).set(account).where(eq(users.id, existingUser.id)).returning()
+        : await tx.insert(users).values({ fullName: invitation.fullName, email: invitation.email, ...account }).returning();
+
+      const teamLinks = await tx.select({ teamId: invitationTeams.teamId })
+        .from(invitationTeams)
+        .where(eq(invitationTeams.invitationId, id));
+      if (teamLinks.length > 0) {
+        await tx.insert(userTeams)
+          .values(teamLinks.map(link => ({ userId: user.id, teamId: link.teamId })))
+          .onConflictDoNothing();
+      }
+
+      await tx.update(invitations).set({ acceptedAt: new Date() }).where(eq(invitations.id, id));
+      return user;
+    });
+  }
+
+  // Keys that were never saved fall back to defaultAppSettings
+  async getAppSettings(): Promise<AppSettings> {
+    const rows = await db.select().from(appSettings);
+    const saved = Object.fromEntries(rows.map(row => [row.key, row.value]));
+    return { ...defaultAppSettings, ...saved } as AppSettings;
+  }
+
+  async updateAppSettings(settings: UpdateAppSettingsRequest): Promise<AppSettings> {
+    console.log(`DatabaseStorage: Updating app settings`, settings);
+    await db.transaction(async (tx) => {
+      for (const [key, value] of Object.entries(settings)) {
+        if (value === undefined) continue;
+        await tx.insert(appSettings)
+          .values({ key, value, updatedAt: new Date() })
+          .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+      }
+    });
+    return this.getAppSettings();
+  }
+
   // User-Team Relationships
   async getUserTeams(userId: number): Promise<Team[]> {
     console.log(`DatabaseStorage: Getting teams for user ${userId}`);
@@ -1371,6 +2302,20 @@ export class DatabaseStorage implements IStorage {
         providerId: users.providerId,
         resetToken: users.resetToken,
         resetTokenExpiry: users.resetTokenExpiry,
+        role: users.role,
+        pendingEmail: users.pendingEmail,
+        emailChangeToken: users.emailChangeToken,
+        emailChangeTokenExpiry: users.emailChangeTokenExpiry,
+        deletedAt: users.deletedAt,
+        language: users.language,
+        emailVerificationToken: users.emailVerificationToken,
+        emailVerificationTokenExpiry: users.emailVerificationTokenExpiry,
+        failedLoginCount: users.failedLoginCount,
+        lockedUntil: users.lockedUntil,
+        totpSecret: users.totpSecret,
+        totpEnabled: users.totpEnabled,
+        totpRecoveryCodes: users.totpRecoveryCodes,
+        totpLastUsedStep: users.totpLastUsedStep,
       })
       .from(userTeams)
       .innerJoin(users, eq(userTeams.userId, users.id))
@@ -1433,7 +2378,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
-    const [newAssessment] = await db.insert(assessments).values(assessment).returning();
+    // Pin the chosen framework, and the version of it in effect when the session starts
+    const frameworkId = assessment.frameworkId ?? (await this.getDefaultFramework())?.id;
+    if (!frameworkId) {
+      throw new Error("No coaching framework available");
+    }
+    const frameworkVersionId = assessment.frameworkVersionId ?? (await this.ensureCurrentFrameworkVersion(frameworkId)).id;
+    const [newAssessment] = await db.insert(assessments).values({ ...assessment, frameworkId, frameworkVersionId }).returning();
     return newAssessment;
   }
 
@@ -1483,22 +2434,34 @@ export class DatabaseStorage implements IStorage {
     return latestAssessment;
   }
 
-  async getLatestAssessmentForCoachee(coacheeName: string): Promise<Assessment | undefined> {
+  async getLatestAssessmentForCoachee(coacheeId: number): Promise<Assessment | undefined> {
     const [latestAssessment] = await db
       .select()
       .from(assessments)
-      .where(eq(assessments.assesseeName, coacheeName))
+      .where(eq(assessments.assesseeUserId, coacheeId))
       .orderBy(desc(assessments.createdAt))
       .limit(1);
     
     return latestAssessment;
   }
 
-  async getPreviousAssessmentForCoachee(coacheeName: string, excludeId: number): Promise<Assessment | undefined> {
+  async getAssessmentsForCoachee(coacheeId: number): Promise<Assessment[]> {
+    return await db
+      .select()
+      .from(assessments)
+      .where(eq(assessments.assesseeUserId, coacheeId))
+      .orderBy(asc(assessments.createdAt), asc(assessments.id));
+  }
+
+  async getPreviousAssessmentForCoachee(coacheeId: number, excludeId: number, frameworkId?: number | null): Promise<Assessment | undefined> {
     const [previousAssessment] = await db
       .select()
       .from(assessments)
-      .where(and(eq(assessments.assesseeName, coacheeName), ne(assessments.id, excludeId)))
+      .where(and(
+        eq(assessments.assesseeUserId, coacheeId),
+        ne(assessments.id, excludeId),
+        frameworkId ? eq(assessments.frameworkId, frameworkId) : undefined
+      ))
       .orderBy(desc(assessments.createdAt))
       .limit(1);
     
@@ -1510,17 +2473,18 @@ export class DatabaseStorage implements IStorage {
     return scores;
   }
 
-  async updateAssessmentScore(assessmentId: number, behaviorId: number, checked: boolean): Promise<AssessmentScore> {
-    console.log(`DatabaseStorage: Updating assessment score - assessment ${assessmentId}, behavior ${behaviorId}, checked: ${checked}`);
+  async updateAssessmentScore(assessmentId: number, behaviorId: number, observation: BehaviorObservation | null): Promise<AssessmentScore> {
+    console.log(`DatabaseStorage: Updating assessment score - assessment ${assessmentId}, behavior ${behaviorId}, observation: ${observation}`);
     const startTime = Date.now();
+    const checked = observation === 'observed';
     
     // Use upsert for better performance - no need to check first
     const [score] = await db
       .insert(assessmentScores)
-      .values({ assessmentId, behaviorId, checked })
+      .values({ assessmentId, behaviorId, observation, checked })
       .onConflictDoUpdate({
         target: [assessmentScores.assessmentId, assessmentScores.behaviorId],
-        set: { checked }
+        set: { observation, checked }
       })
       .returning();
     
@@ -1528,6 +2492,19 @@ export class DatabaseStorage implements IStorage {
     return score;
   }
 
+  async updateAssessmentScoreNote(assessmentId: number, behaviorId: number, note: string | null): Promise<AssessmentScore> {
+    // A note may come before the behavior is marked; the observation stays unset until then
+    const [score] = await db
+      .insert(assessmentScores)
+      .values({ assessmentId, behaviorId, observation: null, checked: false, note })
+      .onConflictDoUpdate({
+        target: [assessmentScores.assessmentId, assessmentScores.behaviorId],
+        set: { note }
+      })
+      .returning();
+    return score;
+  }
+
   async getStepScores(assessmentId: number): Promise<StepScore[]> {
     const scores = await db.select().from(stepScores).where(eq(stepScores.assessmentId, assessmentId));
     return scores;
@@ -1545,10 +2522,63 @@ export class DatabaseStorage implements IStorage {
     return score;
   }
 
+  async updateStepScoreNote(assessmentId: number, stepId: number, note: string | null): Promise<StepScore> {
+    // Level 0 keeps the step calculated from its behaviors
+    const [score] = await db
+      .insert(stepScores)
+      .values({ assessmentId, stepId, level: 0, note })
+      .onConflictDoUpdate({
+        target: [stepScores.assessmentId, stepScores.stepId],
+        set: { note }
+      })
+      .returning();
+    return score;
+  }
+
+  async getSelfAssessment(assessmentId: number): Promise<SelfAssessment | undefined> {
+    const [selfAssessment] = await db.select().from(selfAssessments).where(eq(selfAssessments.assessmentId, assessmentId));
+    return selfAssessment;
+  }
+
+  async createSelfAssessment(assessmentId: number, userId: number): Promise<SelfAssessment> {
+    // Starting twice (e.g. two open tabs) returns the existing self-assessment
+    await db
+      .insert(selfAssessments)
+      .values({ assessmentId, userId })
+      .onConflictDoNothing({ target: selfAssessments.assessmentId });
+    const selfAssessment = await this.getSelfAssessment(assessmentId);
+    return selfAssessment!;
+  }
+
+  async submitSelfAssessment(id: number): Promise<SelfAssessment> {
+    const [selfAssessment] = await db
+      .update(selfAssessments)
+      .set({ status: "submitted", submittedAt: new Date() })
+      .where(eq(selfAssessments.id, id))
+      .returning();
+    return selfAssessment;
+  }
+
+  async getSelfAssessmentScores(selfAssessmentId: number): Promise<SelfAssessmentScore[]> {
+    return await db.select().from(selfAssessmentScores).where(eq(selfAssessmentScores.selfAssessmentId, selfAssessmentId));
+  }
+
+  async updateSelfAssessmentScore(selfAssessmentId: number, behaviorId: number, observation: BehaviorObservation): Promise<SelfAssessmentScore> {
+    const [score] = await db
+      .insert(selfAssessmentScores)
+      .values({ selfAssessmentId, behaviorId, observation })
+      .onConflictDoUpdate({
+        target: [selfAssessmentScores.selfAssessmentId, selfAssessmentScores.behaviorId],
+        set: { observation }
+      })
+      .returning();
+    return score;
+  }
+
   async initializeDefaultData(): Promise<void> {
     // Check if data already exists
-    const existingSteps = await this.getAllSteps();
-    if (existingSteps.length > 0) {
+    const existingFrameworks = await this.getAllFrameworks();
+    if (existingFrameworks.length > 0) {
       console.log("Database already initialized, skipping default data creation");
       return;
     }
@@ -1577,11 +2607,17 @@ export class DatabaseStorage implements IStorage {
     await memStorage.initializeDefaultData();
 
     // Get all data from MemStorage and insert into database
+    const defaultFramework = (await memStorage.getDefaultFramework())!;
+    const framework = await this.createFramework({
+      name: defaultFramework.name,
+      description: defaultFramework.description
+    });
     const allSteps = await memStorage.getAllSteps();
 
     for (let stepIndex = 0; stepIndex < allSteps.length; stepIndex++) {
       const step = allSteps[stepIndex];
       const insertedStep = await this.createStep({
+        frameworkId: framework.id,
         title: step.title,
         description: step.description,
         targetScore: step.targetScore,
@@ -1613,6 +2649,10 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    await this.updateFramework(framework.id, {
+      scoringPolicy: { ...DEFAULT_SCORING_POLICY, thresholdRules: StepLevelCalculator.getLegacyThresholdRules(await this.getAllSteps(framework.id)) },
+    });
+
     console.log("Database initialized with separated behaviors");
   }
 }
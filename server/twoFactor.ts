@@ -0,0 +1,161 @@
+import * as OTPAuth from 'otpauth';
+import QRCode from 'qrcode';
+import crypto from 'crypto';
+import { db } from './db';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import { users, type User, type TwoFactorSetup, type TwoFactorStatus } from '@shared/schema';
+import { storage } from './storage';
+
+const ISSUER = 'SalesCoach';
+const PERIOD_SECONDS = 30;
+// Accept the previous and next code as well, for clock drift between server and phone
+const CODE_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Optional TOTP second factor (RFC 6238, compatible with Google Authenticator, 1Password, etc.)
+ * with single-use recovery codes
+ */
+export class TwoFactorService {
+  private static createTotp(secret: string, label: string): OTPAuth.TOTP {
+    return new OTPAuth.TOTP({
+      issuer: ISSUER,
+      label,
+      algorithm: 'SHA1',
+      digits: 6,
+      period: PERIOD_SECONDS,
+      secret: OTPAuth.Secret.fromBase32(secret),
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(this.normalizeRecoveryCode(code)).digest('hex');
+  }
+
+  private static normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Admin accounts must use two-factor authentication once an admin turns on the setting
+   */
+  static async isRequiredFor(user: User): Promise<boolean> {
+    if (user.role !== 'admin') return false;
+    return (await storage.getAppSettings()).requireAdminTwoFactor;
+  }
+
+  static async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return {
+      enabled: !!user?.totpEnabled,
+      required: user ? await this.isRequiredFor(user) : false,
+      recoveryCodesRemaining: user?.totpEnabled ? user.totpRecoveryCodes?.length ?? 0 : 0,
+    };
+  }
+
+  /**
+   * Starts enrollment with a fresh secret. It only takes effect once confirmed with enable().
+   */
+  static async createSetup(user: User): Promise<TwoFactorSetup> {
+    const secret = new OTPAuth.Secret({ size: 20 }).base32;
+    await db.update(users)
+      .set({ totpSecret: secret, totpEnabled: false, totpRecoveryCodes: null, totpLastUsedStep: null })
+      .where(eq(users.id, user.id));
+
+    const otpauthUrl = this.createTotp(secret, user.email).toString();
+    return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+  }
+
+  /**
+   * Confirms enrollment with a code from the authenticator app; returns the recovery codes,
+   * which are shown once, or null when the code is wrong
+   */
+  static async enable(userId: number, code: string): Promise<string[] | null> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user?.totpSecret || user.totpEnabled) {
+      return null;
+    }
+
+    const step = this.matchTotp(user, code);
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db.update(users)
+      .set({
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a sign-in code: a current authenticator code (each accepted once) or an unused recovery code,
+   * which is then used up
+   */
+  static async verify(userId: number, code: string): Promise<boolean> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user?.totpEnabled || !user.totpSecret) {
+      return false;
+    }
+
+    if (/^\d{6}$/.test(code.trim())) {
+      const step = this.matchTotp(user, code);
+      if (step === null) {
+        return false;
+      }
+      // Only one request can move the step forward, so a code can't be used twice
+      const [accepted] = await db.update(users)
+        .set({ totpLastUsedStep: step })
+        .where(and(eq(users.id, userId), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+        .returning({ id: users.id });
+      return !!accepted;
+    }
+
+    const codeHash = this.hashRecoveryCode(code);
+    const remaining = user.totpRecoveryCodes ?? [];
+    if (!remaining.includes(codeHash)) {
+      return false;
+    }
+    await db.update(users)
+      .set({ totpRecoveryCodes: remaining.filter(hash => hash !== codeHash) })
+      .where(eq(users.id, userId));
+    return true;
+  }
+
+  static async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db.update(users)
+      .set({ totpRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)) })
+      .where(eq(users.id, userId));
+    return recoveryCodes;
+  }
+
+  static async disable(userId: number): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: null, totpEnabled: false, totpRecoveryCodes: null, totpLastUsedStep: null, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Time step the code belongs to, or null when it matches none inside the window
+  private static matchTotp(user: User, code: string): number | null {
+    const totp = this.createTotp(user.totpSecret!, user.email);
+    const delta = totp.validate({ token: code.trim(), window: CODE_WINDOW });
+    if (delta === null) {
+      return null;
+    }
+    return Math.floor(Date.now() / 1000 / PERIOD_SECONDS) + delta;
+  }
+}
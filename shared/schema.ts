@@ -1,14 +1,27 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, boolean, timestamp, varchar, unique, index, jsonb } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Named coaching frameworks (e.g. key-account vs. inside sales), each with its own steps
+export const frameworks = pgTable("frameworks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  scoringPolicy: jsonb("scoring_policy").$type<ScoringPolicy>(), // null = DEFAULT_SCORING_POLICY
+  archived: boolean("archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const steps = pgTable("steps", {
   id: serial("id").primaryKey(),
+  frameworkId: integer("framework_id").notNull().references(() => frameworks.id),
   title: text("title").notNull(),
   description: text("description").notNull(),
   targetScore: integer("target_score").notNull(),
   order: integer("order").notNull(),
+  weight: real("weight").default(1).notNull(), // Relative weight in the overall proficiency average
+  archived: boolean("archived").default(false).notNull(), // Retired steps stay referenced by historic step_scores
 });
 
 export const substeps = pgTable("substeps", {
@@ -16,6 +29,7 @@ export const substeps = pgTable("substeps", {
   stepId: integer("step_id").notNull().references(() => steps.id),
   title: text("title").notNull(),
   order: integer("order").notNull(),
+  archived: boolean("archived").default(false).notNull(),
 });
 
 export const behaviors = pgTable("behaviors", {
@@ -24,8 +38,21 @@ export const behaviors = pgTable("behaviors", {
   description: text("description").notNull(),
   proficiencyLevel: integer("proficiency_level").notNull(), // 1-4
   order: integer("order").notNull(),
+  weight: real("weight").default(1).notNull(), // Relative weight in the step's checked percentage
+  archived: boolean("archived").default(false).notNull(), // Retired behaviors stay referenced by historic assessment_scores
 });
 
+// Immutable copies of the framework; assessments are scored against the version they pinned
+export const frameworkVersions = pgTable("framework_versions", {
+  id: serial("id").primaryKey(),
+  frameworkId: integer("framework_id").notNull().references(() => frameworks.id),
+  version: integer("version").notNull(), // Sequential per framework
+  snapshot: jsonb("snapshot").$type<FrameworkSnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueFrameworkVersion: unique().on(table.frameworkId, table.version),
+}));
+
 export const teams = pgTable("teams", {
   id: serial("id").primaryKey(),
   name: varchar("name").notNull().unique(),
@@ -33,6 +60,19 @@ export const teams = pgTable("teams", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// admin manages users, teams and frameworks; coach runs sessions; coachee only sees their own results
+export const userRoles = ["admin", "coach", "coachee"] as const;
+export type UserRole = typeof userRoles[number];
+
+// External identity providers users can sign in with (see server/oidc.ts)
+export const oauthProviders = ["google", "apple"] as const;
+export type OAuthProvider = typeof oauthProviders[number];
+
+// Languages the application emails are written in
+export const emailLanguages = ["en", "de"] as const;
+export type EmailLanguage = typeof emailLanguages[number];
+export const emailLanguageNames: Record<EmailLanguage, string> = { en: "English", de: "Deutsch" };
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   fullName: varchar("full_name").notNull(),
@@ -42,10 +82,31 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
   passwordHash: text("password_hash"),
   emailVerified: boolean("email_verified").default(false),
-  provider: text("provider").$type<"email" | "google" | "apple">(),
+  provider: text("provider").$type<"email" | OAuthProvider>(),
   providerId: text("provider_id"),
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
+  role: text("role").$type<UserRole>().default("coachee").notNull(),
+  pendingEmail: varchar("pending_email"), // New address awaiting confirmation; email changes only once confirmed
+  emailChangeToken: text("email_change_token"),
+  emailChangeTokenExpiry: timestamp("email_change_token_expiry"),
+  deletedAt: timestamp("deleted_at"), // Set when a deleted account is kept anonymized for the sessions it ran
+  language: text("language").$type<EmailLanguage>().default("en").notNull(), // Language of the emails the user receives
+  emailVerificationToken: text("email_verification_token"),
+  emailVerificationTokenExpiry: timestamp("email_verification_token_expiry"),
+  failedLoginCount: integer("failed_login_count").default(0).notNull(), // Consecutive failed logins; reset on success or admin unlock
+  lockedUntil: timestamp("locked_until"), // Logins are refused until then
+  totpSecret: text("totp_secret"), // Base32; set during enrollment, only trusted once totpEnabled
+  totpEnabled: boolean("totp_enabled").default(false).notNull(),
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(), // SHA-256 hashes of unused recovery codes
+  totpLastUsedStep: integer("totp_last_used_step"), // Time step of the last accepted code, so a code can't be replayed
+});
+
+// Instance-wide options changed by admins, one row per key (see appSettingsSchema)
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const userTeams = pgTable("user_teams", {
@@ -57,11 +118,68 @@ export const userTeams = pgTable("user_teams", {
   uniqueUserTeam: unique().on(table.userId, table.teamId),
 }));
 
+// Audit trail of sign-in and password reset attempts; also the source for per-IP rate limits
+export const loginAttemptKinds = ["login", "password-reset"] as const;
+export type LoginAttemptKind = typeof loginAttemptKinds[number];
+
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<LoginAttemptKind>().notNull(),
+  email: varchar("email").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  success: boolean("success").notNull(),
+  reason: text("reason"), // Why a failed attempt was refused, e.g. invalid-credentials, locked, rate-limited
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ipAddressIdx: index("login_attempts_ip_address_idx").on(table.ipAddress, table.createdAt),
+  emailIdx: index("login_attempts_email_idx").on(table.email, table.createdAt),
+}));
+
+// One signed-in device. Only hashes of refresh tokens are stored; the previous hash is kept
+// so a replayed (already rotated) token can be detected and the session revoked.
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousTokenHash: text("previous_token_hash"),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  rotatedAt: timestamp("rotated_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pending account for someone invited by email; the user row is created when they accept and set a password
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  email: varchar("email").notNull(),
+  fullName: varchar("full_name").notNull(),
+  role: text("role").$type<UserRole>().default("coachee").notNull(),
+  language: text("language").$type<EmailLanguage>().default("en").notNull(),
+  token: text("token").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Teams the invitee joins on acceptance
+export const invitationTeams = pgTable("invitation_teams", {
+  id: serial("id").primaryKey(),
+  invitationId: integer("invitation_id").notNull().references(() => invitations.id, { onDelete: "cascade" }),
+  teamId: integer("team_id").notNull().references(() => teams.id, { onDelete: "cascade" }),
+}, (table) => ({
+  uniqueInvitationTeam: unique().on(table.invitationId, table.teamId),
+}));
+
 export const assessments = pgTable("assessments", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   userId: integer("user_id").references(() => users.id).notNull(), // Coach (person doing the assessment)
-  assesseeName: text("assessee_name").notNull(), // Coachee being assessed
+  assesseeName: text("assessee_name").notNull(), // Coachee's name when the session was recorded
+  assesseeUserId: integer("assessee_user_id").references(() => users.id, { onDelete: "set null" }), // Coachee being assessed; null for sessions whose name matched no user
   context: text("context"), // Assessment context/notes
   keyObservations: text("key_observations"),
   whatWorkedWell: text("what_worked_well"),
@@ -69,14 +187,27 @@ export const assessments = pgTable("assessments", {
   nextSteps: text("next_steps"),
   pdfFilePath: text("pdf_file_path"), // Path to generated PDF report
   status: text("status").default("draft").notNull(), // "draft", "saved", "submitted"
+  frameworkId: integer("framework_id").references(() => frameworks.id), // Framework chosen when the session was started
+  frameworkVersionId: integer("framework_version_id").references(() => frameworkVersions.id), // Framework snapshot this assessment is scored against
+  focusStepIds: jsonb("focus_step_ids").$type<number[]>(), // Steps covered by a focused session; null = all steps
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// What the coach saw for a behavior. Not applicable (e.g. the call never reached that phase)
+// leaves the behavior out of the step's percentage instead of counting against the coachee.
+export const behaviorObservations = ["observed", "not_observed", "not_applicable"] as const;
+export type BehaviorObservation = typeof behaviorObservations[number];
+// In-session observations keyed by behavior id; behaviors without an entry count as not observed
+export type BehaviorObservations = { [behaviorId: number]: BehaviorObservation };
+
 export const assessmentScores = pgTable("assessment_scores", {
   id: serial("id").primaryKey(),
   assessmentId: integer("assessment_id").notNull().references(() => assessments.id),
   behaviorId: integer("behavior_id").notNull().references(() => behaviors.id),
-  checked: boolean("checked").notNull().default(false),
+  // Null when the row only holds a note and the behavior hasn't been marked yet
+  observation: text("observation").$type<BehaviorObservation>().default("not_observed"),
+  checked: boolean("checked").notNull().default(false), // Mirrors observation === "observed" for older clients
+  note: text("note"), // Evidence for the observation, e.g. a verbatim quote or call timestamp
 }, (table) => ({
   uniqueAssessmentBehavior: unique().on(table.assessmentId, table.behaviorId),
 }));
@@ -85,12 +216,42 @@ export const stepScores = pgTable("step_scores", {
   id: serial("id").primaryKey(),
   assessmentId: integer("assessment_id").notNull().references(() => assessments.id),
   stepId: integer("step_id").notNull().references(() => steps.id),
-  level: integer("level").notNull(), // 1=Learner, 2=Qualified, 3=Experienced, 4=Master
+  level: integer("level").notNull(), // 1=Learner, 2=Qualified, 3=Experienced, 4=Master; 0=calculated from behaviors
+  note: text("note"), // Evidence for the step as a whole
 }, (table) => ({
   uniqueAssessmentStep: unique().on(table.assessmentId, table.stepId),
 }));
 
-export const stepsRelations = relations(steps, ({ many }) => ({
+// A coachee's own rating of the same call, linked one-to-one to the coach's assessment
+export const selfAssessments = pgTable("self_assessments", {
+  id: serial("id").primaryKey(),
+  assessmentId: integer("assessment_id").notNull().references(() => assessments.id, { onDelete: "cascade" }).unique(), // The coach's assessment
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Coachee filling it in
+  status: text("status").default("draft").notNull(), // "draft", "submitted"; the coach only sees submitted ones
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const selfAssessmentScores = pgTable("self_assessment_scores", {
+  id: serial("id").primaryKey(),
+  selfAssessmentId: integer("self_assessment_id").notNull().references(() => selfAssessments.id, { onDelete: "cascade" }),
+  behaviorId: integer("behavior_id").notNull().references(() => behaviors.id),
+  observation: text("observation").$type<BehaviorObservation>().notNull(),
+}, (table) => ({
+  uniqueSelfAssessmentBehavior: unique().on(table.selfAssessmentId, table.behaviorId),
+}));
+
+export const frameworksRelations = relations(frameworks, ({ many }) => ({
+  steps: many(steps),
+  versions: many(frameworkVersions),
+  assessments: many(assessments),
+}));
+
+export const stepsRelations = relations(steps, ({ one, many }) => ({
+  framework: one(frameworks, {
+    fields: [steps.frameworkId],
+    references: [frameworks.id],
+  }),
   substeps: many(substeps),
   stepScores: many(stepScores),
 }));
@@ -131,13 +292,45 @@ export const userTeamsRelations = relations(userTeams, ({ one }) => ({
   }),
 }));
 
+export const invitationsRelations = relations(invitations, ({ many }) => ({
+  invitationTeams: many(invitationTeams),
+}));
+
+export const invitationTeamsRelations = relations(invitationTeams, ({ one }) => ({
+  invitation: one(invitations, {
+    fields: [invitationTeams.invitationId],
+    references: [invitations.id],
+  }),
+  team: one(teams, {
+    fields: [invitationTeams.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const frameworkVersionsRelations = relations(frameworkVersions, ({ one, many }) => ({
+  framework: one(frameworks, {
+    fields: [frameworkVersions.frameworkId],
+    references: [frameworks.id],
+  }),
+  assessments: many(assessments),
+}));
+
 export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
   user: one(users, {
     fields: [assessments.userId],
     references: [users.id],
   }),
+  framework: one(frameworks, {
+    fields: [assessments.frameworkId],
+    references: [frameworks.id],
+  }),
+  frameworkVersion: one(frameworkVersions, {
+    fields: [assessments.frameworkVersionId],
+    references: [frameworkVersions.id],
+  }),
   scores: many(assessmentScores),
   stepScores: many(stepScores),
+  selfAssessment: one(selfAssessments),
 }));
 
 export const assessmentScoresRelations = relations(assessmentScores, ({ one }) => ({
@@ -162,8 +355,88 @@ export const stepScoresRelations = relations(stepScores, ({ one }) => ({
   }),
 }));
 
+export const selfAssessmentsRelations = relations(selfAssessments, ({ one, many }) => ({
+  assessment: one(assessments, {
+    fields: [selfAssessments.assessmentId],
+    references: [assessments.id],
+  }),
+  user: one(users, {
+    fields: [selfAssessments.userId],
+    references: [users.id],
+  }),
+  scores: many(selfAssessmentScores),
+}));
+
+export const selfAssessmentScoresRelations = relations(selfAssessmentScores, ({ one }) => ({
+  selfAssessment: one(selfAssessments, {
+    fields: [selfAssessmentScores.selfAssessmentId],
+    references: [selfAssessments.id],
+  }),
+  behavior: one(behaviors, {
+    fields: [selfAssessmentScores.behaviorId],
+    references: [behaviors.id],
+  }),
+}));
+
+const levelThresholdsSchema = (min: number, max: number) => z.object({
+  qualified: z.number().min(min).max(max),
+  experienced: z.number().min(min).max(max),
+  master: z.number().min(min).max(max),
+}).refine(t => t.qualified < t.experienced && t.experienced < t.master, {
+  message: "Thresholds must increase from Qualified to Master",
+});
+
+// Minimum points, the summed proficiency levels of the observed behaviors. Equal thresholds skip
+// the level between them, as some of the hand-tuned title thresholds did.
+const pointThresholdsSchema = z.object({
+  qualified: z.number().int().min(0),
+  experienced: z.number().int().min(0),
+  master: z.number().int().min(0),
+}).refine(t => t.qualified <= t.experienced && t.experienced <= t.master, {
+  message: "Point thresholds can't decrease from Qualified to Master",
+});
+
+// Overrides the framework's behavior percentages for one step or substep, either with its own
+// percentages or with point thresholds. Keyed by id so renaming a step never changes how it is scored.
+const thresholdRuleTargetSchema = z.object({
+  targetType: z.enum(["step", "substep"]),
+  targetId: z.number().int().positive(),
+});
+export const thresholdRuleSchema = z.union([
+  thresholdRuleTargetSchema.extend({ behaviorPercentages: levelThresholdsSchema(0, 100) }),
+  thresholdRuleTargetSchema.extend({ behaviorPoints: pointThresholdsSchema }),
+]);
+
+const scoringCutoffsSchema = z.object({
+  behaviorPercentages: levelThresholdsSchema(0, 100), // Minimum % of checked behaviors per step level
+  overallAverages: levelThresholdsSchema(1, 4), // Minimum average step level for the overall level
+});
+
+// Cutoffs used by StepLevelCalculator; stored per framework and copied into each version snapshot
+export const scoringPolicySchema = scoringCutoffsSchema.extend({
+  thresholdRules: z.array(thresholdRuleSchema).optional(),
+}).refine(policy => {
+  const targets = (policy.thresholdRules ?? []).map(rule => `${rule.targetType}:${rule.targetId}`);
+  return new Set(targets).size === targets.length;
+}, { message: "Each step or substep can only have one threshold rule", path: ["thresholdRules"] });
+
+export const insertFrameworkSchema = createInsertSchema(frameworks).omit({
+  id: true,
+  archived: true,
+  createdAt: true,
+}).extend({
+  scoringPolicy: scoringPolicySchema.nullable().optional(),
+});
+
+export const updateFrameworkSchema = insertFrameworkSchema.partial();
+
+// Weights are relative, so 2 makes a step or behavior count double
+const weightSchema = z.number().positive("Weight must be greater than 0").max(10);
+
 export const insertStepSchema = createInsertSchema(steps).omit({
   id: true,
+}).extend({
+  weight: weightSchema.optional(),
 });
 
 export const insertSubstepSchema = createInsertSchema(substeps).omit({
@@ -172,6 +445,135 @@ export const insertSubstepSchema = createInsertSchema(substeps).omit({
 
 export const insertBehaviorSchema = createInsertSchema(behaviors).omit({
   id: true,
+}).extend({
+  proficiencyLevel: z.number().int().min(1).max(4),
+  weight: weightSchema.optional(),
+});
+
+// Framework admin payloads: parent ids are fixed once created, archiving goes through DELETE
+export const updateStepSchema = insertStepSchema.omit({ frameworkId: true, archived: true }).partial();
+export const updateSubstepSchema = insertSubstepSchema.omit({ stepId: true, archived: true }).partial();
+export const updateBehaviorSchema = insertBehaviorSchema.omit({ substepId: true, archived: true }).partial();
+export const reorderSchema = z.object({
+  ids: z.array(z.number().int()).min(1),
+});
+
+// Portable framework documents used by import/export (ids are not carried over)
+export const frameworkBehaviorDocumentSchema = z.object({
+  description: z.string().trim().min(1, "Behavior text is required"),
+  proficiencyLevel: z.number().int().min(1).max(4),
+  order: z.number().int().min(1),
+  weight: weightSchema.default(1),
+});
+
+// A step or substep carries at most one threshold rule
+const hasOneThresholdRule = (target: { behaviorPercentages?: unknown; behaviorPoints?: unknown }) =>
+  !(target.behaviorPercentages && target.behaviorPoints);
+const oneThresholdRuleMessage = { message: "Set either behavior percentages or behavior points, not both", path: ["behaviorPoints"] };
+
+export const frameworkSubstepDocumentSchema = z.object({
+  title: z.string().trim().min(1, "Substep title is required"),
+  order: z.number().int().min(1),
+  behaviorPercentages: levelThresholdsSchema(0, 100).optional(), // Threshold rule for this substep
+  behaviorPoints: pointThresholdsSchema.optional(), // Threshold rule for this substep, in points
+  behaviors: z.array(frameworkBehaviorDocumentSchema),
+}).refine(hasOneThresholdRule, oneThresholdRuleMessage);
+
+export const frameworkStepDocumentSchema = z.object({
+  title: z.string().trim().min(1, "Step title is required"),
+  description: z.string().default(""),
+  targetScore: z.number().int().min(1).max(4).default(3),
+  order: z.number().int().min(1),
+  weight: weightSchema.default(1),
+  behaviorPercentages: levelThresholdsSchema(0, 100).optional(), // Threshold rule for this step
+  behaviorPoints: pointThresholdsSchema.optional(), // Threshold rule for this step, in points
+  substeps: z.array(frameworkSubstepDocumentSchema),
+}).refine(hasOneThresholdRule, oneThresholdRuleMessage);
+
+export const frameworkDocumentSchema = z.object({
+  name: z.string().trim().min(1, "Framework name is required"),
+  description: z.string().nullable().optional(),
+  scoringPolicy: scoringCutoffsSchema.nullable().optional(), // Threshold rules travel on their steps and substeps
+  steps: z.array(frameworkStepDocumentSchema).min(1, "A framework needs at least one step"),
+});
+
+export const frameworkImportSchema = z.object({
+  format: z.enum(["json", "csv"]),
+  content: z.string().min(1),
+  name: z.string().trim().min(1).optional(), // Required for CSV, overrides the document name for JSON
+  dryRun: z.boolean().default(false),
+});
+
+// Same minimum as registration and password reset
+const passwordSchema = z.string().min(3, "Password must be at least 3 characters");
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const changeEmailSchema = z.object({
+  newEmail: z.string().trim().email("Please enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Accounts that only sign in with Google or Apple have no password; they confirm by typing their
+// email address, plus a two-factor code when that is enabled
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required").optional(),
+  email: z.string().trim().optional(),
+  code: z.string().trim().optional(),
+});
+
+export const updatePreferencesSchema = z.object({
+  language: z.enum(emailLanguages),
+});
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  role: z.enum(userRoles).default("coachee"),
+  teamIds: z.array(z.number().int()).default([]),
+});
+
+// Accounts admins add directly. Passwords, verification, sign-in providers and two-factor
+// settings are only ever set by the account holder.
+export const createUserSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required"),
+  email: z.string().trim().email("Please enter a valid email address"),
+  team: z.string().trim().nullable().optional(),
+  role: z.enum(userRoles).default("coachee"),
+});
+
+// The same profile and role fields, when an admin edits an account
+export const updateUserSchema = createUserSchema.partial().strict();
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+// An authenticator code or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Code is required").max(32),
+});
+
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, "Sign-in has expired, please start again"),
+});
+
+export const appSettingsSchema = z.object({
+  requireAdminTwoFactor: z.boolean(),
+});
+export const updateAppSettingsSchema = appSettingsSchema.partial();
+
+export const defaultAppSettings: AppSettings = {
+  requireAdminTwoFactor: false,
+};
+
+export const shareAssessmentSchema = z.object({
+  assessmentId: z.number().int(),
+  managerEmail: z.string().trim().email("Please enter a valid manager email").optional(), // Copied on the email
 });
 
 export const insertTeamSchema = createInsertSchema(teams).omit({
@@ -183,26 +585,72 @@ export const insertTeamSchema = createInsertSchema(teams).omit({
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
+  language: z.enum(emailLanguages).optional(),
 });
 
 export const insertAssessmentSchema = createInsertSchema(assessments).omit({
   id: true,
   createdAt: true,
+}).extend({
+  focusStepIds: z.array(z.number().int().positive()).min(1, "Choose at least one focus step").nullable().optional(),
 });
 
+// What a coach may change on their session. Coach, coachee, framework version and focus steps
+// stay as the session was created.
+export const updateAssessmentSchema = z.object({
+  status: z.enum(["draft", "saved", "submitted"]).optional(),
+  context: z.string().nullable().optional(),
+  keyObservations: z.string().nullable().optional(),
+  whatWorkedWell: z.string().nullable().optional(),
+  whatCanBeImproved: z.string().nullable().optional(),
+  nextSteps: z.string().nullable().optional(),
+}).strict();
+
 export const insertAssessmentScoreSchema = createInsertSchema(assessmentScores).omit({
   id: true,
 });
 
+// A null observation clears the mark. Older clients still send { checked }; unchecking a box there
+// only ever meant the behavior wasn't marked.
+export const updateAssessmentScoreSchema = z.union([
+  z.object({ observation: z.enum(behaviorObservations).nullable() }),
+  z.object({ checked: z.boolean() }).transform(({ checked }) => ({
+    observation: checked ? "observed" as BehaviorObservation : null,
+  })),
+]);
+
 export const insertStepScoreSchema = createInsertSchema(stepScores).omit({
   id: true,
 });
 
+export const updateSelfAssessmentScoreSchema = z.object({
+  observation: z.enum(behaviorObservations),
+});
+
+// Evidence notes on a behavior or step score; an empty note clears it
+export const updateScoreNoteSchema = z.object({
+  note: z.string().trim().max(2000, "Notes are limited to 2000 characters").nullable()
+    .transform(note => note || null),
+});
+
 export const insertUserTeamSchema = createInsertSchema(userTeams).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertInvitationSchema = createInsertSchema(invitations).omit({
+  id: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
+  language: z.enum(emailLanguages).optional(),
+});
+
+export type Framework = typeof frameworks.$inferSelect;
 export type Step = typeof steps.$inferSelect;
 export type Substep = typeof substeps.$inferSelect;
 export type Behavior = typeof behaviors.$inferSelect;
@@ -211,20 +659,134 @@ export type User = typeof users.$inferSelect;
 export type Assessment = typeof assessments.$inferSelect;
 export type AssessmentScore = typeof assessmentScores.$inferSelect;
 export type StepScore = typeof stepScores.$inferSelect;
+export type SelfAssessment = typeof selfAssessments.$inferSelect;
+export type SelfAssessmentScore = typeof selfAssessmentScores.$inferSelect;
 export type UserTeam = typeof userTeams.$inferSelect;
+export type Invitation = typeof invitations.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type FrameworkVersion = typeof frameworkVersions.$inferSelect;
+
+// Full step tree as served by GET /api/steps and stored in framework snapshots
+export type StepWithSubsteps = Step & { substeps: (Substep & { behaviors: Behavior[] })[] };
+
+export type ScoringPolicy = z.infer<typeof scoringPolicySchema>;
+export type ThresholdRule = z.infer<typeof thresholdRuleSchema>;
+export type LevelThresholds = ScoringPolicy["behaviorPercentages"];
+
+export interface FrameworkSnapshot {
+  steps: StepWithSubsteps[];
+  scoringPolicy?: ScoringPolicy; // Missing on snapshots taken before policies were configurable
+}
 
 // Extended user type with teams
 export type UserWithTeams = User & { teams: Team[] };
 
+// The signed-in account as returned by /api/auth/me
+export type CurrentUser = User & { hasPassword: boolean };
+
+export type InvitationWithTeams = Invitation & { teams: Team[] };
+
+// Invitation as listed to admins and coaches; the token only ever travels in the invitation email
+export type PendingInvitation = Omit<InvitationWithTeams, "token"> & { inviterName: string | null };
+
+// What the accept-invitation page shows before the invitee sets a password
+export interface InvitationDetails {
+  email: string;
+  fullName: string;
+  inviterName: string | null;
+  expired: boolean;
+}
+
+export type InsertFramework = z.infer<typeof insertFrameworkSchema>;
+export type UpdateFramework = z.infer<typeof updateFrameworkSchema>;
 export type InsertStep = z.infer<typeof insertStepSchema>;
 export type InsertSubstep = z.infer<typeof insertSubstepSchema>;
 export type InsertBehavior = z.infer<typeof insertBehaviorSchema>;
+export type UpdateStep = z.infer<typeof updateStepSchema>;
+export type UpdateSubstep = z.infer<typeof updateSubstepSchema>;
+export type UpdateBehavior = z.infer<typeof updateBehaviorSchema>;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type InsertAssessmentScore = z.infer<typeof insertAssessmentScoreSchema>;
 export type InsertStepScore = z.infer<typeof insertStepScoreSchema>;
 export type InsertUserTeam = z.infer<typeof insertUserTeamSchema>;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+
+export type FrameworkDocument = z.infer<typeof frameworkDocumentSchema>;
+export type FrameworkImportRequest = z.infer<typeof frameworkImportSchema>;
+export type ShareAssessmentRequest = z.infer<typeof shareAssessmentSchema>;
+export type UpdatePreferencesRequest = z.infer<typeof updatePreferencesSchema>;
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+export type UpdateAppSettingsRequest = z.infer<typeof updateAppSettingsSchema>;
+
+// Served by GET /api/email-templates and its preview route
+export interface EmailTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  variables: string[];
+  languages: readonly EmailLanguage[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface FrameworkImportError {
+  line?: number; // CSV line number (1-based, header is line 1)
+  path?: string; // JSON path, e.g. steps[0].substeps[1].title
+  message: string;
+}
+
+export interface FrameworkImportResult {
+  valid: boolean;
+  dryRun: boolean;
+  errors: FrameworkImportError[];
+  summary: { steps: number; substeps: number; behaviors: number };
+  document?: FrameworkDocument;
+  framework?: Framework;
+}
+
+// Served by GET /api/assessments/:id/self-assessment: the coachee's self-assessment of a session,
+// scored against the same (focused) steps and policy as the coach's assessment
+export interface SelfAssessmentDetail {
+  assessment: Assessment;
+  selfAssessment: SelfAssessment | null; // null until the coachee starts one
+  selfScores: SelfAssessmentScore[];
+  steps: StepWithSubsteps[];
+  scoringPolicy?: ScoringPolicy; // From the pinned framework version, as in FrameworkSnapshot
+  // The coach's ratings, shared once the self-assessment is submitted so they can't sway it
+  coachScores: AssessmentScore[] | null;
+  coachStepScores: StepScore[] | null;
+}
+
+export interface CoacheeProgressStep {
+  stepId: number;
+  title: string;
+  level: number;
+  source: 'manual' | 'calculated';
+  assessed: boolean; // false when the step had no manual level and no checked behaviors
+}
+
+export interface CoacheeProgressEntry {
+  assessmentId: number;
+  title: string;
+  status: string;
+  createdAt: Date | null;
+  frameworkId: number | null;
+  overallLevel: number;
+  steps: CoacheeProgressStep[];
+}
+
+export interface CoacheeProgress {
+  coachee: Pick<User, 'id' | 'fullName' | 'email' | 'team'>;
+  assessments: CoacheeProgressEntry[]; // Oldest first
+}
 
 export interface UserRegistration {
   fullName: string;
@@ -238,7 +800,33 @@ export interface UserLogin {
   password: string;
 }
 
+// Sign-in options shown on the login page
+export interface AuthProviderInfo {
+  id: OAuthProvider;
+  name: string;
+}
+
 export interface AuthResponse {
   user: User;
   token: string;
+}
+
+// Returned by login instead of AuthResponse when the account has two-factor authentication
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+// GET /api/auth/2fa
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Enforced for this account by the admin setting
+  recoveryCodesRemaining: number;
+}
+
+// Scanned or typed into an authenticator app during enrollment
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StepLevelCalculator, DEFAULT_SCORING_POLICY, LEGACY_TITLE_THRESHOLDS } from "./stepLevelCalculator";
+import { updateAssessmentScoreSchema } from "./schema";
+import type { Behavior, BehaviorObservation, LevelThresholds, ScoringPolicy, StepWithSubsteps } from "./schema";
+
+let nextId = 1;
+
+function behavior(overrides: Partial<Behavior> = {}): Behavior {
+  const id = nextId++;
+  return { id, substepId: 0, description: `Behavior ${id}`, proficiencyLevel: 1, order: id, weight: 1, archived: false, ...overrides };
+}
+
+// A step with one substep per entry of behaviorCounts
+function step(title: string, behaviorCounts: number[], overrides: Partial<StepWithSubsteps> = {}): StepWithSubsteps {
+  const id = nextId++;
+  return {
+    id, frameworkId: 1, title, description: "", targetScore: 3, order: id, weight: 1, archived: false,
+    substeps: behaviorCounts.map(count => {
+      const substepId = nextId++;
+      return {
+        id: substepId, stepId: id, title: `${title} substep`, order: substepId, archived: false,
+        behaviors: Array.from({ length: count }, () => behavior({ substepId })),
+      };
+    }),
+    ...overrides,
+  };
+}
+
+function behaviorsOf(target: StepWithSubsteps) {
+  return target.substeps.flatMap(substep => substep.behaviors);
+}
+
+// Marks the first `count` behaviors of a step with the observation
+function mark(target: StepWithSubsteps, count: number, observation: BehaviorObservation = "observed") {
+  return behaviorsOf(target).slice(0, count).map(({ id }) => ({ behaviorId: id, observation }));
+}
+
+describe("StepLevelCalculator.getUnifiedStepLevels", () => {
+  it("prefers a manual level over the calculated one", () => {
+    const target = step("Opening", [4]);
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], mark(target, 4), [{ stepId: target.id, level: 2 }]);
+
+    assert.equal(level.source, "manual");
+    assert.equal(level.level, 2);
+    assert.equal(level.percentage, 100); // Still reported alongside the manual level
+    assert.ok(StepLevelCalculator.isAssessed(level));
+  });
+
+  it("ignores a cleared manual level", () => {
+    const target = step("Opening", [4]);
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], mark(target, 4), [{ stepId: target.id, level: 0 }]);
+
+    assert.equal(level.source, "calculated");
+    assert.equal(level.level, 4);
+  });
+
+  it("calculates the level from the share of observed behaviors", () => {
+    const target = step("Need Dialog", [5, 5]);
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], mark(target, 7), []);
+
+    assert.equal(level.source, "calculated");
+    assert.equal(level.percentage, 70);
+    assert.equal(level.level, 3);
+    assert.equal(level.checkedCount, 7);
+    assert.equal(level.totalCount, 10);
+  });
+
+  it("leaves not applicable behaviors out of the percentage", () => {
+    const target = step("Solution Dialog", [4]);
+    const [first, second, third] = behaviorsOf(target);
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], [
+      { behaviorId: first.id, observation: "observed" },
+      { behaviorId: second.id, observation: "observed" },
+      { behaviorId: third.id, observation: "not_applicable" },
+    ], []);
+
+    assert.equal(level.totalCount, 3);
+    assert.equal(level.notApplicableCount, 1);
+    assert.equal(level.percentage, 67);
+    assert.equal(level.level, 2);
+  });
+
+  it("weights behaviors in the percentage", () => {
+    const target = step("Checking", [2]);
+    const [heavy] = behaviorsOf(target);
+    heavy.weight = 3;
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], [{ behaviorId: heavy.id, observation: "observed" }], []);
+
+    assert.equal(level.percentage, 75);
+    assert.equal(level.level, 3);
+  });
+
+  it("reports a step without marks as not assessed", () => {
+    const untouched = step("Follow up", [3]);
+    const empty = step("Objection Resolution", []);
+    const levels = StepLevelCalculator.getUnifiedStepLevels([untouched, empty], [], []);
+
+    assert.deepEqual(levels.map(level => level.level), [1, 1]);
+    assert.ok(levels.every(level => !StepLevelCalculator.isAssessed(level)));
+    assert.equal(StepLevelCalculator.getStepLevelText(levels[0]), "Not Assessed");
+    assert.equal(levels[1].totalCount, 0);
+  });
+
+  it("counts a step with only not observed behaviors as assessed at Learner", () => {
+    const target = step("Preparation", [3]);
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([target], mark(target, 3, "not_observed"), []);
+
+    assert.ok(StepLevelCalculator.isAssessed(level));
+    assert.equal(level.level, 1);
+    assert.equal(StepLevelCalculator.getStepLevelText(level), "Learner");
+  });
+
+  it("counts explicit marks but not legacy unchecked rows in a mixed session", () => {
+    const legacy = step("Opening", [2]);
+    const explicit = step("Relating", [2]);
+    const mixed = step("Checking", [3]);
+    // Legacy rows as converted when the observation column was added, or as sent by an older client
+    const legacyRow = (behaviorId: number, checked: boolean) => ({ behaviorId, ...updateAssessmentScoreSchema.parse({ checked }) });
+    const [legacyFirst, legacySecond] = behaviorsOf(legacy);
+    const [mixedObserved, mixedUnchecked] = behaviorsOf(mixed);
+    const levels = StepLevelCalculator.getUnifiedStepLevels([legacy, explicit, mixed], [
+      legacyRow(legacyFirst.id, false),
+      legacyRow(legacySecond.id, false),
+      ...mark(explicit, 2, "not_observed"),
+      legacyRow(mixedObserved.id, true),
+      legacyRow(mixedUnchecked.id, false),
+      ...mark(mixed, 3, "not_observed").slice(2),
+    ], []);
+
+    assert.deepEqual(levels.map(level => StepLevelCalculator.isAssessed(level)), [false, true, true]);
+    assert.deepEqual(levels.map(level => level.notObservedCount), [0, 2, 1]);
+    assert.equal(levels[2].checkedCount, 1);
+  });
+});
+
+describe("StepLevelCalculator thresholds", () => {
+  it("uses the default cutoffs inclusively", () => {
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(49, 100), 1);
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(50, 100), 2);
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(70, 100), 3);
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(90, 100), 4);
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(0, 0), 1);
+  });
+
+  it("applies the framework's cutoffs", () => {
+    const policy: ScoringPolicy = { ...DEFAULT_SCORING_POLICY, behaviorPercentages: { qualified: 20, experienced: 40, master: 60 } };
+
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(1, 5, policy), 2);
+    assert.equal(StepLevelCalculator.calculateLevelFromBehaviors(3, 5, policy), 4);
+  });
+
+  it("applies a step's threshold rule instead of the framework's cutoffs", () => {
+    const ruled = step("Opening", [10]);
+    const other = step("Relating", [10]);
+    const policy: ScoringPolicy = {
+      ...DEFAULT_SCORING_POLICY,
+      thresholdRules: [{ targetType: "step", targetId: ruled.id, behaviorPercentages: { qualified: 10, experienced: 20, master: 30 } }],
+    };
+    const levels = StepLevelCalculator.getUnifiedStepLevels([ruled, other], [...mark(ruled, 3), ...mark(other, 3)], [], policy);
+
+    assert.equal(levels[0].level, 4);
+    assert.equal(levels[1].level, 1);
+  });
+
+  it("applies a substep's threshold rule to the substep level only", () => {
+    const target = step("Need Dialog", [4]);
+    const [substep] = target.substeps;
+    const policy: ScoringPolicy = {
+      ...DEFAULT_SCORING_POLICY,
+      thresholdRules: [{ targetType: "substep", targetId: substep.id, behaviorPercentages: { qualified: 10, experienced: 20, master: 25 } }],
+    };
+    const observations = StepLevelCalculator.getObservations(mark(target, 1));
+
+    assert.equal(StepLevelCalculator.getSubstepLevel(substep, observations, policy), 4);
+    assert.equal(StepLevelCalculator.getSessionStepLevels([target], observations, {}, policy)[0].level, 1);
+    assert.equal(StepLevelCalculator.getSubstepLevel(substep, {}, policy), null);
+  });
+
+  it("averages only the assessed steps into the overall level, by step weight", () => {
+    const strong = step("Opening", [2], { weight: 3 });
+    const weak = step("Relating", [2]);
+    const untouched = step("Checking", [2]);
+    const levels = StepLevelCalculator.getUnifiedStepLevels(
+      [strong, weak, untouched],
+      [...mark(strong, 2), ...mark(weak, 2, "not_observed")],
+      []
+    );
+
+    // (4 * 3 + 1) / 4 = 3.25
+    assert.deepEqual(StepLevelCalculator.getOverallProficiencyLevel(levels), { level: 3, text: "Experienced" });
+    assert.deepEqual(StepLevelCalculator.getOverallProficiencyLevel([]), { level: 1, text: "Not Evaluated" });
+  });
+
+  it("turns legacy title thresholds into point rules on matching steps only", () => {
+    const commitment = step("Asking for Commitment", [4]);
+    const rapport = step("Opening", [2]);
+    rapport.substeps[0].title = "Maintaining rapport";
+    const rules = StepLevelCalculator.getLegacyThresholdRules([commitment, rapport, step("Preparation", [3])]);
+
+    assert.deepEqual(rules, [
+      { targetType: "step", targetId: commitment.id, behaviorPoints: { qualified: 2, experienced: 2, master: 2 } },
+    ]);
+
+    // One level 1 behavior is a single point, below every threshold
+    const policy: ScoringPolicy = { ...DEFAULT_SCORING_POLICY, thresholdRules: rules };
+    const [level] = StepLevelCalculator.getUnifiedStepLevels([commitment], mark(commitment, 1), [], policy);
+    assert.equal(level.level, 1);
+  });
+
+  it("gives legacy titled steps the level the old point thresholds gave them for every set of checked behaviors", () => {
+    // The client's old calculation, from the summed proficiency levels of the checked behaviors
+    const legacyLevel = (points: number, thresholds: LevelThresholds) => {
+      if (points >= thresholds.master) return 4;
+      if (points >= thresholds.experienced) return 3;
+      if (points >= thresholds.qualified) return 2;
+      return 1;
+    };
+
+    for (const [title, thresholds] of Object.entries(LEGACY_TITLE_THRESHOLDS)) {
+      const target = step(title.toUpperCase(), [3, 3]);
+      behaviorsOf(target).forEach((behavior, index) => { behavior.proficiencyLevel = [1, 1, 2, 3, 4, 2][index]; });
+      const policy: ScoringPolicy = { ...DEFAULT_SCORING_POLICY, thresholdRules: StepLevelCalculator.getLegacyThresholdRules([target]) };
+      const behaviors = behaviorsOf(target);
+
+      for (let checked = 1; checked < 1 << behaviors.length; checked++) {
+        const observed = behaviors.filter((_, index) => checked & (1 << index));
+        const points = observed.reduce((sum, behavior) => sum + behavior.proficiencyLevel, 0);
+        const [level] = StepLevelCalculator.getUnifiedStepLevels(
+          [target],
+          observed.map(({ id }) => ({ behaviorId: id, observation: "observed" as const })),
+          [],
+          policy
+        );
+
+        assert.equal(level.level, legacyLevel(points, thresholds), `${title} with ${points} points`);
+      }
+    }
+  });
+});
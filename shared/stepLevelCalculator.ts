@@ -1,4 +1,4 @@
-import type { Step, Substep, Behavior, AssessmentScore, StepScore } from "./schema";
+import type { Step, Substep, Behavior, AssessmentScore, StepScore, ScoringPolicy, ThresholdRule, LevelThresholds, BehaviorObservation, BehaviorObservations } from "./schema";
 
 type StepWithSubsteps = Step & {
   substeps: (Substep & {
@@ -6,39 +6,178 @@ type StepWithSubsteps = Step & {
   })[];
 };
 
+// The cutoffs used before scoring policies became configurable per framework
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  behaviorPercentages: { qualified: 50, experienced: 70, master: 90 },
+  overallAverages: { qualified: 1.5, experienced: 2.5, master: 3.5 },
+};
+
+// Thresholds the client used to apply to steps whose title contained the key, before threshold
+// rules existed. They are in points (summed proficiency levels of the checked behaviors) and some
+// lower a level below the one beneath it; see getLegacyThresholdRules.
+export const LEGACY_TITLE_THRESHOLDS: { [title: string]: LevelThresholds } = {
+  "analyzing results": { qualified: 2, experienced: 3, master: 4 },
+  "maintaining rapport": { qualified: 3, experienced: 4, master: 5 },
+  "asking for commitment": { qualified: 2, experienced: 3, master: 2 }, // Master threshold lowered
+  "summarizing": { qualified: 2, experienced: 3, master: 2 }, // Master threshold lowered
+  "objection handling": { qualified: 2, experienced: 3, master: 4 },
+  "active listening": { qualified: 2, experienced: 2, master: 3 } // Experienced threshold lowered
+};
+
 export interface UnifiedStepLevel {
   stepId: number;
   level: number;
   source: 'manual' | 'calculated';
-  percentage?: number;
+  percentage: number; // Weighted share of observed behaviors, reported for manual levels too
+  checkedCount: number; // Behaviors observed
+  notObservedCount: number; // Behaviors explicitly marked as not observed
+  notApplicableCount: number; // Behaviors left out of the percentage
+  totalCount: number; // Behaviors that count towards the percentage (not applicable ones excluded)
+  weight: number;
+}
+
+// A behavior the coach and the coachee's self-assessment disagree on
+export interface BehaviorGap {
+  behaviorId: number;
+  stepId: number;
+  coach: BehaviorObservation;
+  self: BehaviorObservation;
+}
+
+// Coach and self-assessed level of a step; difference is self minus coach, 0 unless both assessed it
+export interface StepGap {
+  stepId: number;
+  coach: UnifiedStepLevel;
+  self: UnifiedStepLevel;
+  difference: number;
+}
+
+export interface SelfAssessmentGaps {
+  steps: StepGap[];
+  behaviors: BehaviorGap[];
 }
 
+
 export class StepLevelCalculator {
   /**
-   * Calculate step level from behavior completion percentage
+   * Weight of a step or behavior; snapshots taken before weights existed count everything as 1
    */
-  static calculateLevelFromBehaviors(checkedCount: number, totalCount: number): number {
-    if (totalCount === 0) return 1;
-    
-    const percentage = (checkedCount / totalCount) * 100;
+  static getWeight(item: { weight?: number | null }): number {
+    return item.weight ?? 1;
+  }
+
+  /**
+   * The policy's threshold rule for a step or substep, if it has one
+   */
+  static getThresholdRule(
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+    target?: Pick<ThresholdRule, 'targetType' | 'targetId'>
+  ): ThresholdRule | undefined {
+    return target && policy.thresholdRules?.find(candidate =>
+      candidate.targetType === target.targetType && candidate.targetId === target.targetId
+    );
+  }
+
+  /**
+   * Behavior percentage cutoffs for a step or substep: its threshold rule if the policy has one
+   * in percentages, otherwise the framework-wide cutoffs
+   */
+  static getBehaviorThresholds(
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+    target?: Pick<ThresholdRule, 'targetType' | 'targetId'>
+  ): LevelThresholds {
+    const rule = this.getThresholdRule(policy, target);
+    return rule && 'behaviorPercentages' in rule ? rule.behaviorPercentages : policy.behaviorPercentages;
+  }
+
+  /**
+   * Id-keyed threshold rules that give a framework's steps the levels LEGACY_TITLE_THRESHOLDS gave
+   * them. Those matched step titles only and counted points, so each matching step gets a point
+   * rule. A lowered level is raised to the threshold above it, which skips the same levels for
+   * every set of checked behaviors.
+   */
+  static getLegacyThresholdRules(steps: StepWithSubsteps[]): ThresholdRule[] {
+    return steps.flatMap(step => {
+      const key = Object.keys(LEGACY_TITLE_THRESHOLDS).find(candidate => step.title.toLowerCase().includes(candidate));
+      if (!key) return [];
+      const { qualified, experienced, master } = LEGACY_TITLE_THRESHOLDS[key];
+      const reachableExperienced = Math.min(experienced, master);
+      return [{
+        targetType: 'step' as const,
+        targetId: step.id,
+        behaviorPoints: { qualified: Math.min(qualified, reachableExperienced), experienced: reachableExperienced, master },
+      }];
+    });
+  }
+
+  /**
+   * Calculate step level from behavior completion percentage.
+   * Pass summed behavior weights rather than plain counts when behaviors are weighted,
+   * and the step or substep being scored so its percentage threshold rule applies.
+   */
+  static calculateLevelFromBehaviors(
+    checkedWeight: number,
+    totalWeight: number,
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+    target?: Pick<ThresholdRule, 'targetType' | 'targetId'>
+  ): number {
+    if (totalWeight === 0) return 1;
     
-    if (percentage >= 90) return 4; // Master
-    if (percentage >= 70) return 3; // Experienced
-    if (percentage >= 50) return 2; // Qualified
+    const percentage = (checkedWeight / totalWeight) * 100;
+    return this.getLevelFromThresholds(percentage, this.getBehaviorThresholds(policy, target));
+  }
+
+  // The highest level whose threshold the value reaches
+  private static getLevelFromThresholds(value: number, thresholds: LevelThresholds): number {
+    if (value >= thresholds.master) return 4; // Master
+    if (value >= thresholds.experienced) return 3; // Experienced
+    if (value >= thresholds.qualified) return 2; // Qualified
     return 1; // Learner
   }
 
+  // Level of a step or substep from its tallied behaviors: by points when its threshold rule is in
+  // points, otherwise by the weighted share of observed behaviors
+  private static calculateLevel(
+    tally: ReturnType<typeof StepLevelCalculator.tallyObservations>,
+    policy: ScoringPolicy,
+    target: Pick<ThresholdRule, 'targetType' | 'targetId'>
+  ): number {
+    const rule = this.getThresholdRule(policy, target);
+    if (rule && 'behaviorPoints' in rule) return this.getLevelFromThresholds(tally.observedPoints, rule.behaviorPoints);
+    return this.calculateLevelFromBehaviors(tally.observedWeight, tally.applicableWeight, policy, target);
+  }
+
+  /**
+   * Steps a session covers: only the focus steps of a focused session, otherwise all of them
+   */
+  static getFocusSteps<T extends { id: number }>(steps: T[], focusStepIds?: number[] | null): T[] {
+    if (!focusStepIds || focusStepIds.length === 0) return steps;
+    return steps.filter(step => focusStepIds.includes(step.id));
+  }
+
+  /**
+   * Turn saved assessment scores into the behaviorId -> observation map used during a session
+   */
+  static getObservations(assessmentScores: Pick<AssessmentScore, 'behaviorId' | 'observation'>[]): BehaviorObservations {
+    return assessmentScores.reduce((acc, score) => {
+      // Rows that only hold a note leave the behavior unmarked
+      if (score.observation) acc[score.behaviorId] = score.observation;
+      return acc;
+    }, {} as BehaviorObservations);
+  }
+
   /**
-   * Get unified step levels - prioritizes manual scoring but falls back to calculated levels
+   * Get unified step levels - prioritizes manual scoring but falls back to calculated levels.
+   * Pass the steps of the assessment's pinned framework version so historic sessions
+   * are not reinterpreted against later framework edits.
    */
   static getUnifiedStepLevels(
     steps: StepWithSubsteps[],
-    assessmentScores: AssessmentScore[],
-    stepScores: StepScore[]
+    assessmentScores: Pick<AssessmentScore, 'behaviorId' | 'observation'>[],
+    stepScores: Pick<StepScore, 'stepId' | 'level'>[],
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
   ): UnifiedStepLevel[] {
-    const checkedBehaviorIds = new Set(
-      assessmentScores.filter(score => score.checked).map(score => score.behaviorId)
-    );
+    const observations = this.getObservations(assessmentScores);
 
     const manualStepScores = stepScores.reduce((acc, score) => {
       acc[score.stepId] = score.level;
@@ -46,58 +185,124 @@ export class StepLevelCalculator {
     }, {} as { [stepId: number]: number });
 
     return steps.map(step => {
+      const stepBehaviors = step.substeps.flatMap(substep => substep.behaviors);
+      const tally = this.tallyObservations(stepBehaviors, observations);
+      const { observedWeight, applicableWeight, observedCount, notObservedCount, notApplicableCount } = tally;
+      const percentage = applicableWeight > 0 ? 
+        (observedWeight / applicableWeight) * 100 : 0;
+
+      const counts = {
+        percentage: Math.round(percentage),
+        checkedCount: observedCount,
+        notObservedCount,
+        notApplicableCount,
+        totalCount: stepBehaviors.length - notApplicableCount,
+        weight: this.getWeight(step)
+      };
+
       // Check if there's a manual score
       if (manualStepScores[step.id]) {
         return {
           stepId: step.id,
           level: manualStepScores[step.id],
-          source: 'manual' as const
+          source: 'manual' as const,
+          ...counts
         };
       }
 
       // Calculate from behaviors
-      const stepBehaviors = step.substeps.flatMap(substep => substep.behaviors);
-      const checkedCount = stepBehaviors.filter(behavior => 
-        checkedBehaviorIds.has(behavior.id)
-      ).length;
-      
-      const percentage = stepBehaviors.length > 0 ? 
-        (checkedCount / stepBehaviors.length) * 100 : 0;
-      
-      const calculatedLevel = this.calculateLevelFromBehaviors(checkedCount, stepBehaviors.length);
+      const calculatedLevel = this.calculateLevel(tally, policy, { targetType: 'step', targetId: step.id });
 
       return {
         stepId: step.id,
         level: calculatedLevel,
         source: 'calculated' as const,
-        percentage: Math.round(percentage)
+        ...counts
       };
     });
   }
 
   /**
-   * Get overall proficiency level from unified step levels
+   * Get unified step levels for an in-progress session, where observations are held as a
+   * behaviorId -> observation map and manual levels as a stepId -> level map (0 means cleared)
+   */
+  static getSessionStepLevels(
+    steps: StepWithSubsteps[],
+    observations: BehaviorObservations,
+    stepScores: { [stepId: number]: number },
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+  ): UnifiedStepLevel[] {
+    return this.getUnifiedStepLevels(
+      steps,
+      Object.entries(observations).map(([behaviorId, observation]) => ({ behaviorId: Number(behaviorId), observation })),
+      Object.entries(stepScores).map(([stepId, level]) => ({ stepId: Number(stepId), level })),
+      policy
+    );
+  }
+
+  /**
+   * Level of a single substep from its observed behaviors, using the substep's threshold rule
+   * when it has one; null until one of its behaviors is marked observed or not observed.
+   * This only drives the substep's badge: step levels come from all of the step's behaviors
+   * and never from substep levels or substep rules.
    */
-  static getOverallProficiencyLevel(unifiedStepLevels: UnifiedStepLevel[]): {
+  static getSubstepLevel(
+    substep: Substep & { behaviors: Behavior[] },
+    observations: BehaviorObservations,
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+  ): number | null {
+    const tally = this.tallyObservations(substep.behaviors, observations);
+    if (tally.observedCount === 0 && tally.notObservedCount === 0) return null;
+
+    return this.calculateLevel(tally, policy, { targetType: 'substep', targetId: substep.id });
+  }
+
+  /**
+   * A step counts as assessed once it has a manual level or a behavior marked observed or
+   * not observed. Steps that were not assessed are left out of the overall level.
+   */
+  static isAssessed(stepLevel: UnifiedStepLevel): boolean {
+    return stepLevel.source === 'manual' || stepLevel.checkedCount > 0 || stepLevel.notObservedCount > 0;
+  }
+
+  /**
+   * Get the label shown for a single step, distinguishing untouched steps from Learner
+   */
+  static getStepLevelText(stepLevel: UnifiedStepLevel): string {
+    return this.isAssessed(stepLevel) ? this.getLevelText(stepLevel.level) : 'Not Assessed';
+  }
+
+  /**
+   * Get overall proficiency level from the weighted average of the assessed steps' levels
+   */
+  static getOverallProficiencyLevel(
+    unifiedStepLevels: UnifiedStepLevel[],
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+  ): {
     level: number;
     text: string;
   } {
-    if (unifiedStepLevels.length === 0) {
+    const assessedStepLevels = unifiedStepLevels.filter(step => this.isAssessed(step));
+    if (assessedStepLevels.length === 0) {
       return { level: 1, text: 'Not Evaluated' };
     }
 
-    const avgLevel = unifiedStepLevels.reduce((sum, step) => sum + step.level, 0) / unifiedStepLevels.length;
+    const totalWeight = assessedStepLevels.reduce((sum, step) => sum + step.weight, 0);
+    const avgLevel = totalWeight > 0
+      ? assessedStepLevels.reduce((sum, step) => sum + step.level * step.weight, 0) / totalWeight
+      : 0;
+    const thresholds = policy.overallAverages;
     
     let level: number;
     let text: string;
     
-    if (avgLevel >= 3.5) {
+    if (avgLevel >= thresholds.master) {
       level = 4;
       text = 'Master';
-    } else if (avgLevel >= 2.5) {
+    } else if (avgLevel >= thresholds.experienced) {
       level = 3;
       text = 'Experienced';
-    } else if (avgLevel >= 1.5) {
+    } else if (avgLevel >= thresholds.qualified) {
       level = 2;
       text = 'Qualified';
     } else {
@@ -108,6 +313,70 @@ export class StepLevelCalculator {
     return { level, text };
   }
 
+  /**
+   * Compare a coachee's self-assessment with the coach's assessment of the same session. Only steps
+   * both sides assessed are compared. There a behavior diverges when one side observed it and the
+   * other didn't (unmarked counts as not observed, not applicable on either side is skipped).
+   * The self-assessment has no manual step levels.
+   */
+  static getSelfAssessmentGaps(
+    steps: StepWithSubsteps[],
+    coachScores: Pick<AssessmentScore, 'behaviorId' | 'observation'>[],
+    coachStepScores: Pick<StepScore, 'stepId' | 'level'>[],
+    selfScores: Pick<AssessmentScore, 'behaviorId' | 'observation'>[],
+    policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+  ): SelfAssessmentGaps {
+    const coachLevels = this.getUnifiedStepLevels(steps, coachScores, coachStepScores, policy);
+    const selfLevels = this.getUnifiedStepLevels(steps, selfScores, [], policy);
+    const coachObservations = this.getObservations(coachScores);
+    const selfObservations = this.getObservations(selfScores);
+
+    const stepGaps = steps.map((step, index) => ({
+      stepId: step.id,
+      coach: coachLevels[index],
+      self: selfLevels[index],
+      difference: this.isAssessed(coachLevels[index]) && this.isAssessed(selfLevels[index])
+        ? selfLevels[index].level - coachLevels[index].level
+        : 0,
+    }));
+
+    const behaviorGaps: BehaviorGap[] = [];
+    steps.forEach((step, index) => {
+      if (!this.isAssessed(coachLevels[index]) || !this.isAssessed(selfLevels[index])) return;
+      for (const behavior of step.substeps.flatMap(substep => substep.behaviors)) {
+        const coach = coachObservations[behavior.id] ?? 'not_observed';
+        const self = selfObservations[behavior.id] ?? 'not_observed';
+        if (coach !== self && coach !== 'not_applicable' && self !== 'not_applicable') {
+          behaviorGaps.push({ behaviorId: behavior.id, stepId: step.id, coach, self });
+        }
+      }
+    });
+
+    return { steps: stepGaps, behaviors: behaviorGaps };
+  }
+
+  // Weighted totals and observed points for a set of behaviors; behaviors without an observation
+  // count as not observed
+  private static tallyObservations(behaviors: Behavior[], observations: BehaviorObservations) {
+    let observedWeight = 0, applicableWeight = 0, observedPoints = 0, observedCount = 0, notObservedCount = 0, notApplicableCount = 0;
+    for (const behavior of behaviors) {
+      const observation = observations[behavior.id];
+      if (observation === 'not_applicable') {
+        notApplicableCount++;
+        continue;
+      }
+      applicableWeight += this.getWeight(behavior);
+      if (observation === 'observed') {
+        observedWeight += this.getWeight(behavior);
+        observedPoints += behavior.proficiencyLevel;
+        observedCount++;
+      } else if (observation === 'not_observed') {
+        notObservedCount++;
+      }
+    }
+    return { observedWeight, applicableWeight, observedPoints, observedCount, notObservedCount, notApplicableCount };
+  }
+
   /**
    * Get level text for display
    */